@@ -0,0 +1,26 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { ChartEditor } from '@/components/ChartEditor';
+import { SonicBackground } from '@/components/shared/SonicBackground';
+
+/**
+ * Chart Editor Page - Author and preview dance game charts
+ */
+export default function ChartEditorPage() {
+  const router = useRouter();
+
+  const handleBack = () => {
+    router.push('/dance-game');
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Animated background */}
+      <SonicBackground particleCount={20} />
+
+      {/* Editor */}
+      <ChartEditor onBack={handleBack} />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { GestureLab } from '@/components/GestureLab';
+import { SonicBackground } from '@/components/shared/SonicBackground';
+
+/**
+ * Gesture Lab Page - Evaluate gesture detection against labeled pose fixtures
+ */
+export default function GestureLabPage() {
+  const router = useRouter();
+
+  const handleBack = () => {
+    router.push('/dance-game');
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Animated background */}
+      <SonicBackground particleCount={20} />
+
+      {/* Lab */}
+      <GestureLab onBack={handleBack} />
+    </div>
+  );
+}
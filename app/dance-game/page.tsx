@@ -22,6 +22,7 @@ export default function DanceGamePage() {
       {/* Main game component */}
       <DanceGame
         initialDifficulty="easy"
+        showPoseSessionControls={process.env.NODE_ENV === 'development'}
         onBackToMenu={handleBackToMenu}
       />
     </div>
@@ -0,0 +1,621 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { ChartTimeline, type EditorNote } from './ChartTimeline';
+import { GameCanvas } from '@/components/DanceGame/GameCanvas';
+import { useBackgroundMusic } from '@/hooks/useBackgroundMusic';
+import type { Chart, DifficultyLevel, LaneIndex, LaneLayoutId } from '@/lib/types';
+import { DIFFICULTY_SETTINGS } from '@/lib/gameConstants';
+import { DEFAULT_LANE_LAYOUT, LANE_LAYOUTS, LANE_LAYOUT_IDS } from '@/lib/laneLayouts';
+import { CHART_FORMAT_VERSION, validateChart, getChartArrowsAt } from '@/lib/chart';
+import {
+  analyzeAudio,
+  computeWaveformPeaks,
+  createChartFromAnalysis,
+  decodeAudio,
+} from '@/lib/chartGenerator';
+import { createGameClock } from '@/lib/gameClock';
+
+interface ChartEditorProps {
+  /** Callback when leaving the editor */
+  onBack?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// Waveform resolution
+const PEAKS_PER_SECOND = 100;
+
+// Zoom levels (visible ms)
+const ZOOM_LEVELS = [4000, 8000, 16000, 32000];
+
+// Grid snapping options (subdivisions per beat)
+const SNAP_OPTIONS = [
+  { value: 1, label: '1/4' },
+  { value: 2, label: '1/8' },
+  { value: 4, label: '1/16' },
+];
+
+/**
+ * Turn a title into a safe file name
+ */
+function toFileName(title: string, difficulty: DifficultyLevel): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'chart'}-${difficulty}.json`;
+}
+
+/**
+ * ChartEditor - Author charts on a waveform + beat grid and preview them
+ * with the game's own renderer and clock
+ */
+export function ChartEditor({ onBack, className = '' }: ChartEditorProps) {
+  // Chart fields
+  const [title, setTitle] = useState('');
+  const [artist, setArtist] = useState('');
+  const [audioPath, setAudioPath] = useState('');
+  const [bpm, setBpm] = useState(120);
+  const [offset, setOffset] = useState(0);
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>('easy');
+  const [layoutId, setLayoutId] = useState<LaneLayoutId>(DEFAULT_LANE_LAYOUT.id);
+  const [notes, setNotes] = useState<EditorNote[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  // Song audio
+  const [songUrl, setSongUrl] = useState('');
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [songDuration, setSongDuration] = useState(0);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  // View and playback
+  const [subdivision, setSubdivision] = useState(2);
+  const [viewDuration, setViewDuration] = useState(ZOOM_LEVELS[1]);
+  const [viewStart, setViewStart] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const nextNoteIdRef = useRef(1);
+  const audioBufferRef = useRef<AudioBuffer | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  // Playback uses the same clock as the game, driven by the song
+  const [clock] = useState(createGameClock);
+  useBackgroundMusic({ src: songUrl, volume: 0.8, loop: false, clock });
+
+  const sortedNotes = useMemo(
+    () => [...notes].sort((a, b) => a.time - b.time),
+    [notes]
+  );
+
+  // Preview arrows exactly as the engine would place them
+  const previewArrows = useMemo(
+    () =>
+      getChartArrowsAt(
+        { offset, notes: sortedNotes },
+        currentTime,
+        DIFFICULTY_SETTINGS[difficulty].arrowTravelTime
+      ),
+    [offset, sortedNotes, currentTime, difficulty]
+  );
+
+  const withNoteIds = useCallback(
+    (chartNotes: Chart['notes']): EditorNote[] =>
+      chartNotes.map((note) => ({ ...note, id: nextNoteIdRef.current++ })),
+    []
+  );
+
+  // ---- Song loading ----
+
+  const handleSongFile = useCallback(async (file: File) => {
+    setIsAnalyzing(true);
+    setMessage(null);
+
+    try {
+      const buffer = await decodeAudio(await file.arrayBuffer());
+      audioBufferRef.current = buffer;
+      setPeaks(computeWaveformPeaks(buffer, PEAKS_PER_SECOND));
+      setSongDuration(buffer.duration * 1000);
+      setSongUrl((prev) => {
+        if (prev.startsWith('blob:')) {
+          URL.revokeObjectURL(prev);
+        }
+        return URL.createObjectURL(file);
+      });
+      setTitle((prev) => prev || file.name.replace(/\.[^.]+$/, ''));
+      setAudioPath((prev) => prev || `/sounds/${file.name}`);
+      setViewStart(0);
+      setCurrentTime(0);
+    } catch (err) {
+      console.error('Failed to load song:', err);
+      setMessage({ text: 'Could not decode that audio file', isError: true });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, []);
+
+  // Detect tempo and beat phase (and optionally notes) with the chart generator
+  const handleAutoDetect = useCallback(
+    async (includeNotes: boolean) => {
+      const buffer = audioBufferRef.current;
+      if (!buffer) return;
+
+      if (includeNotes && notes.length > 0 && !window.confirm('Replace all notes with generated ones?')) {
+        return;
+      }
+
+      setIsAnalyzing(true);
+      try {
+        const analysis = await analyzeAudio(buffer);
+        const generated = createChartFromAnalysis(analysis, { difficulty, layout: layoutId });
+        setBpm(generated.bpm);
+        setOffset(generated.offset);
+        if (includeNotes) {
+          setNotes(withNoteIds(generated.notes));
+          setSelectedId(null);
+        }
+        setMessage({ text: `Detected ${generated.bpm} BPM`, isError: false });
+      } catch (err) {
+        console.error('Audio analysis failed:', err);
+        setMessage({ text: 'Audio analysis failed', isError: true });
+      } finally {
+        setIsAnalyzing(false);
+      }
+    },
+    [notes.length, difficulty, layoutId, withNoteIds]
+  );
+
+  // Release the song's object URL on unmount
+  useEffect(() => {
+    return () => {
+      if (songUrl.startsWith('blob:')) {
+        URL.revokeObjectURL(songUrl);
+      }
+    };
+  }, [songUrl]);
+
+  // ---- Note editing ----
+
+  const handleAddNote = useCallback((time: number, lane: LaneIndex) => {
+    const id = nextNoteIdRef.current++;
+    setNotes((prev) =>
+      prev.some((note) => note.time === time && note.lane === lane)
+        ? prev
+        : [...prev, { id, time, lane }]
+    );
+    setSelectedId(id);
+  }, []);
+
+  const handleMoveNote = useCallback((id: number, time: number, lane: LaneIndex) => {
+    setNotes((prev) => prev.map((note) => (note.id === id ? { ...note, time, lane } : note)));
+  }, []);
+
+  const handleResizeNote = useCallback((id: number, duration: number) => {
+    setNotes((prev) =>
+      prev.map((note) =>
+        note.id === id ? { id: note.id, time: note.time, lane: note.lane, ...(duration > 0 && { duration }) } : note
+      )
+    );
+  }, []);
+
+  const handleDeleteNote = useCallback((id: number) => {
+    setNotes((prev) => prev.filter((note) => note.id !== id));
+    setSelectedId((prev) => (prev === id ? null : prev));
+  }, []);
+
+  // Switching to fewer lanes removes the notes in the lanes that go away
+  const handleLayoutChange = useCallback(
+    (id: LaneLayoutId) => {
+      const laneCount = LANE_LAYOUTS[id].lanes.length;
+      const removed = notes.filter((note) => note.lane >= laneCount).length;
+      if (removed > 0 && !window.confirm(`Remove ${removed} notes outside the ${laneCount} lanes?`)) {
+        return;
+      }
+
+      setNotes((prev) => prev.filter((note) => note.lane < laneCount));
+      setSelectedId(null);
+      setLayoutId(id);
+    },
+    [notes]
+  );
+
+  // ---- Playback ----
+
+  const stopPlayback = useCallback(() => {
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    clock.stop();
+    setCurrentTime(clock.getTime());
+    setIsPlaying(false);
+  }, [clock]);
+
+  const startPlayback = useCallback(() => {
+    clock.start(0, currentTime);
+    setIsPlaying(true);
+
+    const tick = () => {
+      const time = clock.getTime();
+      setCurrentTime(time);
+
+      // Keep the cursor in view
+      setViewStart((prev) =>
+        time < prev || time > prev + viewDuration * 0.9
+          ? Math.max(0, time - viewDuration * 0.1)
+          : prev
+      );
+
+      if (songDuration > 0 && time >= songDuration) {
+        stopPlayback();
+        return;
+      }
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    animationFrameRef.current = requestAnimationFrame(tick);
+  }, [clock, currentTime, viewDuration, songDuration, stopPlayback]);
+
+  const togglePlayback = useCallback(() => {
+    if (isPlaying) {
+      stopPlayback();
+    } else {
+      startPlayback();
+    }
+  }, [isPlaying, startPlayback, stopPlayback]);
+
+  const handleSeek = useCallback(
+    (time: number) => {
+      if (isPlaying) {
+        stopPlayback();
+      }
+      setCurrentTime(time);
+    },
+    [isPlaying, stopPlayback]
+  );
+
+  // Stop playback on unmount
+  useEffect(() => {
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      clock.stop();
+    };
+  }, [clock]);
+
+  // Keyboard shortcuts: space plays/stops, delete removes the selected note
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') {
+        return;
+      }
+
+      if (e.key === ' ') {
+        e.preventDefault();
+        togglePlayback();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId !== null) {
+        e.preventDefault();
+        handleDeleteNote(selectedId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePlayback, handleDeleteNote, selectedId]);
+
+  // ---- Save / load ----
+
+  const handleSave = useCallback(() => {
+    const result = validateChart({
+      version: CHART_FORMAT_VERSION,
+      song: {
+        title,
+        artist,
+        ...(audioPath && { audio: audioPath }),
+      },
+      bpm,
+      offset,
+      difficulty,
+      ...(layoutId !== DEFAULT_LANE_LAYOUT.id && { layout: layoutId }),
+      notes: sortedNotes.map(({ time, lane, duration }) => ({
+        time,
+        lane,
+        ...(duration && { duration }),
+      })),
+    });
+
+    if (!result.valid) {
+      setMessage({ text: result.errors.join('; '), isError: true });
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(result.chart, null, 2)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(title, difficulty);
+    link.click();
+    URL.revokeObjectURL(url);
+
+    setMessage({ text: `Saved ${result.chart.notes.length} notes`, isError: false });
+  }, [title, artist, audioPath, bpm, offset, difficulty, layoutId, sortedNotes]);
+
+  const handleLoadChart = useCallback(
+    async (file: File) => {
+      try {
+        const result = validateChart(JSON.parse(await file.text()));
+        if (!result.valid) {
+          setMessage({ text: result.errors.join('; '), isError: true });
+          return;
+        }
+
+        const chart = result.chart;
+        setTitle(chart.song.title);
+        setArtist(chart.song.artist);
+        setAudioPath(chart.song.audio ?? '');
+        setBpm(chart.bpm);
+        setOffset(chart.offset);
+        setDifficulty(chart.difficulty ?? 'easy');
+        setLayoutId(chart.layout ?? DEFAULT_LANE_LAYOUT.id);
+        setNotes(withNoteIds(chart.notes));
+        setSelectedId(null);
+        setMessage({ text: `Loaded ${chart.notes.length} notes`, isError: false });
+      } catch (err) {
+        console.error('Failed to load chart:', err);
+        setMessage({ text: 'Chart file is not valid JSON', isError: true });
+      }
+    },
+    [withNoteIds]
+  );
+
+  const viewEndMax = Math.max(songDuration, viewDuration);
+
+  return (
+    <div className={`flex min-h-screen flex-col gap-4 p-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="neon-text text-3xl font-bold">Chart Editor</h1>
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="rounded-lg border border-white/20 px-4 py-2 text-sm text-white/70 transition-all hover:border-white/40 hover:text-white"
+          >
+            Back to Game
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-1 gap-4">
+        {/* Left: chart settings and timeline */}
+        <div className="flex min-w-0 flex-1 flex-col gap-4">
+          {/* Files */}
+          <div className="glass-card flex flex-wrap items-center gap-3 rounded-2xl p-4">
+            <label className="cursor-pointer rounded-lg bg-white/10 px-4 py-2 text-sm font-semibold text-white/70 transition-all hover:bg-white/20">
+              {isAnalyzing ? 'Analyzing...' : 'Load Song'}
+              <input
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                disabled={isAnalyzing}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleSongFile(file);
+                }}
+              />
+            </label>
+            <label className="cursor-pointer rounded-lg bg-white/10 px-4 py-2 text-sm font-semibold text-white/70 transition-all hover:bg-white/20">
+              Load Chart
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleLoadChart(file);
+                }}
+              />
+            </label>
+            <button
+              onClick={handleSave}
+              className="rounded-lg bg-sonic-speed px-4 py-2 text-sm font-semibold text-background transition-all hover:bg-sonic-speed/80"
+            >
+              Save Chart
+            </button>
+            <button
+              onClick={() => handleAutoDetect(false)}
+              disabled={!peaks || isAnalyzing}
+              className="rounded-lg border border-white/20 px-4 py-2 text-sm text-white/70 transition-all hover:border-white/40 disabled:opacity-40"
+            >
+              Detect BPM
+            </button>
+            <button
+              onClick={() => handleAutoDetect(true)}
+              disabled={!peaks || isAnalyzing}
+              className="rounded-lg border border-white/20 px-4 py-2 text-sm text-white/70 transition-all hover:border-white/40 disabled:opacity-40"
+            >
+              Auto Chart
+            </button>
+            {message && (
+              <span className={`text-sm ${message.isError ? 'text-red-400' : 'text-green-400'}`}>
+                {message.text}
+              </span>
+            )}
+          </div>
+
+          {/* Metadata */}
+          <div className="glass-card grid grid-cols-2 gap-3 rounded-2xl p-4 text-sm md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-white/60">
+              Title
+              <input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-white/60">
+              Artist
+              <input
+                value={artist}
+                onChange={(e) => setArtist(e.target.value)}
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-white/60">
+              Audio path
+              <input
+                value={audioPath}
+                onChange={(e) => setAudioPath(e.target.value)}
+                placeholder="/sounds/song.mp3"
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-white/60">
+              BPM
+              <input
+                type="number"
+                min={1}
+                step={0.1}
+                value={bpm}
+                onChange={(e) => setBpm(Math.max(1, parseFloat(e.target.value) || 1))}
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-white/60">
+              Offset (ms)
+              <input
+                type="number"
+                step={1}
+                value={offset}
+                onChange={(e) => setOffset(parseFloat(e.target.value) || 0)}
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-white/60">
+              Difficulty
+              <select
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as DifficultyLevel)}
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              >
+                {(['easy', 'medium', 'hard'] as DifficultyLevel[]).map((level) => (
+                  <option key={level} value={level} className="bg-background">
+                    {DIFFICULTY_SETTINGS[level].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-white/60">
+              Lanes
+              <select
+                value={layoutId}
+                onChange={(e) => handleLayoutChange(e.target.value as LaneLayoutId)}
+                className="rounded-lg bg-white/10 px-3 py-2 text-white"
+              >
+                {LANE_LAYOUT_IDS.map((id) => (
+                  <option key={id} value={id} className="bg-background">
+                    {LANE_LAYOUTS[id].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Timeline */}
+          <div className="glass-card flex flex-col gap-3 rounded-2xl p-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm text-white/70">
+              <button
+                onClick={togglePlayback}
+                className={`rounded-lg px-4 py-2 font-semibold transition-all ${
+                  isPlaying
+                    ? 'bg-sonic-speed/30 text-sonic-speed'
+                    : 'bg-white/10 text-white/70 hover:bg-white/20'
+                }`}
+              >
+                {isPlaying ? 'Stop' : 'Play'}
+              </button>
+              <span className="tabular-nums">{(currentTime / 1000).toFixed(2)}s</span>
+              <span className="ml-auto">Snap</span>
+              {SNAP_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setSubdivision(option.value)}
+                  className={`rounded-lg px-3 py-1 ${
+                    subdivision === option.value
+                      ? 'bg-sonic-speed/30 text-sonic-speed'
+                      : 'bg-white/10 hover:bg-white/20'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <span>Zoom</span>
+              <select
+                value={viewDuration}
+                onChange={(e) => setViewDuration(parseInt(e.target.value, 10))}
+                className="rounded-lg bg-white/10 px-2 py-1 text-white"
+              >
+                {ZOOM_LEVELS.map((level) => (
+                  <option key={level} value={level} className="bg-background">
+                    {level / 1000}s
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <ChartTimeline
+              notes={notes}
+              bpm={bpm}
+              offset={offset}
+              subdivision={subdivision}
+              peaks={peaks}
+              peaksPerSecond={PEAKS_PER_SECOND}
+              viewStart={viewStart}
+              viewDuration={viewDuration}
+              currentTime={currentTime}
+              selectedId={selectedId}
+              layout={LANE_LAYOUTS[layoutId]}
+              onAddNote={handleAddNote}
+              onMoveNote={handleMoveNote}
+              onResizeNote={handleResizeNote}
+              onSelectNote={setSelectedId}
+              onDeleteNote={handleDeleteNote}
+              onSeek={handleSeek}
+              onScroll={(start) => setViewStart(Math.min(start, viewEndMax))}
+            />
+
+            <input
+              type="range"
+              min={0}
+              max={Math.max(0, viewEndMax - viewDuration)}
+              step={10}
+              value={Math.min(viewStart, Math.max(0, viewEndMax - viewDuration))}
+              onChange={(e) => setViewStart(parseFloat(e.target.value))}
+              className="h-2 w-full cursor-pointer appearance-none rounded-lg bg-white/20"
+            />
+
+            <p className="text-xs text-white/40">
+              Click a lane to add a note, drag to move it, shift-drag to make it a hold
+              note, right-click or press Delete to remove it. Click the waveform to move the cursor, Space to play/stop.
+              {' '}{notes.length} notes.
+            </p>
+          </div>
+        </div>
+
+        {/* Right: live preview with the game renderer */}
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-sm text-white/50">Preview</span>
+          <GameCanvas
+            arrows={previewArrows}
+            layout={LANE_LAYOUTS[layoutId]}
+            width={240}
+            height={400}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
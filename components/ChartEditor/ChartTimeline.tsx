@@ -0,0 +1,357 @@
+'use client';
+
+import { useEffect, useRef, useCallback } from 'react';
+import type { ChartNote, LaneIndex } from '@/lib/types';
+import { snapToBeatGrid } from '@/lib/chart';
+import { DEFAULT_LANE_LAYOUT, getLaneLabel, type LaneLayout } from '@/lib/laneLayouts';
+import { LANE_COLORS } from '@/components/DanceGame/GameCanvas';
+
+// Chart note with a stable identity while editing
+export interface EditorNote extends ChartNote {
+  id: number;
+}
+
+interface ChartTimelineProps {
+  /** Notes being edited */
+  notes: EditorNote[];
+  /** Chart tempo */
+  bpm: number;
+  /** Audio time (ms) of chart time 0 */
+  offset: number;
+  /** Grid subdivisions per beat used for snapping */
+  subdivision: number;
+  /** Waveform peaks (0-1) */
+  peaks: Float32Array | null;
+  /** Waveform peaks per second of audio */
+  peaksPerSecond: number;
+  /** Audio time (ms) at the left edge of the view */
+  viewStart: number;
+  /** Visible duration (ms) */
+  viewDuration: number;
+  /** Playback cursor (audio time, ms) */
+  currentTime: number;
+  /** Currently selected note */
+  selectedId: number | null;
+  /** Lane layout of the chart (one row per lane) */
+  layout?: LaneLayout;
+  /** Add a note at a chart time */
+  onAddNote: (time: number, lane: LaneIndex) => void;
+  /** Move a note to a chart time and lane */
+  onMoveNote: (id: number, time: number, lane: LaneIndex) => void;
+  /** Set a note's hold length (0 makes it a tap note) */
+  onResizeNote: (id: number, duration: number) => void;
+  /** Select a note (null clears the selection) */
+  onSelectNote: (id: number | null) => void;
+  /** Delete a note */
+  onDeleteNote: (id: number) => void;
+  /** Move the playback cursor (audio time, ms) */
+  onSeek: (time: number) => void;
+  /** Scroll the view (new viewStart, ms) */
+  onScroll: (viewStart: number) => void;
+  /** Width of the timeline */
+  width?: number;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// Timeline layout
+const WAVEFORM_HEIGHT = 80;
+const LANE_ROW_HEIGHT = 44;
+const NOTE_RADIUS = 10;
+const LABEL_WIDTH = 90;
+
+/**
+ * ChartTimeline - Waveform, beat grid and lane rows for placing notes
+ *
+ * Click a lane to add a note, drag a note to move it, shift-drag a note to
+ * set its hold length, right-click a note to delete it. Click the waveform to
+ * move the playback cursor.
+ */
+export function ChartTimeline({
+  notes,
+  bpm,
+  offset,
+  subdivision,
+  peaks,
+  peaksPerSecond,
+  viewStart,
+  viewDuration,
+  currentTime,
+  selectedId,
+  layout = DEFAULT_LANE_LAYOUT,
+  onAddNote,
+  onMoveNote,
+  onResizeNote,
+  onSelectNote,
+  onDeleteNote,
+  onSeek,
+  onScroll,
+  width = 900,
+  className = '',
+}: ChartTimelineProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragNoteIdRef = useRef<number | null>(null);
+  const dragModeRef = useRef<'move' | 'resize'>('move');
+
+  const laneCount = layout.lanes.length;
+  const height = WAVEFORM_HEIGHT + laneCount * LANE_ROW_HEIGHT;
+  const trackWidth = width - LABEL_WIDTH;
+
+  // Coordinate conversions (x is relative to the canvas)
+  const timeToX = useCallback(
+    (time: number) => LABEL_WIDTH + ((time - viewStart) / viewDuration) * trackWidth,
+    [viewStart, viewDuration, trackWidth]
+  );
+
+  const xToTime = useCallback(
+    (x: number) => viewStart + ((x - LABEL_WIDTH) / trackWidth) * viewDuration,
+    [viewStart, viewDuration, trackWidth]
+  );
+
+  const yToLane = (y: number): LaneIndex | null => {
+    const row = Math.floor((y - WAVEFORM_HEIGHT) / LANE_ROW_HEIGHT);
+    return row >= 0 && row < laneCount ? row : null;
+  };
+
+  const laneCenterY = (lane: number) =>
+    WAVEFORM_HEIGHT + lane * LANE_ROW_HEIGHT + LANE_ROW_HEIGHT / 2;
+
+  // Snap an audio time to the beat grid, returning chart time
+  const snapAudioTime = useCallback(
+    (audioTime: number) => snapToBeatGrid(audioTime - offset, bpm, subdivision),
+    [offset, bpm, subdivision]
+  );
+
+  const findNoteAt = (x: number, y: number): EditorNote | null => {
+    const lane = yToLane(y);
+    if (lane === null) return null;
+
+    return (
+      notes.find(
+        (note) =>
+          note.lane === lane && Math.abs(timeToX(note.time + offset) - x) <= NOTE_RADIUS + 2
+      ) ?? null
+    );
+  };
+
+  const getCanvasPoint = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  // Draw timeline
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Waveform
+    ctx.fillStyle = 'rgba(0, 217, 255, 0.5)';
+    if (peaks) {
+      const midY = WAVEFORM_HEIGHT / 2;
+      for (let x = LABEL_WIDTH; x < width; x++) {
+        const index = Math.floor((xToTime(x) / 1000) * peaksPerSecond);
+        const peak = peaks[index];
+        if (peak === undefined) continue;
+        const barHeight = Math.max(1, peak * (WAVEFORM_HEIGHT - 8));
+        ctx.fillRect(x, midY - barHeight / 2, 1, barHeight);
+      }
+    } else {
+      ctx.font = '12px sans-serif';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+      ctx.fillText('Load a song to see its waveform', LABEL_WIDTH + 12, WAVEFORM_HEIGHT / 2 + 4);
+    }
+
+    // Lane rows
+    for (let lane = 0; lane < laneCount; lane++) {
+      const colors = LANE_COLORS[layout.lanes[lane].color];
+      const rowY = WAVEFORM_HEIGHT + lane * LANE_ROW_HEIGHT;
+
+      ctx.fillStyle = colors.lane;
+      ctx.fillRect(0, rowY, width, LANE_ROW_HEIGHT);
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, rowY);
+      ctx.lineTo(width, rowY);
+      ctx.stroke();
+
+      ctx.font = '12px sans-serif';
+      ctx.fillStyle = colors.arrow;
+      ctx.fillText(getLaneLabel(lane, layout), 8, rowY + LANE_ROW_HEIGHT / 2 + 4);
+    }
+
+    // Beat grid (subdivisions, beats, and bars of 4 beats)
+    const step = 60000 / bpm / subdivision;
+    const firstStep = Math.max(0, Math.ceil((viewStart - offset) / step));
+    const lastStep = Math.floor((viewStart + viewDuration - offset) / step);
+
+    for (let k = firstStep; k <= lastStep; k++) {
+      const x = timeToX(offset + k * step);
+      const isBeat = k % subdivision === 0;
+      const isBar = k % (subdivision * 4) === 0;
+
+      ctx.strokeStyle = isBar
+        ? 'rgba(255, 255, 255, 0.45)'
+        : isBeat
+          ? 'rgba(255, 255, 255, 0.2)'
+          : 'rgba(255, 255, 255, 0.07)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, isBar ? 0 : WAVEFORM_HEIGHT);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+
+    // Notes (hold notes with a bar to their end)
+    for (const note of notes) {
+      const x = timeToX(note.time + offset);
+      const endX = timeToX(note.time + offset + (note.duration ?? 0));
+      if (endX < LABEL_WIDTH - NOTE_RADIUS || x > width + NOTE_RADIUS) continue;
+
+      const colors = LANE_COLORS[layout.lanes[note.lane].color];
+      if (note.duration) {
+        ctx.fillStyle = colors.glow;
+        ctx.globalAlpha = 0.5;
+        ctx.fillRect(x, laneCenterY(note.lane) - NOTE_RADIUS / 2, endX - x, NOTE_RADIUS);
+        ctx.globalAlpha = 1;
+      }
+
+      ctx.save();
+      ctx.shadowBlur = note.id === selectedId ? 16 : 8;
+      ctx.shadowColor = colors.glow;
+      ctx.fillStyle = colors.arrow;
+      ctx.beginPath();
+      ctx.arc(x, laneCenterY(note.lane), NOTE_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+      if (note.id === selectedId) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    // Playback cursor
+    const cursorX = timeToX(currentTime);
+    if (cursorX >= LABEL_WIDTH && cursorX <= width) {
+      ctx.strokeStyle = '#ff4444';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(cursorX, 0);
+      ctx.lineTo(cursorX, height);
+      ctx.stroke();
+    }
+  }, [
+    notes,
+    bpm,
+    offset,
+    subdivision,
+    peaks,
+    peaksPerSecond,
+    viewStart,
+    viewDuration,
+    currentTime,
+    selectedId,
+    layout,
+    laneCount,
+    width,
+    height,
+    timeToX,
+    xToTime,
+  ]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+
+    const { x, y } = getCanvasPoint(e);
+    if (x < LABEL_WIDTH) return;
+
+    // Waveform area: move the playback cursor
+    if (y < WAVEFORM_HEIGHT) {
+      onSeek(Math.max(0, xToTime(x)));
+      return;
+    }
+
+    const existing = findNoteAt(x, y);
+    if (existing) {
+      onSelectNote(existing.id);
+      dragNoteIdRef.current = existing.id;
+      dragModeRef.current = e.shiftKey ? 'resize' : 'move';
+      e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    const lane = yToLane(y);
+    if (lane !== null) {
+      onAddNote(snapAudioTime(xToTime(x)), lane);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const dragId = dragNoteIdRef.current;
+    if (dragId === null) return;
+
+    const { x, y } = getCanvasPoint(e);
+
+    if (dragModeRef.current === 'resize') {
+      const note = notes.find((n) => n.id === dragId);
+      if (note) {
+        onResizeNote(dragId, Math.max(0, snapAudioTime(xToTime(x)) - note.time));
+      }
+      return;
+    }
+
+    const lane = yToLane(Math.min(Math.max(y, WAVEFORM_HEIGHT), height - 1));
+    if (lane !== null) {
+      onMoveNote(dragId, snapAudioTime(xToTime(x)), lane);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragNoteIdRef.current !== null) {
+      dragNoteIdRef.current = null;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const { x, y } = getCanvasPoint(e);
+    const existing = findNoteAt(x, y);
+    if (existing) {
+      onDeleteNote(existing.id);
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+    onScroll(Math.max(0, viewStart + (delta / trackWidth) * viewDuration));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className={`w-full cursor-crosshair rounded-lg ${className}`}
+      style={{
+        background: 'linear-gradient(180deg, rgba(10, 22, 40, 0.9) 0%, rgba(13, 27, 42, 0.95) 100%)',
+        border: '1px solid rgba(0, 217, 255, 0.2)',
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onContextMenu={handleContextMenu}
+      onWheel={handleWheel}
+    />
+  );
+}
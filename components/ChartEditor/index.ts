@@ -0,0 +1,2 @@
+export { ChartEditor } from './ChartEditor';
+export { ChartTimeline } from './ChartTimeline';
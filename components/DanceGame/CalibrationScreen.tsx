@@ -2,113 +2,155 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { PoseDetector } from './PoseDetector';
+import type { LandmarkFilterOptions } from '@/lib/landmarkFilter';
+import type { PosePlayback } from '@/lib/poseRecording';
+import {
+  CALIBRATION_GUIDANCE,
+  calibrationFits,
+  checkCalibrationPose,
+  derivePersonalGestureOptions,
+  measureJumps,
+  measureWaves,
+  validateCalibration,
+  type CalibrationIssue,
+  type CalibrationMoves,
+} from '@/lib/calibration';
 import type {
-  PoseResult,
   CalibrationData,
+  PoseResult,
   CameraState,
   MediaPipeState,
   OnCalibrationComplete,
 } from '@/lib/types';
-import { POSE_LANDMARKS } from '@/lib/types';
 
 interface CalibrationScreenProps {
   onCalibrationComplete: OnCalibrationComplete;
   onCancel?: () => void;
+  /** Recorded session to play instead of the camera */
+  posePlayback?: PosePlayback | null;
+  /** Called with every live pose frame (e.g. to record the session) */
+  recordPose?: (pose: PoseResult | null) => void;
+  /** Landmark smoothing (see PoseDetector) */
+  filter?: LandmarkFilterOptions;
+  /** Draw the unfiltered skeleton too (see PoseDetector) */
+  showRawSkeleton?: boolean;
+  /** Player's saved calibration, reused if it still fits the camera view */
+  storedCalibration?: CalibrationData | null;
 }
 
-type CalibrationStep = 'waiting-camera' | 'waiting-pose' | 'countdown' | 'capturing' | 'complete';
+type CalibrationStep =
+  | 'waiting-camera'
+  | 'waiting-pose'
+  | 'checking'
+  | 'countdown'
+  | 'capturing'
+  | 'waves'
+  | 'jumps'
+  | 'complete';
 
 const COUNTDOWN_SECONDS = 3;
 const CAPTURE_FRAMES = 15; // Number of frames to average for calibration
-
-// Calculate average calibration from captured poses - defined outside component
-function calculateCalibration(poses: PoseResult[]): CalibrationData {
-  const averageLandmark = (landmarkIndex: number) => {
-    let sumX = 0,
-      sumY = 0,
-      sumZ = 0,
-      sumVis = 0;
-    let count = 0;
-
-    for (const pose of poses) {
-      const lm = pose.landmarks[landmarkIndex];
-      if (lm && (lm.visibility ?? 0) > 0.5) {
-        sumX += lm.x;
-        sumY += lm.y;
-        sumZ += lm.z;
-        sumVis += lm.visibility ?? 1;
-        count++;
-      }
-    }
-
-    if (count === 0) {
-      return { x: 0.5, y: 0.5, z: 0, visibility: 0 };
-    }
-
-    return {
-      x: sumX / count,
-      y: sumY / count,
-      z: sumZ / count,
-      visibility: sumVis / count,
-    };
-  };
-
-  const leftHip = averageLandmark(POSE_LANDMARKS.LEFT_HIP);
-  const rightHip = averageLandmark(POSE_LANDMARKS.RIGHT_HIP);
-  const leftShoulder = averageLandmark(POSE_LANDMARKS.LEFT_SHOULDER);
-  const rightShoulder = averageLandmark(POSE_LANDMARKS.RIGHT_SHOULDER);
-  const nose = averageLandmark(POSE_LANDMARKS.NOSE);
-  const leftWrist = averageLandmark(POSE_LANDMARKS.LEFT_WRIST);
-  const rightWrist = averageLandmark(POSE_LANDMARKS.RIGHT_WRIST);
-
-  return {
-    leftHip,
-    rightHip,
-    leftShoulder,
-    rightShoulder,
-    nose,
-    leftWrist,
-    rightWrist,
-    hipCenterY: (leftHip.y + rightHip.y) / 2,
-    shoulderCenterY: (leftShoulder.y + rightShoulder.y) / 2,
-    timestamp: Date.now(),
-  };
-}
-
-export function CalibrationScreen({ onCalibrationComplete, onCancel }: CalibrationScreenProps) {
+const MOVE_STAGE_DURATION = 5000; // ms of waving, then of jumping, to measure
+const CHECK_DURATION = 3000; // ms to find a saved calibration fitting before calibrating again
+
+export function CalibrationScreen({
+  onCalibrationComplete,
+  onCancel,
+  posePlayback = null,
+  recordPose,
+  filter,
+  showRawSkeleton,
+  storedCalibration = null,
+}: CalibrationScreenProps) {
   const [step, setStep] = useState<CalibrationStep>('waiting-camera');
   const [cameraState, setCameraState] = useState<CameraState>('idle');
   const [mediaPipeState, setMediaPipeState] = useState<MediaPipeState>('loading');
   const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
   const [poseDetected, setPoseDetected] = useState(false);
   const [captureProgress, setCaptureProgress] = useState(0);
+  // What the player should fix now, and why the last capture was refused
+  const [guidance, setGuidance] = useState<CalibrationIssue | null>(null);
+  const [refusal, setRefusal] = useState<CalibrationIssue | null>(null);
+  // Saved calibration: not checked yet, reused, not fitting any more, or passed over
+  const [storedFit, setStoredFit] = useState<'unchecked' | 'fits' | 'mismatch' | 'declined'>(
+    'unchecked'
+  );
 
   const capturedPosesRef = useRef<PoseResult[]>([]);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Move stage: baseline from the standing capture, moves measured so far
+  const baselineRef = useRef<CalibrationData | null>(null);
+  const movesRef = useRef<CalibrationMoves>({ waves: [], jumps: [] });
+  const moveStartRef = useRef<number | null>(null);
+
+  // Finish with personal thresholds from whatever moves were measured
+  const completeCalibration = useCallback(() => {
+    const baseline = baselineRef.current;
+    if (!baseline) return;
+
+    setStep('complete');
+    onCalibrationComplete({
+      ...baseline,
+      gestureOptions: derivePersonalGestureOptions(movesRef.current, baseline),
+    });
+  }, [onCalibrationComplete]);
+
+  const startCountdown = useCallback(() => {
+    setStep('countdown');
+    setCountdown(COUNTDOWN_SECONDS);
+  }, []);
+
+  const startMoveStage = useCallback((stage: 'waves' | 'jumps') => {
+    setStep(stage);
+    capturedPosesRef.current = [];
+    moveStartRef.current = null;
+    setCaptureProgress(0);
+  }, []);
+
   // Handle pose updates
   const handlePoseUpdate = useCallback(
     (pose: PoseResult | null) => {
       const hasPose = pose !== null && pose.landmarks.length >= 33;
       setPoseDetected(hasPose);
 
-      // Check if we have all required landmarks with good visibility
+      // Check every landmark calibration needs is visible, and the framing
+      const issue = checkCalibrationPose(hasPose ? pose.landmarks : null)[0] ?? null;
+      setGuidance(issue);
+
       if (hasPose) {
-        const leftHip = pose.landmarks[POSE_LANDMARKS.LEFT_HIP];
-        const rightHip = pose.landmarks[POSE_LANDMARKS.RIGHT_HIP];
-        const leftShoulder = pose.landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-        const rightShoulder = pose.landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-
-        const hasKeyLandmarks =
-          (leftHip?.visibility ?? 0) > 0.5 &&
-          (rightHip?.visibility ?? 0) > 0.5 &&
-          (leftShoulder?.visibility ?? 0) > 0.5 &&
-          (rightShoulder?.visibility ?? 0) > 0.5;
-
-        if (hasKeyLandmarks && step === 'waiting-pose') {
-          // Start countdown when pose is detected
-          setStep('countdown');
-          setCountdown(COUNTDOWN_SECONDS);
+        if (issue === null && step === 'waiting-pose') {
+          if (storedCalibration && storedFit === 'unchecked') {
+            // Check the saved calibration against where the player stands
+            setStep('checking');
+            capturedPosesRef.current = [];
+            moveStartRef.current = null;
+            setCaptureProgress(0);
+          } else {
+            // Start countdown when pose is detected
+            startCountdown();
+          }
+        }
+
+        // Reuse the saved calibration once the latest frames fit it
+        if (step === 'checking' && storedCalibration) {
+          moveStartRef.current ??= pose.timestamp;
+          capturedPosesRef.current = [...capturedPosesRef.current, pose].slice(-CAPTURE_FRAMES);
+          const elapsed = pose.timestamp - moveStartRef.current;
+          setCaptureProgress(Math.min(1, elapsed / CHECK_DURATION));
+
+          const current =
+            capturedPosesRef.current.length >= CAPTURE_FRAMES
+              ? validateCalibration(capturedPosesRef.current)
+              : null;
+          if (current?.valid && calibrationFits(storedCalibration, current.calibration)) {
+            setStoredFit('fits');
+            setStep('complete');
+            onCalibrationComplete(storedCalibration);
+          } else if (elapsed >= CHECK_DURATION) {
+            setStoredFit('mismatch');
+            startCountdown();
+          }
         }
 
         // Capture frames during capturing step
@@ -117,14 +159,44 @@ export function CalibrationScreen({ onCalibrationComplete, onCancel }: Calibrati
           setCaptureProgress(capturedPosesRef.current.length / CAPTURE_FRAMES);
 
           if (capturedPosesRef.current.length >= CAPTURE_FRAMES) {
-            // Calculate average calibration data
-            const calibrationData = calculateCalibration(capturedPosesRef.current);
-            setStep('complete');
-            onCalibrationComplete(calibrationData);
+            // Average into a baseline, then measure moves (or start over if it's a bad one)
+            const result = validateCalibration(capturedPosesRef.current);
+            if (result.valid) {
+              baselineRef.current = result.calibration;
+              movesRef.current = { waves: [], jumps: [] };
+              setRefusal(null);
+              startMoveStage('waves');
+            } else {
+              setRefusal(result.issues[0]);
+              setStep('waiting-pose');
+            }
+          }
+        }
+
+        // Capture moves for a fixed time during the move stages
+        if ((step === 'waves' || step === 'jumps') && baselineRef.current) {
+          moveStartRef.current ??= pose.timestamp;
+          capturedPosesRef.current.push(pose);
+          const elapsed = pose.timestamp - moveStartRef.current;
+          setCaptureProgress(Math.min(1, elapsed / MOVE_STAGE_DURATION));
+
+          if (elapsed >= MOVE_STAGE_DURATION) {
+            if (step === 'waves') {
+              movesRef.current.waves = measureWaves(capturedPosesRef.current);
+              startMoveStage('jumps');
+            } else {
+              movesRef.current.jumps = measureJumps(
+                capturedPosesRef.current,
+                baselineRef.current
+              );
+              completeCalibration();
+            }
           }
         }
-      } else if (step === 'countdown') {
-        // Lost pose during countdown, reset
+      }
+
+      if (issue !== null && step === 'countdown') {
+        // Lost the pose or the position during countdown, reset
         setStep('waiting-pose');
         setCountdown(COUNTDOWN_SECONDS);
         if (countdownIntervalRef.current) {
@@ -133,7 +205,15 @@ export function CalibrationScreen({ onCalibrationComplete, onCancel }: Calibrati
         }
       }
     },
-    [step, onCalibrationComplete]
+    [
+      step,
+      storedCalibration,
+      storedFit,
+      startCountdown,
+      startMoveStage,
+      completeCalibration,
+      onCalibrationComplete,
+    ]
   );
 
   // Handle camera state changes
@@ -192,23 +272,69 @@ export function CalibrationScreen({ onCalibrationComplete, onCancel }: Calibrati
           <div className="text-center">
             <h2 className="mb-2 text-2xl font-bold text-white">Stand In Frame</h2>
             <p className="text-white/70">
-              Position yourself so your full upper body is visible
+              Stand back so your whole body, head to feet, is visible
             </p>
+            {refusal && (
+              <p className="mt-2 text-sm text-sonic-accent">
+                That didn&apos;t work: {CALIBRATION_GUIDANCE[refusal]}
+              </p>
+            )}
             <div className="mt-4 flex justify-center gap-2">
-              <div className={`h-3 w-3 rounded-full ${poseDetected ? 'bg-sonic-speed' : 'bg-white/30'}`} />
+              <div
+                className={`h-3 w-3 rounded-full ${
+                  guidance === null ? 'bg-sonic-speed' : poseDetected ? 'bg-sonic-accent' : 'bg-white/30'
+                }`}
+              />
               <span className="text-sm text-white/50">
-                {poseDetected ? 'Pose detected!' : 'Waiting for pose...'}
+                {guidance === null
+                  ? 'Looking good!'
+                  : poseDetected
+                    ? CALIBRATION_GUIDANCE[guidance]
+                    : 'Waiting for pose...'}
               </span>
             </div>
           </div>
         );
 
+      case 'checking':
+        return (
+          <div className="text-center">
+            <h2 className="mb-2 text-2xl font-bold text-white">Welcome Back!</h2>
+            <p className="mb-4 text-white/70">
+              Stand where you usually play while we check your saved calibration
+            </p>
+            {guidance && (
+              <p className="mb-4 text-sm text-sonic-accent">{CALIBRATION_GUIDANCE[guidance]}</p>
+            )}
+            <div className="mx-auto h-2 w-48 overflow-hidden rounded-full bg-white/20">
+              <div
+                className="h-full bg-sonic-speed transition-all duration-100"
+                style={{ width: `${captureProgress * 100}%` }}
+              />
+            </div>
+            <button
+              onClick={() => {
+                setStoredFit('declined');
+                startCountdown();
+              }}
+              className="mt-4 text-sm text-white/50 underline transition-all hover:text-white"
+            >
+              Calibrate Again
+            </button>
+          </div>
+        );
+
       case 'countdown':
         return (
           <div className="text-center">
             <h2 className="mb-2 text-2xl font-bold text-white">Hold Still!</h2>
             <div className="neon-text text-8xl font-bold">{countdown}</div>
             <p className="mt-4 text-white/70">Stay in position...</p>
+            {storedFit === 'mismatch' && (
+              <p className="mt-2 text-sm text-sonic-accent">
+                Your saved calibration doesn&apos;t fit this camera view, so let&apos;s redo it
+              </p>
+            )}
           </div>
         );
 
@@ -226,10 +352,39 @@ export function CalibrationScreen({ onCalibrationComplete, onCancel }: Calibrati
           </div>
         );
 
+      case 'waves':
+      case 'jumps':
+        return (
+          <div className="text-center">
+            <h2 className="mb-2 text-2xl font-bold text-white">
+              {step === 'waves' ? 'Wave a Few Times!' : 'Now Jump a Few Times!'}
+            </h2>
+            <p className="mb-4 text-white/70">
+              {step === 'waves'
+                ? 'Wave one hand up and down the way you will in the game'
+                : 'Jump on the spot, as high as you comfortably can'}
+            </p>
+            <div className="mx-auto h-2 w-48 overflow-hidden rounded-full bg-white/20">
+              <div
+                className="h-full bg-sonic-accent transition-all duration-100"
+                style={{ width: `${captureProgress * 100}%` }}
+              />
+            </div>
+            <button
+              onClick={completeCalibration}
+              className="mt-4 text-sm text-white/50 underline transition-all hover:text-white"
+            >
+              Skip
+            </button>
+          </div>
+        );
+
       case 'complete':
         return (
           <div className="text-center">
-            <h2 className="mb-2 text-2xl font-bold text-sonic-speed">Calibration Complete!</h2>
+            <h2 className="mb-2 text-2xl font-bold text-sonic-speed">
+              {storedFit === 'fits' ? 'Saved Calibration Fits!' : 'Calibration Complete!'}
+            </h2>
             <p className="text-white/70">Starting game...</p>
           </div>
         );
@@ -249,6 +404,10 @@ export function CalibrationScreen({ onCalibrationComplete, onCancel }: Calibrati
         <div className="glass-card overflow-hidden rounded-2xl p-2">
           <PoseDetector
             onPoseUpdate={handlePoseUpdate}
+            playback={posePlayback}
+            recordPose={recordPose}
+            filter={filter}
+            showRawSkeleton={showRawSkeleton}
             onCameraStateChange={handleCameraStateChange}
             onMediaPipeStateChange={handleMediaPipeStateChange}
             showSkeleton={true}
@@ -4,32 +4,103 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { CalibrationScreen } from './CalibrationScreen';
 import { PoseDetector } from './PoseDetector';
 import { GameCanvas } from './GameCanvas';
+import { PoseSilhouette } from './PoseSilhouette';
 import { ScoreDisplay, ScoreOverlay } from './ScoreDisplay';
 import { GameOverModal } from './GameOverModal';
+import { SongSelectScreen, type SongSelection } from './SongSelectScreen';
+import { ProfileSelectScreen } from './ProfileSelectScreen';
+import { PoseSessionControls } from './PoseSessionControls';
 import { useGestureDetection } from '@/hooks/useGestureDetection';
 import { useGameEngine } from '@/hooks/useGameEngine';
+import { usePoseSession } from '@/hooks/usePoseSession';
 import { useBackgroundMusic } from '@/hooks/useBackgroundMusic';
 import { useSoundEffects } from '@/hooks/useSoundEffects';
+import { useChartGenerator } from '@/hooks/useChartGenerator';
+import { useSongLibrary } from '@/hooks/useSongLibrary';
+import { usePlayerProfiles } from '@/hooks/usePlayerProfiles';
+import { createGameClock } from '@/lib/gameClock';
+import { loadSongChart } from '@/lib/songLibrary';
+import { GAME_TIMING } from '@/lib/gameConstants';
+import { getGestureLabel } from '@/lib/gestureDetection';
+import {
+  LANE_LAYOUTS,
+  LANE_LAYOUT_IDS,
+  DEFAULT_LANE_LAYOUT,
+  getLaneGestures,
+  getLaneLayout,
+  type LaneColor,
+} from '@/lib/laneLayouts';
+import { getPoseTarget } from '@/lib/poseTargets';
+import { addPlayRecord, createPlayerProfile, type PlayerProfile } from '@/lib/playerProfiles';
+import {
+  DEFAULT_LANDMARK_FILTER_OPTIONS,
+  type LandmarkFilterOptions,
+} from '@/lib/landmarkFilter';
 import type {
   CalibrationData,
   PoseResult,
   DifficultyLevel,
   GestureEvent,
   HitRating,
+  HitTiming,
+  JudgementWindows,
+  Chart,
+  GameStats,
+  GameMode,
+  LaneLayoutId,
 } from '@/lib/types';
 
-type GamePhase = 'calibration' | 'ready' | 'playing' | 'paused' | 'ended';
+type GamePhase =
+  | 'profile-select'
+  | 'calibration'
+  | 'ready'
+  | 'song-select'
+  | 'playing'
+  | 'paused'
+  | 'ended';
+
+// Music looped through freestyle sessions (songs play their own audio)
+const FREESTYLE_MUSIC = '/sounds/game-music.mp3';
+
+// Game modes offered on the ready screen
+const GAME_MODES: { mode: GameMode; label: string }[] = [
+  { mode: 'dance', label: 'Dance' },
+  { mode: 'pose', label: 'Strike a Pose' },
+];
+
+// How-to-play text colour and name of each lane colour
+const LANE_COLOR_TEXT: Record<LaneColor, { className: string; name: string }> = {
+  cyan: { className: 'text-sonic-speed', name: 'cyan' },
+  blue: { className: 'text-sonic-blue', name: 'blue' },
+  gold: { className: 'text-sonic-accent', name: 'gold' },
+  magenta: { className: 'text-pink-400', name: 'pink' },
+  green: { className: 'text-green-400', name: 'green' },
+  orange: { className: 'text-orange-400', name: 'orange' },
+};
 
 interface HitFeedback {
   id: string;
   lane: number;
   rating: HitRating;
+  timing?: HitTiming;
   timestamp: number;
 }
 
 interface DanceGameProps {
   /** Initial difficulty level */
   initialDifficulty?: DifficultyLevel;
+  /** Initial custom chart to play (freestyle random arrows when omitted) */
+  chart?: Chart | null;
+  /** Initial game mode */
+  initialMode?: GameMode;
+  /** Initial lane layout for freestyle sessions and generated charts */
+  initialLayout?: LaneLayoutId;
+  /** Freestyle session length in ms */
+  freestyleTimeLimit?: number;
+  /** Judgement window overrides in ms (perfect/great/good/miss) */
+  judgementWindows?: Partial<JudgementWindows>;
+  /** Show controls for recording pose sessions and replaying them without a camera */
+  showPoseSessionControls?: boolean;
   /** Callback when returning to menu */
   onBackToMenu?: () => void;
   /** Additional CSS classes */
@@ -40,41 +111,133 @@ interface DanceGameProps {
  * DanceGame - Main orchestrator component
  *
  * Manages game flow:
- * 1. Calibration phase
- * 2. Ready/difficulty selection phase
- * 3. Playing phase with gesture detection
- * 4. Game over with stats display
+ * 1. Player profile selection
+ * 2. Calibration phase (skipped when the player's saved calibration fits)
+ * 3. Ready/difficulty selection phase
+ * 4. Song selection phase
+ * 5. Playing phase with gesture detection
+ * 6. Game over with stats display
  */
 export function DanceGame({
   initialDifficulty = 'easy',
+  chart = null,
+  initialMode = 'dance',
+  initialLayout = DEFAULT_LANE_LAYOUT.id,
+  freestyleTimeLimit = GAME_TIMING.FREESTYLE_TIME_LIMIT,
+  judgementWindows,
+  showPoseSessionControls = false,
   onBackToMenu,
   className = '',
 }: DanceGameProps) {
   // Game phase state
-  const [phase, setPhase] = useState<GamePhase>('calibration');
+  const [phase, setPhase] = useState<GamePhase>('profile-select');
+  const [profileId, setProfileId] = useState<string | null>(null);
   const [calibration, setCalibration] = useState<CalibrationData | null>(null);
   const [difficulty, setDifficulty] = useState<DifficultyLevel>(initialDifficulty);
+  const [gameMode, setGameMode] = useState<GameMode>(initialMode);
+  const [layoutId, setLayoutId] = useState<LaneLayoutId>(initialLayout);
+  const [poseMatch, setPoseMatch] = useState<number | null>(null);
   const [hitFeedback, setHitFeedback] = useState<HitFeedback[]>([]);
+  const [activeChart, setActiveChart] = useState<Chart | null>(chart);
+  const [customChart, setCustomChart] = useState<Chart | null>(chart);
+  const [songSelection, setSongSelection] = useState<SongSelection>(
+    chart ? { kind: 'custom' } : { kind: 'freestyle' }
+  );
+  const [isLoadingChart, setIsLoadingChart] = useState(false);
+  const [chartLoadError, setChartLoadError] = useState<string | null>(null);
+  const [isNewBest, setIsNewBest] = useState(false);
+  const [landmarkFilter, setLandmarkFilter] = useState<LandmarkFilterOptions>(
+    DEFAULT_LANDMARK_FILTER_OPTIONS
+  );
+  const [showRawSkeleton, setShowRawSkeleton] = useState(false);
 
   // Refs for feedback tracking and gesture control
   const hitFeedbackIdRef = useRef(0);
   const gestureDisableRef = useRef<(() => void) | null>(null);
+  const songObjectUrlRef = useRef<string | null>(null);
+  const chartLoadIdRef = useRef(0);
+
+  // Charts are played in the layout they were written for; poses use the center lane
+  const laneLayout =
+    gameMode === 'pose'
+      ? DEFAULT_LANE_LAYOUT
+      : activeChart
+        ? getLaneLayout(activeChart.layout)
+        : LANE_LAYOUTS[layoutId];
+
+  // Shared clock: the music drives it, the game engine reads it
+  const [clock] = useState(createGameClock);
+
+  // Pose session recording and camera-free replay
+  const {
+    isRecording: isRecordingPoses,
+    startRecording: startPoseRecording,
+    stopRecording: stopPoseRecording,
+    recordPose,
+    playback: posePlayback,
+    loadRecording: loadPoseRecording,
+    stopPlayback: stopPosePlayback,
+    error: poseSessionError,
+  } = usePoseSession();
 
   // Background music hook
   const {
-    isPlaying: isMusicPlaying,
-    toggle: toggleMusic,
-    play: playMusic,
     pause: pauseMusic,
     setVolume,
     volume,
-    isReady: isMusicReady,
+    muted: isMusicMuted,
+    toggleMute: toggleMusicMute,
+    duration: musicDuration,
   } = useBackgroundMusic({
-    src: '/sounds/game-music.mp3',
+    src: activeChart ? (activeChart.song.audio ?? '') : FREESTYLE_MUSIC,
     volume: 0.4,
-    loop: true,
+    loop: !activeChart,
+    clock,
   });
 
+  // Song library manifest and best scores
+  const {
+    songs,
+    isLoading: isLoadingSongs,
+    error: songLibraryError,
+    getBestScore,
+    recordScore,
+  } = useSongLibrary();
+
+  // Player profiles (the current player plays as a guest when none is picked)
+  const {
+    profiles,
+    isLoading: isLoadingProfiles,
+    error: profileError,
+    saveProfile,
+    deleteProfile,
+  } = usePlayerProfiles();
+  const profile = profiles.find((p) => p.id === profileId) ?? null;
+
+  // Save changes to the current player's profile
+  const updateProfile = useCallback(
+    (changes: Partial<PlayerProfile>) => {
+      if (profile) {
+        saveProfile({ ...profile, ...changes });
+      }
+    },
+    [profile, saveProfile]
+  );
+
+  // Song length ends the session: the audio's own length once known, else the manifest's
+  const selectedSong =
+    songSelection.kind === 'library'
+      ? songs.find((song) => song.id === songSelection.songId)
+      : undefined;
+  const songDuration = musicDuration || selectedSong?.duration;
+
+  // Chart generation from the player's own audio files
+  const {
+    generate: generateChart,
+    isGenerating: isGeneratingChart,
+    error: chartGenerationError,
+  } = useChartGenerator();
+
   // Sound effects hook
   const { playPerfect, playGood } = useSoundEffects(0.7);
 
@@ -86,15 +249,24 @@ export function DanceGame({
     reset: resetGame,
     setDifficulty: setGameDifficulty,
     processGesture,
+    setHeldGestures,
+    matchPose,
     comboMultiplier,
     countdown,
     finalStats,
   } = useGameEngine({
     initialDifficulty: difficulty,
+    chart: activeChart,
+    clock,
+    songDuration: activeChart ? songDuration : undefined,
+    timeLimit: activeChart ? undefined : freestyleTimeLimit,
+    judgementWindows,
+    layout: laneLayout,
+    mode: gameMode,
     onHit: (result) => {
       if (result.hit && result.arrow && result.rating) {
         // Play sound effect based on rating
-        if (result.rating === 'perfect') {
+        if (result.rating === 'perfect' || result.rating === 'great') {
           playPerfect();
         } else if (result.rating === 'good') {
           playGood();
@@ -105,6 +277,7 @@ export function DanceGame({
           id: `hit-${++hitFeedbackIdRef.current}`,
           lane: result.arrow.lane,
           rating: result.rating,
+          timing: result.timing,
           timestamp: Date.now(),
         };
         setHitFeedback((prev) => [...prev, feedback]);
@@ -121,6 +294,8 @@ export function DanceGame({
         id: `miss-${++hitFeedbackIdRef.current}`,
         lane: arrow.lane,
         rating: 'miss',
+        // Only gestures made far too early carry an offset
+        ...(arrow.hitOffset !== undefined && { timing: 'early' as const }),
         timestamp: Date.now(),
       };
       setHitFeedback((prev) => [...prev, feedback]);
@@ -130,23 +305,66 @@ export function DanceGame({
         setHitFeedback((prev) => prev.filter((f) => f.id !== feedback.id));
       }, 600);
     },
-    onGameEnd: () => {
+    onHoldEnd: (arrow) => {
+      // Completed holds get a second burst on the target
+      if (arrow.holdState !== 'completed') return;
+
+      playPerfect();
+      const feedback: HitFeedback = {
+        id: `hold-${++hitFeedbackIdRef.current}`,
+        lane: arrow.lane,
+        rating: 'perfect',
+        timestamp: Date.now(),
+      };
+      setHitFeedback((prev) => [...prev, feedback]);
+
+      setTimeout(() => {
+        setHitFeedback((prev) => prev.filter((f) => f.id !== feedback.id));
+      }, 600);
+    },
+    onGameEnd: (stats: GameStats) => {
       // Handle game end via callback (not useEffect)
+      setIsNewBest(
+        songSelection.kind === 'library' &&
+          recordScore(songSelection.songId, difficulty, stats.score)
+      );
+      if (profile) {
+        saveProfile(
+          addPlayRecord(profile, {
+            songTitle: activeChart?.song.title ?? 'Freestyle',
+            ...(songSelection.kind === 'library' && { songId: songSelection.songId }),
+            difficulty,
+            mode: gameMode,
+            score: stats.score,
+            accuracy: stats.accuracy,
+            maxCombo: stats.maxCombo,
+            playedAt: Date.now(),
+          })
+        );
+      }
       setPhase('ended');
       gestureDisableRef.current?.();
     },
   });
 
   // Gesture detection hook
-  const { processPose, currentGesture, enable: enableGestures, disable: disableGestures } =
-    useGestureDetection(calibration, {
-      onGesture: (gesture: GestureEvent) => {
-        if (phase === 'playing' && gameState.status === 'playing') {
-          processGesture(gesture);
-        }
-      },
-      enabled: phase === 'playing',
-    });
+  const {
+    processPose,
+    currentGesture,
+    baselineStatus,
+    enable: enableGestures,
+    disable: disableGestures,
+  } = useGestureDetection(calibration, {
+    // Personal thresholds from calibration (standard ones where unmeasured)
+    ...calibration?.gestureOptions,
+    onGesture: (gesture: GestureEvent) => {
+      if (phase === 'playing' && gameState.status === 'playing') {
+        processGesture(gesture);
+      }
+    },
+    onHeldChange: setHeldGestures,
+    enabled: phase === 'playing',
+  });
 
   // Store gesture disable function in ref (in effect, not during render)
   useEffect(() => {
@@ -156,43 +374,172 @@ export function DanceGame({
   // Process pose updates
   const handlePoseUpdate = useCallback(
     (pose: PoseResult | null) => {
-      if (phase === 'playing') {
-        processPose(pose);
+      if (phase !== 'playing') return;
+
+      processPose(pose);
+      if (gameMode === 'pose') {
+        // Rounded so the match meter only re-renders on visible changes
+        const match = pose ? matchPose(pose.landmarks) : null;
+        setPoseMatch(match === null ? null : Math.round(match * 100) / 100);
       }
     },
-    [phase, processPose]
+    [phase, processPose, gameMode, matchPose]
   );
 
   // Handle calibration completion
-  const handleCalibrationComplete = useCallback((data: CalibrationData) => {
-    setCalibration(data);
-    setPhase('ready');
+  const handleCalibrationComplete = useCallback(
+    (data: CalibrationData) => {
+      setCalibration(data);
+      setPhase('ready');
+      updateProfile({ calibration: data });
+    },
+    [updateProfile]
+  );
+
+  // Play as a stored player, with their settings
+  const handleProfileSelect = useCallback(
+    (selected: PlayerProfile) => {
+      setProfileId(selected.id);
+      setDifficulty(selected.difficulty);
+      setGameDifficulty(selected.difficulty);
+      setLandmarkFilter(selected.landmarkFilter);
+      setPhase('calibration');
+    },
+    [setGameDifficulty]
+  );
+
+  // Create a profile with the current settings and play as it
+  const handleProfileCreate = useCallback(
+    (name: string, color: string) => {
+      const created = { ...createPlayerProfile(name, color), difficulty, landmarkFilter };
+      saveProfile(created);
+      handleProfileSelect(created);
+    },
+    [difficulty, landmarkFilter, saveProfile, handleProfileSelect]
+  );
+
+  const handlePlayAsGuest = useCallback(() => {
+    setProfileId(null);
+    setPhase('calibration');
   }, []);
 
-  // Handle difficulty change
+  // Load a library song's chart for a difficulty (latest request wins)
+  const loadLibraryChart = useCallback(
+    async (songId: string, level: DifficultyLevel) => {
+      const song = songs.find((s) => s.id === songId);
+      if (!song) return;
+
+      const loadId = ++chartLoadIdRef.current;
+      setIsLoadingChart(true);
+      setChartLoadError(null);
+      setActiveChart(null);
+
+      try {
+        const loaded = await loadSongChart(song, level);
+        if (loadId === chartLoadIdRef.current) {
+          setActiveChart(loaded);
+        }
+      } catch (err) {
+        console.error('Failed to load song chart:', err);
+        if (loadId === chartLoadIdRef.current) {
+          setChartLoadError(err instanceof Error ? err.message : 'Failed to load chart');
+        }
+      } finally {
+        if (loadId === chartLoadIdRef.current) {
+          setIsLoadingChart(false);
+        }
+      }
+    },
+    [songs]
+  );
+
+  // Handle song selection
+  const handleSongSelect = useCallback(
+    (selection: SongSelection) => {
+      setSongSelection(selection);
+
+      if (selection.kind === 'library') {
+        loadLibraryChart(selection.songId, difficulty);
+        return;
+      }
+
+      // Cancel any pending library chart load
+      chartLoadIdRef.current++;
+      setIsLoadingChart(false);
+      setChartLoadError(null);
+      setActiveChart(selection.kind === 'custom' ? customChart : null);
+    },
+    [loadLibraryChart, difficulty, customChart]
+  );
+
+  // Handle difficulty change (library songs switch to that difficulty's chart)
   const handleDifficultyChange = useCallback(
     (newDifficulty: DifficultyLevel) => {
       setDifficulty(newDifficulty);
       setGameDifficulty(newDifficulty);
+      updateProfile({ difficulty: newDifficulty });
+
+      if (songSelection.kind === 'library') {
+        loadLibraryChart(songSelection.songId, newDifficulty);
+      }
     },
-    [setGameDifficulty]
+    [setGameDifficulty, updateProfile, songSelection, loadLibraryChart]
   );
 
-  // Start the game
-  const handleStartGame = useCallback(() => {
-    setPhase('playing');
-    enableGestures();
-    startGame();
-    // Start music when game starts
-    if (isMusicReady) {
-      playMusic();
-    }
-  }, [enableGestures, startGame, isMusicReady, playMusic]);
+  // Generate a chart from a local audio file and select it
+  const handleSongFile = useCallback(
+    async (file: File) => {
+      const audioUrl = URL.createObjectURL(file);
+      const generated = await generateChart(file, {
+        difficulty,
+        layout: layoutId,
+        audio: audioUrl,
+      });
+
+      if (!generated) {
+        URL.revokeObjectURL(audioUrl);
+        return;
+      }
+
+      if (songObjectUrlRef.current) {
+        URL.revokeObjectURL(songObjectUrlRef.current);
+      }
+      songObjectUrlRef.current = audioUrl;
+      setCustomChart(generated);
+
+      chartLoadIdRef.current++;
+      setIsLoadingChart(false);
+      setChartLoadError(null);
+      setSongSelection({ kind: 'custom' });
+      setActiveChart(generated);
+    },
+    [generateChart, difficulty, layoutId]
+  );
+
+  // Release the local song's object URL on unmount
+  useEffect(() => {
+    return () => {
+      if (songObjectUrlRef.current) {
+        URL.revokeObjectURL(songObjectUrlRef.current);
+      }
+    };
+  }, []);
+
+  // Start the game (music starts from the game clock when the countdown ends)
+  const handleStartGame = useCallback(
+    (seed?: number) => {
+      setPhase('playing');
+      setHitFeedback([]);
+      enableGestures();
+      startGame(seed);
+    },
+    [enableGestures, startGame]
+  );
 
   // Handle play again
   const handlePlayAgain = useCallback(() => {
     resetGame();
-    setPhase('ready');
+    setPhase('song-select');
     setHitFeedback([]);
     pauseMusic();
   }, [resetGame, pauseMusic]);
@@ -200,17 +547,19 @@ export function DanceGame({
   // Handle back to menu
   const handleBackToMenu = useCallback(() => {
     resetGame();
-    setPhase('calibration');
+    setPhase('profile-select');
+    setProfileId(null);
     setCalibration(null);
     setHitFeedback([]);
     pauseMusic();
     onBackToMenu?.();
   }, [resetGame, onBackToMenu, pauseMusic]);
 
-  // Handle recalibration (for switching players)
-  const handleRecalibrate = useCallback(() => {
+  // Handle switching players (or recalibrating, from the profile list)
+  const handleSwitchPlayer = useCallback(() => {
     resetGame();
-    setPhase('calibration');
+    setPhase('profile-select');
+    setProfileId(null);
     setCalibration(null);
     setHitFeedback([]);
     pauseMusic();
@@ -221,12 +570,84 @@ export function DanceGame({
     endGame();
   }, [endGame]);
 
+  // Pose session recording/replay panel (shown wherever poses are tracked)
+  const poseSessionControls = showPoseSessionControls && (
+    <PoseSessionControls
+      isRecording={isRecordingPoses}
+      onStartRecording={startPoseRecording}
+      onStopRecording={stopPoseRecording}
+      isPlayingBack={posePlayback !== null}
+      onLoadRecording={loadPoseRecording}
+      onStopPlayback={stopPosePlayback}
+      error={poseSessionError}
+      filterType={landmarkFilter.type}
+      onFilterTypeChange={(type) => {
+        const filter = { ...DEFAULT_LANDMARK_FILTER_OPTIONS, type };
+        setLandmarkFilter(filter);
+        updateProfile({ landmarkFilter: filter });
+      }}
+      showRawSkeleton={showRawSkeleton}
+      onShowRawSkeletonChange={setShowRawSkeleton}
+      className="fixed right-4 top-4 z-50"
+    />
+  );
+
+  // Render profile selection phase
+  if (phase === 'profile-select') {
+    return (
+      <ProfileSelectScreen
+        profiles={profiles}
+        isLoading={isLoadingProfiles}
+        error={profileError}
+        onSelect={handleProfileSelect}
+        onCreate={handleProfileCreate}
+        onDelete={(deleted) => deleteProfile(deleted.id)}
+        onGuest={handlePlayAsGuest}
+        onBack={onBackToMenu}
+        className={className}
+      />
+    );
+  }
+
   // Render calibration phase
   if (phase === 'calibration') {
     return (
-      <CalibrationScreen
-        onCalibrationComplete={handleCalibrationComplete}
-        onCancel={onBackToMenu}
+      <>
+        <CalibrationScreen
+          onCalibrationComplete={handleCalibrationComplete}
+          onCancel={() => setPhase('profile-select')}
+          storedCalibration={profile?.calibration}
+          posePlayback={posePlayback}
+          recordPose={recordPose}
+          filter={landmarkFilter}
+          showRawSkeleton={showRawSkeleton}
+        />
+        {poseSessionControls}
+      </>
+    );
+  }
+
+  // Render song selection phase
+  if (phase === 'song-select') {
+    return (
+      <SongSelectScreen
+        songs={songs}
+        isLoading={isLoadingSongs}
+        libraryError={songLibraryError}
+        selection={songSelection}
+        onSelect={handleSongSelect}
+        difficulty={difficulty}
+        onDifficultyChange={handleDifficultyChange}
+        getBestScore={getBestScore}
+        customChart={customChart}
+        onSongFile={handleSongFile}
+        isGeneratingChart={isGeneratingChart}
+        chartGenerationError={chartGenerationError}
+        isLoadingChart={isLoadingChart}
+        chartLoadError={chartLoadError}
+        onStart={handleStartGame}
+        onBack={() => setPhase('ready')}
+        className={className}
       />
     );
   }
@@ -236,9 +657,18 @@ export function DanceGame({
     return (
       <div className={`flex min-h-screen flex-col items-center justify-center p-4 ${className}`}>
         <div className="w-full max-w-md">
-          <h1 className="neon-text mb-8 text-center text-4xl font-bold">
+          <h1 className="neon-text mb-2 text-center text-4xl font-bold">
             Ready to Dance?
           </h1>
+          <p className="mb-8 text-center text-white/60">
+            {profile ? (
+              <>
+                Playing as <span style={{ color: profile.color }}>{profile.name}</span>
+              </>
+            ) : (
+              'Playing as a guest'
+            )}
+          </p>
 
           {/* Difficulty selection */}
           <div className="glass-card mb-8 rounded-2xl p-6">
@@ -266,67 +696,102 @@ export function DanceGame({
             </div>
           </div>
 
-          {/* Instructions */}
+          {/* Game mode selection */}
           <div className="glass-card mb-8 rounded-2xl p-6">
             <h2 className="mb-4 text-center text-lg font-semibold text-white/80">
-              How to Play
+              Select Mode
             </h2>
-            <div className="space-y-3 text-sm text-white/60">
-              <div className="flex items-center gap-3">
-                <span className="text-2xl text-sonic-speed">{"<--"}</span>
-                <span>Wave LEFT hand for cyan arrows</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <span className="text-2xl text-sonic-blue">{"^"}</span>
-                <span>JUMP for blue lightning bolts</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <span className="text-2xl text-sonic-accent">{"-->"}</span>
-                <span>Wave RIGHT hand for gold arrows</span>
-              </div>
+            <div className="grid grid-cols-2 gap-3">
+              {GAME_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => setGameMode(mode)}
+                  className={`rounded-xl px-4 py-3 font-semibold transition-all ${
+                    gameMode === mode
+                      ? 'bg-sonic-speed/30 text-sonic-speed border-2 border-sonic-speed'
+                      : 'border border-white/20 text-white/70 hover:border-white/40'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* Music preview */}
-          <div className="glass-card mb-4 rounded-2xl p-4 flex items-center justify-between">
-            <span className="text-white/70 text-sm">Background Music</span>
-            <div className="flex items-center gap-3">
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.1"
-                value={volume}
-                onChange={(e) => setVolume(parseFloat(e.target.value))}
-                className="w-20 h-2 bg-white/20 rounded-lg appearance-none cursor-pointer"
-              />
-              <button
-                onClick={toggleMusic}
-                className={`rounded-lg px-4 py-2 text-sm font-semibold transition-all ${
-                  isMusicPlaying
-                    ? 'bg-sonic-speed/30 text-sonic-speed'
-                    : 'bg-white/10 text-white/70 hover:bg-white/20'
-                }`}
-              >
-                {isMusicPlaying ? '🔊 Playing' : '🔇 Preview'}
-              </button>
+          {/* Lane layout selection */}
+          {gameMode === 'dance' && (
+            <div className="glass-card mb-8 rounded-2xl p-6">
+              <h2 className="mb-4 text-center text-lg font-semibold text-white/80">
+                Select Lanes
+              </h2>
+              <div className="grid grid-cols-5 gap-2">
+                {LANE_LAYOUT_IDS.map((id) => (
+                  <button
+                    key={id}
+                    onClick={() => setLayoutId(id)}
+                    className={`rounded-xl px-2 py-3 text-sm font-semibold transition-all ${
+                      layoutId === id
+                        ? 'bg-sonic-speed/30 text-sonic-speed border-2 border-sonic-speed'
+                        : 'border border-white/20 text-white/70 hover:border-white/40'
+                    }`}
+                  >
+                    {LANE_LAYOUTS[id].label}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-3 text-center text-xs text-white/40">
+                For freestyle and generated charts; songs keep the lanes they were charted for
+              </p>
+            </div>
+          )}
+
+          {/* Instructions */}
+          <div className="glass-card mb-8 rounded-2xl p-6">
+            <h2 className="mb-4 text-center text-lg font-semibold text-white/80">
+              How to Play
+            </h2>
+            <div className="space-y-3 text-sm text-white/60">
+              {gameMode === 'pose' && (
+                <p>
+                  Copy the pose of each silhouette as it reaches the line. The closer your
+                  arms and legs match its angles, the better your rating.
+                </p>
+              )}
+              {gameMode === 'dance' &&
+                laneLayout.lanes.map(({ kind, color }, lane) => {
+                  const { className, name } = LANE_COLOR_TEXT[color];
+                  const symbol =
+                    kind === 'body' ? '^' : lane < laneLayout.lanes.length / 2 ? '<--' : '-->';
+
+                  return (
+                    <div key={lane} className="flex items-center gap-3">
+                      <span className={`text-2xl ${className}`}>{symbol}</span>
+                      <span>
+                        {getLaneGestures(lane, laneLayout)
+                          .map((gesture) => gesture.label)
+                          .join(', ')}{' '}
+                        for {name} {kind === 'body' ? 'lightning bolts' : 'arrows'}
+                      </span>
+                    </div>
+                  );
+                })}
             </div>
           </div>
 
-          {/* Start button */}
+          {/* Choose song button */}
           <button
-            onClick={handleStartGame}
+            onClick={() => setPhase('song-select')}
             className="w-full rounded-xl bg-sonic-speed px-8 py-4 text-xl font-bold text-background transition-all hover:bg-sonic-speed/80 hover:scale-105 active:scale-95"
           >
-            Start Game
+            Choose Song
           </button>
 
-          {/* Recalibrate button */}
+          {/* Switch player button */}
           <button
-            onClick={handleRecalibrate}
+            onClick={handleSwitchPlayer}
             className="mt-4 w-full rounded-xl border border-sonic-speed/50 px-8 py-3 font-semibold text-sonic-speed/80 transition-all hover:border-sonic-speed hover:text-sonic-speed"
           >
-            Recalibrate (Switch Player)
+            Switch Player
           </button>
 
           {/* Back button */}
@@ -344,6 +809,10 @@ export function DanceGame({
   }
 
   // Render playing/paused phase
+  // Earliest pose note still to be judged
+  const nextPose = gameState.arrows.find((arrow) => arrow.pose && !arrow.hit && !arrow.missed);
+  const nextPoseTarget = nextPose?.pose ? getPoseTarget(nextPose.pose) : undefined;
+
   return (
     <div className={`flex min-h-screen flex-col ${className}`}>
       {/* Main game area */}
@@ -353,18 +822,29 @@ export function DanceGame({
           <div className="glass-card relative h-full overflow-hidden rounded-2xl p-2">
             <PoseDetector
               onPoseUpdate={handlePoseUpdate}
+              playback={posePlayback}
+              recordPose={recordPose}
+              filter={landmarkFilter}
+              showRawSkeleton={showRawSkeleton}
               showSkeleton={true}
               autoStart={true}
               className="h-full rounded-xl"
             />
 
+            {/* Position prompt (the player moved too far from where they calibrated) */}
+            {baselineStatus === 'out-of-position' && (
+              <div className="absolute left-1/2 top-4 -translate-x-1/2 transform">
+                <div className="glass-card rounded-lg px-4 py-2 text-lg font-bold text-sonic-accent animate-pulse">
+                  Step back into position
+                </div>
+              </div>
+            )}
+
             {/* Gesture indicator overlay */}
             {currentGesture && (
               <div className="absolute bottom-4 left-1/2 -translate-x-1/2 transform">
                 <div className="glass-card rounded-lg px-4 py-2 text-lg font-bold text-sonic-speed">
-                  {currentGesture === 'wave-left' && 'LEFT WAVE!'}
-                  {currentGesture === 'wave-right' && 'RIGHT WAVE!'}
-                  {currentGesture === 'jump' && 'JUMP!'}
+                  {getGestureLabel(currentGesture).toUpperCase()}!
                 </div>
               </div>
             )}
@@ -392,6 +872,7 @@ export function DanceGame({
           {/* Game canvas */}
           <GameCanvas
             arrows={gameState.arrows}
+            layout={laneLayout}
             width={320}
             height={480}
             recentHits={hitFeedback}
@@ -399,17 +880,17 @@ export function DanceGame({
 
           {/* Game controls */}
           <div className="flex gap-4 items-center">
-            {/* Music toggle button */}
+            {/* Music mute button (muting keeps the song clock running) */}
             <button
-              onClick={toggleMusic}
+              onClick={toggleMusicMute}
               className={`rounded-lg border px-4 py-2 text-sm transition-all ${
-                isMusicPlaying
+                !isMusicMuted
                   ? 'border-sonic-speed/50 text-sonic-speed hover:border-sonic-speed'
                   : 'border-white/20 text-white/70 hover:border-white/40'
               }`}
-              title={isMusicPlaying ? 'Pause Music' : 'Play Music'}
+              title={isMusicMuted ? 'Unmute Music' : 'Mute Music'}
             >
-              {isMusicPlaying ? '🔊 Music' : '🔇 Music'}
+              {isMusicMuted ? '🔇 Music' : '🔊 Music'}
             </button>
 
             {/* Volume slider */}
@@ -425,11 +906,11 @@ export function DanceGame({
             />
 
             <button
-              onClick={handleRecalibrate}
+              onClick={handleSwitchPlayer}
               className="rounded-lg border border-sonic-speed/50 px-4 py-2 text-sm text-sonic-speed/70 transition-all hover:border-sonic-speed hover:text-sonic-speed"
-              title="Recalibrate for a different player"
+              title="Switch to a different player"
             >
-              Recalibrate
+              Switch Player
             </button>
 
             <button
@@ -448,10 +929,30 @@ export function DanceGame({
             combo={gameState.combo}
             multiplier={comboMultiplier}
             perfectHits={gameState.perfectHits}
+            greatHits={gameState.greatHits}
             goodHits={gameState.goodHits}
             misses={gameState.misses}
             difficulty={gameState.difficulty}
+            layout={laneLayout}
           />
+
+          {/* Next pose and how well the player matches it */}
+          {gameMode === 'pose' && nextPoseTarget && (
+            <div className="glass-card mt-4 flex flex-col items-center rounded-2xl p-4">
+              <div className="text-xs uppercase tracking-wider text-white/50">Next Pose</div>
+              <PoseSilhouette target={nextPoseTarget} className="my-2" />
+              <div className="text-sm font-semibold text-white">{nextPoseTarget.label}</div>
+              <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-white/10">
+                <div
+                  className="h-full rounded-full bg-sonic-speed transition-all"
+                  style={{ width: `${Math.round((poseMatch ?? 0) * 100)}%` }}
+                />
+              </div>
+              <div className="mt-1 text-xs text-white/50">
+                {poseMatch === null ? 'Step into view' : `Match ${Math.round(poseMatch * 100)}%`}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -460,10 +961,14 @@ export function DanceGame({
         <GameOverModal
           stats={finalStats}
           isOpen={phase === 'ended'}
+          isNewBest={isNewBest}
+          onReplaySeed={activeChart ? undefined : handleStartGame}
           onPlayAgain={handlePlayAgain}
           onBackToMenu={handleBackToMenu}
         />
       )}
+
+      {poseSessionControls}
     </div>
   );
 }
@@ -1,13 +1,22 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import type { Arrow, HitRating } from '@/lib/types';
-import { HIT_ZONE, LANES } from '@/lib/gameConstants';
+import type { Arrow, HitRating, HitTiming } from '@/lib/types';
+import { HIT_ZONE } from '@/lib/gameConstants';
+import {
+  DEFAULT_LANE_LAYOUT,
+  type LaneColor,
+  type LaneDefinition,
+  type LaneLayout,
+} from '@/lib/laneLayouts';
+import { getPoseTarget } from '@/lib/poseTargets';
+import { drawPoseSilhouette } from './PoseSilhouette';
 
 interface HitFeedback {
   id: string;
   lane: number;
   rating: HitRating;
+  timing?: HitTiming;
   timestamp: number;
 }
 
@@ -20,34 +29,53 @@ interface GameCanvasProps {
   height?: number;
   /** Recent hit feedback for visual effects */
   recentHits?: HitFeedback[];
+  /** Lane layout (defaults to the classic 3 lanes) */
+  layout?: LaneLayout;
   /** Additional CSS classes */
   className?: string;
 }
 
 // Lane colors matching the theme
-const LANE_COLORS = {
-  0: {
-    // Left - Cyan (sonic-speed)
+export const LANE_COLORS: Record<LaneColor, { arrow: string; glow: string; lane: string }> = {
+  cyan: {
+    // Cyan (sonic-speed)
     arrow: '#00d9ff',
     glow: 'rgba(0, 217, 255, 0.8)',
     lane: 'rgba(0, 217, 255, 0.1)',
   },
-  1: {
-    // Center - Blue lightning (sonic-blue)
+  blue: {
+    // Blue lightning (sonic-blue)
     arrow: '#0066d9',
     glow: 'rgba(0, 102, 217, 0.8)',
     lane: 'rgba(0, 84, 178, 0.1)',
   },
-  2: {
-    // Right - Gold (sonic-accent)
+  gold: {
+    // Gold (sonic-accent)
     arrow: '#ffd700',
     glow: 'rgba(255, 215, 0, 0.8)',
     lane: 'rgba(255, 215, 0, 0.1)',
   },
-} as const;
+  magenta: {
+    arrow: '#ff4fd8',
+    glow: 'rgba(255, 79, 216, 0.8)',
+    lane: 'rgba(255, 79, 216, 0.1)',
+  },
+  green: {
+    arrow: '#39e87a',
+    glow: 'rgba(57, 232, 122, 0.8)',
+    lane: 'rgba(57, 232, 122, 0.1)',
+  },
+  orange: {
+    arrow: '#ff8c2e',
+    glow: 'rgba(255, 140, 46, 0.8)',
+    lane: 'rgba(255, 140, 46, 0.1)',
+  },
+};
 
 // Arrow shape definitions
 const ARROW_SIZE = 40;
+// Pose notes are drawn as silhouettes this many times the arrow size
+const SILHOUETTE_SCALE = 2;
 
 /**
  * Draw an arrow shape pointing up
@@ -142,6 +170,75 @@ function drawLightning(
   ctx.restore();
 }
 
+/**
+ * Draw a note head: a silhouette for pose notes, a lightning bolt in
+ * whole-body lanes, an arrow otherwise
+ */
+function drawNote(
+  ctx: CanvasRenderingContext2D,
+  arrow: Arrow,
+  lane: LaneDefinition | undefined,
+  x: number,
+  y: number,
+  color: string,
+  glowColor: string,
+  alpha: number = 1
+) {
+  const poseTarget = arrow.pose ? getPoseTarget(arrow.pose) : undefined;
+  if (poseTarget) {
+    drawPoseSilhouette(ctx, poseTarget, x, y, ARROW_SIZE * SILHOUETTE_SCALE, color, glowColor, alpha);
+  } else if (lane?.kind === 'body') {
+    drawLightning(ctx, x, y, color, glowColor, ARROW_SIZE, alpha);
+  } else {
+    drawArrow(ctx, x, y, color, glowColor, ARROW_SIZE, alpha);
+  }
+}
+
+/**
+ * Draw a hold note's tail, from its tail end down to its head
+ */
+function drawHoldTail(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  headY: number,
+  tailY: number,
+  color: string,
+  glowColor: string,
+  alpha: number = 1
+) {
+  if (headY <= tailY) return;
+
+  const tailWidth = ARROW_SIZE * 0.4;
+
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.shadowBlur = 15;
+  ctx.shadowColor = glowColor;
+
+  const gradient = ctx.createLinearGradient(0, tailY, 0, headY);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 0.2)');
+  gradient.addColorStop(1, color);
+
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.roundRect(x - tailWidth / 2, tailY, tailWidth, headY - tailY, tailWidth / 2);
+  ctx.fill();
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  ctx.restore();
+}
+
+// Judgement colors for explosions and labels
+const RATING_COLORS: Record<HitRating, string> = {
+  perfect: '#00d9ff',
+  great: '#00ff88',
+  good: '#ffd700',
+  miss: '#ff4444',
+};
+
 /**
  * Draw hit explosion effect
  */
@@ -152,13 +249,7 @@ function drawHitExplosion(
   progress: number,
   rating: HitRating
 ) {
-  const colors = {
-    perfect: '#00d9ff',
-    good: '#ffd700',
-    miss: '#ff4444',
-  };
-
-  const color = colors[rating];
+  const color = RATING_COLORS[rating];
   const maxRadius = rating === 'perfect' ? 60 : 40;
   const radius = maxRadius * progress;
   const alpha = 1 - progress;
@@ -187,6 +278,40 @@ function drawHitExplosion(
   ctx.restore();
 }
 
+/**
+ * Draw the judgement text for a hit, with EARLY/LATE below off-beat hits
+ */
+function drawHitLabel(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  progress: number,
+  rating: HitRating,
+  timing?: HitTiming
+) {
+  const color = RATING_COLORS[rating];
+  // Float upwards while fading out
+  const labelY = y - 50 - progress * 30;
+
+  ctx.save();
+  ctx.globalAlpha = 1 - progress;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowBlur = 10;
+  ctx.shadowColor = color;
+  ctx.fillStyle = color;
+  ctx.font = 'bold 18px sans-serif';
+  ctx.fillText(rating.toUpperCase(), x, labelY);
+
+  if (timing && rating !== 'perfect') {
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillStyle = timing === 'early' ? '#66ccff' : '#ff9966';
+    ctx.fillText(timing.toUpperCase(), x, labelY + 18);
+  }
+
+  ctx.restore();
+}
+
 /**
  * GameCanvas - Renders the arrow lanes and hit zone visualization
  */
@@ -195,6 +320,7 @@ export function GameCanvas({
   width = 400,
   height = 600,
   recentHits = [],
+  layout = DEFAULT_LANE_LAYOUT,
   className = '',
 }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -229,14 +355,17 @@ export function GameCanvas({
       ctx.clearRect(0, 0, width, height);
 
       // Calculate lane dimensions
-      const laneWidth = width / LANES.COUNT;
+      const { lanes } = layout;
+      const laneWidth = width / lanes.length;
+      const getLaneColors = (lane: number) => LANE_COLORS[lanes[lane]?.color ?? 'cyan'];
+
       const hitZoneY = height * HIT_ZONE.GOOD_START;
       const perfectZoneY = height * HIT_ZONE.PERFECT_START;
 
       // Draw lane backgrounds
-      for (let i = 0; i < LANES.COUNT; i++) {
+      for (let i = 0; i < lanes.length; i++) {
         const laneX = i * laneWidth;
-        const colors = LANE_COLORS[i as keyof typeof LANE_COLORS];
+        const colors = getLaneColors(i);
 
         // Lane background gradient
         const gradient = ctx.createLinearGradient(laneX, 0, laneX + laneWidth, 0);
@@ -294,9 +423,9 @@ export function GameCanvas({
       ctx.shadowBlur = 0;
 
       // Draw target indicators at hit zone
-      for (let i = 0; i < LANES.COUNT; i++) {
+      for (let i = 0; i < lanes.length; i++) {
         const centerX = (i + 0.5) * laneWidth;
-        const colors = LANE_COLORS[i as keyof typeof LANE_COLORS];
+        const colors = getLaneColors(i);
 
         // Draw target circle
         ctx.beginPath();
@@ -308,8 +437,40 @@ export function GameCanvas({
         ctx.globalAlpha = 1;
       }
 
+      const targetY = height * HIT_ZONE.TARGET;
+
+      // Draw hold note tails (behind the arrow heads)
+      for (const arrow of currentArrows) {
+        if (!arrow.duration || arrow.tailPosition === undefined || arrow.holdState === 'completed') {
+          continue;
+        }
+
+        const arrowLaneX = (arrow.lane + 0.5) * laneWidth;
+        const colors = getLaneColors(arrow.lane);
+        const tailY = arrow.tailPosition * height;
+
+        if (arrow.holdState === 'holding') {
+          // Head stays pinned to the target while the pose is held
+          drawHoldTail(ctx, arrowLaneX, targetY, tailY, colors.arrow, colors.glow);
+        } else if (arrow.missed || arrow.holdState === 'released') {
+          drawHoldTail(ctx, arrowLaneX, arrow.position * height, tailY, '#888888', 'rgba(136, 136, 136, 0.3)', 0.3);
+        } else {
+          drawHoldTail(ctx, arrowLaneX, arrow.position * height, tailY, colors.arrow, colors.glow, 0.6);
+        }
+      }
+
       // Draw arrows
       for (const arrow of currentArrows) {
+        // Held hold note: keep the head glowing on the target
+        if (arrow.holdState === 'holding') {
+          const arrowLaneX = (arrow.lane + 0.5) * laneWidth;
+          const colors = getLaneColors(arrow.lane);
+          const pulse = 0.8 + 0.2 * Math.sin(Date.now() / 80);
+
+          drawNote(ctx, arrow, lanes[arrow.lane], arrowLaneX, targetY, colors.arrow, colors.glow, pulse);
+          continue;
+        }
+
         if (arrow.hit || arrow.missed) {
           // Show faded arrow for missed
           if (arrow.missed && arrow.position <= 1.2) {
@@ -317,27 +478,17 @@ export function GameCanvas({
             const arrowY = arrow.position * height;
 
             // Draw faded red arrow
-            if (arrow.lane === 1) {
-              drawLightning(ctx, arrowLaneX, arrowY, '#ff4444', 'rgba(255, 68, 68, 0.5)', ARROW_SIZE, 0.3);
-            } else {
-              drawArrow(ctx, arrowLaneX, arrowY, '#ff4444', 'rgba(255, 68, 68, 0.5)', ARROW_SIZE, 0.3);
-            }
+            drawNote(ctx, arrow, lanes[arrow.lane], arrowLaneX, arrowY, '#ff4444', 'rgba(255, 68, 68, 0.5)', 0.3);
           }
           continue;
         }
 
         const arrowLaneX = (arrow.lane + 0.5) * laneWidth;
         const arrowY = arrow.position * height;
-        const colors = LANE_COLORS[arrow.lane as keyof typeof LANE_COLORS];
+        const colors = getLaneColors(arrow.lane);
 
         // Draw arrow based on lane type
-        if (arrow.lane === 1) {
-          // Center lane uses lightning bolt for jump
-          drawLightning(ctx, arrowLaneX, arrowY, colors.arrow, colors.glow, ARROW_SIZE);
-        } else {
-          // Left and right lanes use arrow shape
-          drawArrow(ctx, arrowLaneX, arrowY, colors.arrow, colors.glow, ARROW_SIZE);
-        }
+        drawNote(ctx, arrow, lanes[arrow.lane], arrowLaneX, arrowY, colors.arrow, colors.glow);
 
         // Add approaching indicator when close to hit zone
         if (arrow.position >= HIT_ZONE.GOOD_START - 0.1 && arrow.position < HIT_ZONE.PERFECT_START) {
@@ -361,6 +512,7 @@ export function GameCanvas({
         const hitY = perfectZoneY + (height - perfectZoneY) / 2;
 
         drawHitExplosion(ctx, hitLaneX, hitY, progress, hit.rating);
+        drawHitLabel(ctx, hitLaneX, hitY, progress, hit.rating, hit.timing);
       }
 
       // Request next frame
@@ -375,7 +527,7 @@ export function GameCanvas({
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [width, height]);
+  }, [width, height, layout]);
 
   return (
     <canvas
@@ -2,16 +2,21 @@
 
 import { useMemo } from 'react';
 import type { GameStats } from '@/lib/types';
+import { formatSeed } from '@/lib/random';
 
 interface GameOverModalProps {
   /** Game statistics to display */
   stats: GameStats;
   /** Whether the modal is open */
   isOpen: boolean;
+  /** Whether the score is a new best for the song */
+  isNewBest?: boolean;
   /** Callback when "Play Again" is clicked */
   onPlayAgain: () => void;
   /** Callback when "Back to Menu" is clicked */
   onBackToMenu: () => void;
+  /** Callback to play the same seed again (freestyle only) */
+  onReplaySeed?: (seed: number) => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -45,11 +50,13 @@ function getRatingMessage(accuracy: number): { message: string; color: string }
 export function GameOverModal({
   stats,
   isOpen,
+  isNewBest = false,
   onPlayAgain,
   onBackToMenu,
+  onReplaySeed,
   className = '',
 }: GameOverModalProps) {
-  const totalHits = stats.perfectHits + stats.goodHits;
+  const totalHits = stats.perfectHits + stats.greatHits + stats.goodHits;
   const rating = useMemo(() => getRatingMessage(stats.accuracy), [stats.accuracy]);
 
   if (!isOpen) return null;
@@ -85,6 +92,11 @@ export function GameOverModal({
           <div className="neon-text text-5xl font-bold tabular-nums">
             {stats.score.toLocaleString()}
           </div>
+          {isNewBest && (
+            <div className="mt-2 text-sm font-bold uppercase tracking-wider text-sonic-accent">
+              New Best!
+            </div>
+          )}
         </div>
 
         {/* Stats grid */}
@@ -146,6 +158,14 @@ export function GameOverModal({
               Perfect
             </div>
           </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-green-400">
+              {stats.greatHits}
+            </div>
+            <div className="text-xs uppercase tracking-wider text-white/50">
+              Great
+            </div>
+          </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-sonic-accent">
               {stats.goodHits}
@@ -164,6 +184,24 @@ export function GameOverModal({
           </div>
         </div>
 
+        {/* Seed (share or replay the same arrow sequence) */}
+        {onReplaySeed && (
+          <div
+            className="mb-6 flex items-center justify-center gap-3 text-sm animate-fade-in-up"
+            style={{ animationDelay: '350ms' }}
+          >
+            <span className="text-white/50">
+              Seed <span className="font-mono text-white select-all">{formatSeed(stats.seed)}</span>
+            </span>
+            <button
+              onClick={() => onReplaySeed(stats.seed)}
+              className="rounded-lg border border-sonic-speed/50 px-3 py-1 text-sonic-speed/80 transition-all hover:border-sonic-speed hover:text-sonic-speed"
+            >
+              Replay Seed
+            </button>
+          </div>
+        )}
+
         {/* Action buttons */}
         <div
           className="flex gap-4 animate-fade-in-up"
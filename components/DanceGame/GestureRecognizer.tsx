@@ -2,7 +2,13 @@
 
 import { useMemo } from 'react';
 import type { GestureType, GestureEvent } from '@/lib/types';
-import { getGestureLabel, getGestureLane } from '@/lib/gestureDetection';
+import { getGestureIcon, getGestureLabel } from '@/lib/gestureDetection';
+import {
+  DEFAULT_LANE_LAYOUT,
+  getGestureLane,
+  getLaneGestures,
+  type LaneLayout,
+} from '@/lib/laneLayouts';
 
 interface GestureRecognizerProps {
   /** Current detected gesture */
@@ -15,20 +21,16 @@ interface GestureRecognizerProps {
   showCount?: boolean;
   /** Whether gesture detection is enabled */
   isEnabled?: boolean;
+  /** Lane layout to show (defaults to the classic 3 lanes) */
+  layout?: LaneLayout;
   /** Additional CSS classes */
   className?: string;
 }
 
-// Lane configuration for visual display
-const LANE_CONFIG = [
-  { label: 'LEFT', gesture: 'wave-left' as const, icon: '👋' },
-  { label: 'CENTER', gesture: 'jump' as const, icon: '⬆️' },
-  { label: 'RIGHT', gesture: 'wave-right' as const, icon: '👋' },
-];
-
 /**
  * Component that visualizes detected gestures
- * Displays three lanes (left wave, jump, right wave) with visual feedback
+ * Displays the layout's lanes, each with the icon of its first gesture,
+ * with visual feedback
  */
 export function GestureRecognizer({
   currentGesture,
@@ -36,12 +38,13 @@ export function GestureRecognizer({
   gestureCount = 0,
   showCount = false,
   isEnabled = true,
+  layout = DEFAULT_LANE_LAYOUT,
   className = '',
 }: GestureRecognizerProps) {
   // Compute active lane directly from props
   const activeLane = useMemo(() => {
-    return currentGesture ? getGestureLane(currentGesture) : null;
-  }, [currentGesture]);
+    return currentGesture ? getGestureLane(currentGesture, layout) : null;
+  }, [currentGesture, layout]);
 
   // Determine confidence level for visual feedback
   const confidenceLevel = useMemo(() => {
@@ -54,16 +57,21 @@ export function GestureRecognizer({
   // Use gesture count as key for animation restart
   const animationKey = gestureCount;
 
+  const lanes = layout.lanes.map((lane, index) => ({
+    label: lane.label.toUpperCase(),
+    icon: getLaneGestures(index, layout)[0]?.icon ?? '',
+  }));
+
   return (
     <div className={`relative ${className}`}>
       {/* Gesture lanes */}
-      <div className="flex justify-center gap-4">
-        {LANE_CONFIG.map((lane, index) => {
+      <div className="flex flex-wrap justify-center gap-4">
+        {lanes.map((lane, index) => {
           const isActive = activeLane === index;
 
           return (
             <div
-              key={lane.gesture}
+              key={index}
               className={`
                 relative flex flex-col items-center justify-center
                 w-24 h-24 rounded-2xl
@@ -183,8 +191,7 @@ export function GestureIndicator({
 }) {
   if (!currentGesture) return null;
 
-  const lane = getGestureLane(currentGesture);
-  const icon = lane !== null ? LANE_CONFIG[lane].icon : '';
+  const icon = getGestureIcon(currentGesture);
 
   return (
     <div
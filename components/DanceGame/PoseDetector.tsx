@@ -1,12 +1,27 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import { useMediaPipe } from '@/hooks/useMediaPipe';
-import { WebcamFeed } from './WebcamFeed';
+import { WebcamFeed, drawPoseSkeleton, RAW_SKELETON_COLORS } from './WebcamFeed';
+import {
+  DEFAULT_LANDMARK_FILTER_OPTIONS,
+  createLandmarkFilter,
+  type LandmarkFilterOptions,
+} from '@/lib/landmarkFilter';
+import type { PosePlayback } from '@/lib/poseRecording';
 import type { PoseResult, CameraState, MediaPipeState } from '@/lib/types';
 
 interface PoseDetectorProps {
+  /** Called with every pose frame, smoothed by the landmark filter */
   onPoseUpdate?: (pose: PoseResult | null) => void;
+  /** Recorded session to play through onPoseUpdate instead of the camera */
+  playback?: PosePlayback | null;
+  /** Called with every live pose frame, unfiltered (e.g. to record the session) */
+  recordPose?: (pose: PoseResult | null) => void;
+  /** Landmark smoothing applied before onPoseUpdate (pass a stable object) */
+  filter?: LandmarkFilterOptions;
+  /** Draw the unfiltered skeleton under the smoothed one (to compare smoothing) */
+  showRawSkeleton?: boolean;
   onCameraStateChange?: (state: CameraState) => void;
   onMediaPipeStateChange?: (state: MediaPipeState) => void;
   showSkeleton?: boolean;
@@ -14,14 +29,55 @@ interface PoseDetectorProps {
   className?: string;
 }
 
+// Canvas size used to draw played-back poses
+const PLAYBACK_WIDTH = 640;
+const PLAYBACK_HEIGHT = 480;
+
 export function PoseDetector({
   onPoseUpdate,
+  playback = null,
+  recordPose,
+  filter = DEFAULT_LANDMARK_FILTER_OPTIONS,
+  showRawSkeleton = false,
   onCameraStateChange,
   onMediaPipeStateChange,
   showSkeleton = true,
   autoStart = true,
   className = '',
 }: PoseDetectorProps) {
+  const playbackCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [playbackPose, setPlaybackPose] = useState<PoseResult | null>(null);
+  const [smoothedPose, setSmoothedPose] = useState<PoseResult | null>(null);
+
+  // Smoothing stage between pose detection (or playback) and onPoseUpdate
+  const landmarkFilter = useMemo(() => createLandmarkFilter(filter), [filter]);
+
+  const smoothPose = useCallback(
+    (pose: PoseResult | null) => {
+      let smoothed: PoseResult | null = null;
+      if (pose) {
+        smoothed = landmarkFilter.apply(pose);
+      } else {
+        // Losing the player starts the filter afresh
+        landmarkFilter.reset();
+      }
+
+      setSmoothedPose(smoothed);
+      onPoseUpdate?.(smoothed);
+    },
+    [landmarkFilter, onPoseUpdate]
+  );
+
+  // Live poses are ignored while a recording plays
+  const handleLivePose = useCallback(
+    (pose: PoseResult | null) => {
+      if (playback) return;
+      recordPose?.(pose);
+      smoothPose(pose);
+    },
+    [playback, recordPose, smoothPose]
+  );
+
   const {
     videoRef,
     canvasRef,
@@ -32,17 +88,51 @@ export function PoseDetector({
     stopDetection,
     isDetecting,
   } = useMediaPipe({
-    onPoseDetected: onPoseUpdate,
+    onPoseDetected: handleLivePose,
     runningMode: 'VIDEO',
     minPoseDetectionConfidence: 0.5,
     minPosePresenceConfidence: 0.5,
     minTrackingConfidence: 0.5,
   });
 
-  // Notify parent of MediaPipe state changes
+  // Notify parent of MediaPipe state changes (playback needs neither camera nor model)
+  useEffect(() => {
+    onMediaPipeStateChange?.(playback ? 'ready' : mediaPipeState);
+  }, [playback, mediaPipeState, onMediaPipeStateChange]);
+
+  useEffect(() => {
+    if (playback) {
+      onCameraStateChange?.('active');
+    }
+  }, [playback, onCameraStateChange]);
+
+  // Feed played-back frames through onPoseUpdate (recordings hold unfiltered frames)
   useEffect(() => {
-    onMediaPipeStateChange?.(mediaPipeState);
-  }, [mediaPipeState, onMediaPipeStateChange]);
+    if (!playback) return;
+
+    landmarkFilter.reset();
+    return playback.subscribe((pose) => {
+      setPlaybackPose(pose);
+      smoothPose(pose);
+    });
+  }, [playback, landmarkFilter, smoothPose]);
+
+  // Draw played-back poses
+  useEffect(() => {
+    const canvas = playbackCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!showSkeleton) return;
+
+    if (playbackPose && showRawSkeleton) {
+      drawPoseSkeleton(ctx, playbackPose, canvas.width, canvas.height, true, RAW_SKELETON_COLORS);
+    }
+    if (smoothedPose) {
+      drawPoseSkeleton(ctx, smoothedPose, canvas.width, canvas.height, true);
+    }
+  }, [playbackPose, smoothedPose, showSkeleton, showRawSkeleton]);
 
   // Handle camera state to auto-start detection when camera is active
   const handleCameraStateChange = useCallback(
@@ -71,13 +161,45 @@ export function PoseDetector({
     };
   }, [stopDetection]);
 
+  // Skeleton legend for the smoothing debug view
+  const rawSkeletonLegend = showRawSkeleton && showSkeleton && (
+    <div className="absolute right-4 top-4 flex gap-3 rounded-lg bg-background/80 px-3 py-2 text-xs backdrop-blur-sm">
+      <span className="text-sonic-speed">● Filtered</span>
+      <span className="text-red-400">● Raw</span>
+    </div>
+  );
+
+  if (playback) {
+    return (
+      <div className={`relative ${className}`}>
+        {/* Recorded session in place of the webcam feed */}
+        <div className="relative aspect-video w-full overflow-hidden rounded-2xl bg-black">
+          <canvas
+            ref={playbackCanvasRef}
+            width={PLAYBACK_WIDTH}
+            height={PLAYBACK_HEIGHT}
+            className="absolute inset-0 h-full w-full"
+          />
+        </div>
+
+        <div className="absolute bottom-4 left-4 flex items-center gap-2 rounded-lg bg-sonic-accent/20 px-3 py-2 backdrop-blur-sm">
+          <div className="h-3 w-3 rounded-full bg-sonic-accent animate-pulse" />
+          <span className="text-sm text-sonic-accent">Playing recorded session</span>
+        </div>
+
+        {rawSkeletonLegend}
+      </div>
+    );
+  }
+
   return (
     <div className={`relative ${className}`}>
       {/* Webcam feed with skeleton overlay */}
       <WebcamFeed
         videoRef={videoRef}
         canvasRef={canvasRef}
-        pose={currentPose}
+        pose={smoothedPose}
+        rawPose={showRawSkeleton ? currentPose : null}
         showSkeleton={showSkeleton}
         mirrored={true}
         onCameraStateChange={handleCameraStateChange}
@@ -109,6 +231,8 @@ export function PoseDetector({
         </div>
       )}
 
+      {rawSkeletonLegend}
+
       {/* Pose detection status */}
       {currentPose && (
         <div className="absolute bottom-4 right-4 rounded-lg bg-background/80 px-3 py-2 backdrop-blur-sm">
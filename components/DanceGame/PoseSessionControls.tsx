@@ -0,0 +1,131 @@
+'use client';
+
+import { LANDMARK_FILTER_TYPES, type LandmarkFilterType } from '@/lib/landmarkFilter';
+
+interface PoseSessionControlsProps {
+  /** Whether live pose frames are being recorded */
+  isRecording: boolean;
+  /** Callback to start recording */
+  onStartRecording: () => void;
+  /** Callback to stop recording (and save the file) */
+  onStopRecording: () => void;
+  /** Whether a recorded session is playing instead of the camera */
+  isPlayingBack: boolean;
+  /** Callback when a recording file is picked for playback */
+  onLoadRecording: (file: File) => void;
+  /** Callback to stop playback */
+  onStopPlayback: () => void;
+  /** Error loading a recording */
+  error?: string | null;
+  /** Landmark smoothing in use */
+  filterType?: LandmarkFilterType;
+  /** Callback to change the landmark smoothing (shows the smoothing options) */
+  onFilterTypeChange?: (type: LandmarkFilterType) => void;
+  /** Whether the unfiltered skeleton is drawn under the smoothed one */
+  showRawSkeleton?: boolean;
+  /** Callback to show or hide the unfiltered skeleton */
+  onShowRawSkeletonChange?: (show: boolean) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * PoseSessionControls - Debug panel for recording pose sessions and
+ * replaying them without a camera, and for comparing landmark smoothing
+ */
+export function PoseSessionControls({
+  isRecording,
+  onStartRecording,
+  onStopRecording,
+  isPlayingBack,
+  onLoadRecording,
+  onStopPlayback,
+  error,
+  filterType,
+  onFilterTypeChange,
+  showRawSkeleton = false,
+  onShowRawSkeletonChange,
+  className = '',
+}: PoseSessionControlsProps) {
+  const buttonClasses =
+    'rounded-lg px-3 py-1 text-xs font-semibold transition-all bg-white/10 text-white/70 hover:bg-white/20';
+
+  return (
+    <div className={`glass-card flex flex-col gap-2 rounded-xl p-3 ${className}`}>
+      <div className="text-xs uppercase tracking-wider text-white/50">Pose Session</div>
+
+      <div className="flex gap-2">
+        {isRecording ? (
+          <button
+            onClick={onStopRecording}
+            className="flex items-center gap-2 rounded-lg bg-red-500/30 px-3 py-1 text-xs font-semibold text-red-300 transition-all hover:bg-red-500/40"
+          >
+            <span className="h-2 w-2 rounded-full bg-red-400 animate-pulse" />
+            Stop &amp; Save
+          </button>
+        ) : (
+          <button
+            onClick={onStartRecording}
+            disabled={isPlayingBack}
+            className={`${buttonClasses} disabled:opacity-50`}
+          >
+            ● Record
+          </button>
+        )}
+
+        {isPlayingBack ? (
+          <button onClick={onStopPlayback} className={buttonClasses}>
+            ■ Stop Replay
+          </button>
+        ) : (
+          <label className={`cursor-pointer ${buttonClasses}`}>
+            ▶ Replay File
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) {
+                  onLoadRecording(file);
+                }
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {error && <p className="max-w-56 text-xs text-red-400">{error}</p>}
+
+      {onFilterTypeChange && (
+        <div className="flex items-center gap-2 text-xs text-white/70">
+          <label className="flex items-center gap-1">
+            Smoothing
+            <select
+              value={filterType}
+              onChange={(e) => onFilterTypeChange(e.target.value as LandmarkFilterType)}
+              className="rounded bg-white/10 px-1 py-0.5 text-white"
+            >
+              {LANDMARK_FILTER_TYPES.map(({ type, label }) => (
+                <option key={type} value={type} className="bg-background">
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {onShowRawSkeletonChange && (
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={showRawSkeleton}
+                onChange={(e) => onShowRawSkeletonChange(e.target.checked)}
+              />
+              Show raw
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
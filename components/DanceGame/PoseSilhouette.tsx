@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { PoseJoint, PoseTarget } from '@/lib/poseTargets';
+
+interface PoseSilhouetteProps {
+  /** Pose to draw */
+  target: PoseTarget;
+  /** Width of the canvas */
+  width?: number;
+  /** Height of the canvas */
+  height?: number;
+  /** Fill colour */
+  color?: string;
+  /** Glow colour */
+  glowColor?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// Limbs drawn as thick strokes (torso and head are drawn separately)
+const SILHOUETTE_LIMBS: [PoseJoint, PoseJoint][] = [
+  ['leftShoulder', 'leftElbow'],
+  ['leftElbow', 'leftWrist'],
+  ['rightShoulder', 'rightElbow'],
+  ['rightElbow', 'rightWrist'],
+  ['leftHip', 'leftKnee'],
+  ['leftKnee', 'leftAnkle'],
+  ['rightHip', 'rightKnee'],
+  ['rightKnee', 'rightAnkle'],
+];
+
+/**
+ * Draw a pose target as a filled body silhouette, mirrored like the camera
+ * view so the player copies it as in a mirror
+ * The pose is scaled so its joints span `size` pixels, centered on (x, y)
+ */
+export function drawPoseSilhouette(
+  ctx: CanvasRenderingContext2D,
+  target: PoseTarget,
+  x: number,
+  y: number,
+  size: number,
+  color: string,
+  glowColor: string,
+  alpha: number = 1
+) {
+  const points = Object.values(target.joints);
+  const xs = points.map(([px]) => px);
+  const ys = points.map(([, py]) => py);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const scale = size / Math.max(maxX - minX, maxY - minY, 0.01);
+
+  // Pose coordinates to canvas pixels (x flipped for the mirror view)
+  const toCanvas = (joint: PoseJoint): [number, number] => {
+    const [px, py] = target.joints[joint];
+    return [x - (px - (minX + maxX) / 2) * scale, y + (py - (minY + maxY) / 2) * scale];
+  };
+
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.shadowBlur = 15;
+  ctx.shadowColor = glowColor;
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  // Torso
+  ctx.beginPath();
+  for (const joint of ['leftShoulder', 'rightShoulder', 'rightHip', 'leftHip'] as const) {
+    ctx.lineTo(...toCanvas(joint));
+  }
+  ctx.closePath();
+  ctx.fill();
+
+  // Limbs
+  ctx.lineWidth = Math.max(3, size * 0.08);
+  for (const [from, to] of SILHOUETTE_LIMBS) {
+    ctx.beginPath();
+    ctx.moveTo(...toCanvas(from));
+    ctx.lineTo(...toCanvas(to));
+    ctx.stroke();
+  }
+
+  // Neck and head
+  const [noseX, noseY] = toCanvas('nose');
+  const [leftX, leftY] = toCanvas('leftShoulder');
+  const [rightX, rightY] = toCanvas('rightShoulder');
+  ctx.beginPath();
+  ctx.moveTo((leftX + rightX) / 2, (leftY + rightY) / 2);
+  ctx.lineTo(noseX, noseY);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(noseX, noseY, Math.max(4, size * 0.09), 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore();
+}
+
+/**
+ * PoseSilhouette - A target pose drawn on its own canvas (e.g. the next pose
+ * to strike)
+ */
+export function PoseSilhouette({
+  target,
+  width = 120,
+  height = 160,
+  color = '#00d9ff',
+  glowColor = 'rgba(0, 217, 255, 0.8)',
+  className = '',
+}: PoseSilhouetteProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    drawPoseSilhouette(
+      ctx,
+      target,
+      width / 2,
+      height / 2,
+      Math.min(width, height) * 0.8,
+      color,
+      glowColor
+    );
+  }, [target, width, height, color, glowColor]);
+
+  return <canvas ref={canvasRef} width={width} height={height} className={className} />;
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { PLAYER_COLORS, getProfileBestScore, type PlayerProfile } from '@/lib/playerProfiles';
+
+interface ProfileSelectScreenProps {
+  /** Stored player profiles */
+  profiles: PlayerProfile[];
+  /** Whether the profiles are loading */
+  isLoading: boolean;
+  /** Profile load/save error */
+  error: string | null;
+  /** Callback when a profile is picked */
+  onSelect: (profile: PlayerProfile) => void;
+  /** Callback when a new profile is created */
+  onCreate: (name: string, color: string) => void;
+  /** Callback when a profile is deleted */
+  onDelete: (profile: PlayerProfile) => void;
+  /** Callback to play without a profile */
+  onGuest: () => void;
+  /** Callback when "Back" is clicked */
+  onBack?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// Longest profile name
+const MAX_NAME_LENGTH = 20;
+
+/**
+ * Round avatar: the first letter of the name on the player's colour
+ */
+function ProfileAvatar({ profile }: { profile: PlayerProfile }) {
+  return (
+    <div
+      className="flex h-12 w-12 shrink-0 items-center justify-center rounded-full text-xl font-bold text-background"
+      style={{ backgroundColor: profile.color, boxShadow: `0 0 12px ${profile.color}` }}
+    >
+      {profile.name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
+
+/**
+ * ProfileSelectScreen - Pick who is playing, create a profile or play as a guest
+ *
+ * Players with a stored calibration can skip calibrating (if it still fits
+ * the camera view); new profiles calibrate once and keep the result.
+ */
+export function ProfileSelectScreen({
+  profiles,
+  isLoading,
+  error,
+  onSelect,
+  onCreate,
+  onDelete,
+  onGuest,
+  onBack,
+  className = '',
+}: ProfileSelectScreenProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PLAYER_COLORS[0]);
+
+  const canCreate = name.trim().length > 0;
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    onCreate(name.trim(), color);
+    setName('');
+  };
+
+  return (
+    <div className={`flex min-h-screen flex-col items-center justify-center p-4 ${className}`}>
+      <div className="w-full max-w-md">
+        <h1 className="neon-text mb-8 text-center text-4xl font-bold">Who&apos;s Dancing?</h1>
+
+        {/* Stored profiles */}
+        <div className="mb-6 max-h-[40vh] space-y-3 overflow-y-auto pr-1">
+          {isLoading && <p className="text-center text-sm text-white/50">Loading players...</p>}
+          {error && <p className="text-center text-sm text-red-400">{error}</p>}
+
+          {profiles.map((profile) => {
+            const bestScore = getProfileBestScore(profile);
+
+            return (
+              <div
+                key={profile.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(profile)}
+                onKeyDown={(e) => {
+                  if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+                    e.preventDefault();
+                    onSelect(profile);
+                  }
+                }}
+                className="glass-card flex w-full cursor-pointer items-center gap-4 rounded-2xl border border-transparent p-4 text-left transition-all hover:border-white/30"
+              >
+                <ProfileAvatar profile={profile} />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-semibold text-white">{profile.name}</div>
+                  <div className="text-xs text-white/50">
+                    {profile.history.length > 0
+                      ? `${profile.history.length} plays · Best: ${bestScore.toLocaleString()}`
+                      : 'Not played yet'}
+                    {' · '}
+                    {profile.calibration ? 'Calibrated' : 'Needs calibration'}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (window.confirm(`Delete ${profile.name}'s profile?`)) {
+                      onDelete(profile);
+                    }
+                  }}
+                  className="shrink-0 rounded-lg px-2 py-1 text-sm text-white/40 transition-all hover:text-red-400"
+                  title="Delete profile"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* New profile */}
+        <div className="glass-card mb-6 rounded-2xl p-6">
+          <h2 className="mb-4 text-center text-lg font-semibold text-white/80">New Player</h2>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+            }}
+            placeholder="Name"
+            maxLength={MAX_NAME_LENGTH}
+            className="mb-4 w-full rounded-lg border border-white/20 bg-white/10 px-3 py-2 text-white placeholder:text-white/30"
+          />
+          <div className="mb-4 flex justify-center gap-3">
+            {PLAYER_COLORS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setColor(option)}
+                className={`h-8 w-8 rounded-full transition-all ${
+                  color === option ? 'scale-110 ring-2 ring-white' : 'opacity-60 hover:opacity-100'
+                }`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="w-full rounded-xl bg-sonic-speed px-8 py-3 font-bold text-background transition-all hover:bg-sonic-speed/80 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Create &amp; Calibrate
+          </button>
+        </div>
+
+        {/* Guest button */}
+        <button
+          onClick={onGuest}
+          className="w-full rounded-xl border border-sonic-speed/50 px-8 py-3 font-semibold text-sonic-speed/80 transition-all hover:border-sonic-speed hover:text-sonic-speed"
+        >
+          Play as Guest
+        </button>
+
+        {/* Back button */}
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="mt-4 w-full rounded-xl border border-white/20 px-8 py-3 font-semibold text-white/70 transition-all hover:border-white/40 hover:text-white"
+          >
+            Back to Menu
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
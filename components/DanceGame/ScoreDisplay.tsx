@@ -3,6 +3,8 @@
 import { useMemo } from 'react';
 import type { DifficultyLevel } from '@/lib/types';
 import { DIFFICULTY_SETTINGS } from '@/lib/gameConstants';
+import { DEFAULT_LANE_LAYOUT, type LaneLayout } from '@/lib/laneLayouts';
+import { LANE_COLORS } from './GameCanvas';
 
 interface ScoreDisplayProps {
   /** Current score */
@@ -13,12 +15,16 @@ interface ScoreDisplayProps {
   multiplier: number;
   /** Number of perfect hits */
   perfectHits: number;
+  /** Number of great hits */
+  greatHits: number;
   /** Number of good hits */
   goodHits: number;
   /** Number of misses */
   misses: number;
   /** Current difficulty level */
   difficulty: DifficultyLevel;
+  /** Lane layout being played */
+  layout?: LaneLayout;
   /** Additional CSS classes */
   className?: string;
 }
@@ -33,9 +39,11 @@ export function ScoreDisplay({
   combo,
   multiplier,
   perfectHits,
+  greatHits,
   goodHits,
   misses,
   difficulty,
+  layout = DEFAULT_LANE_LAYOUT,
   className = '',
 }: ScoreDisplayProps) {
   const difficultyLabel = DIFFICULTY_SETTINGS[difficulty].label;
@@ -106,13 +114,19 @@ export function ScoreDisplay({
 
       {/* Hit statistics */}
       <div className="glass-card rounded-xl p-3">
-        <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="grid grid-cols-4 gap-2 text-center">
           <div>
             <div className="text-xs text-white/50 mb-1">Perfect</div>
             <div className="text-lg font-semibold text-sonic-speed">
               {perfectHits}
             </div>
           </div>
+          <div>
+            <div className="text-xs text-white/50 mb-1">Great</div>
+            <div className="text-lg font-semibold text-green-400">
+              {greatHits}
+            </div>
+          </div>
           <div>
             <div className="text-xs text-white/50 mb-1">Good</div>
             <div className="text-lg font-semibold text-sonic-accent">
@@ -135,6 +149,21 @@ export function ScoreDisplay({
         {difficultyLabel}
       </div>
 
+      {/* Lane layout indicator: one dot per lane in its colour */}
+      <div className="glass-card rounded-lg px-3 py-2 text-center">
+        <div className="flex justify-center gap-1.5">
+          {layout.lanes.map((lane, index) => (
+            <span
+              key={index}
+              className="h-2.5 w-2.5 rounded-full"
+              style={{ backgroundColor: LANE_COLORS[lane.color].arrow }}
+              title={lane.label}
+            />
+          ))}
+        </div>
+        <div className="mt-1 text-xs text-white/50">{layout.label}</div>
+      </div>
+
       {/* CSS keyframes for animations */}
       <style jsx>{`
         @keyframes score-pop {
@@ -0,0 +1,343 @@
+'use client';
+
+import { useState } from 'react';
+import { useSongPreview } from '@/hooks/useSongPreview';
+import { parseSeed } from '@/lib/random';
+import type { Chart, DifficultyLevel, SongInfo } from '@/lib/types';
+
+// What the player picked to dance to
+export type SongSelection =
+  | { kind: 'library'; songId: string }
+  | { kind: 'custom' }
+  | { kind: 'freestyle' };
+
+interface SongSelectScreenProps {
+  /** Songs from the library manifest */
+  songs: SongInfo[];
+  /** Whether the library is loading */
+  isLoading: boolean;
+  /** Library load error */
+  libraryError: string | null;
+  /** Current selection */
+  selection: SongSelection;
+  /** Callback when a song is selected */
+  onSelect: (selection: SongSelection) => void;
+  /** Current difficulty level */
+  difficulty: DifficultyLevel;
+  /** Callback when the difficulty changes */
+  onDifficultyChange: (difficulty: DifficultyLevel) => void;
+  /** Best score lookup for a song at a difficulty */
+  getBestScore: (songId: string, difficulty: DifficultyLevel) => number;
+  /** Chart generated from the player's own song */
+  customChart: Chart | null;
+  /** Callback when the player picks an audio file to generate a chart from */
+  onSongFile: (file: File) => void;
+  /** Whether a chart is being generated */
+  isGeneratingChart: boolean;
+  /** Chart generation error */
+  chartGenerationError: string | null;
+  /** Whether the selected song's chart is loading */
+  isLoadingChart: boolean;
+  /** Error loading the selected song's chart */
+  chartLoadError: string | null;
+  /** Callback when "Start" is clicked, with the entered freestyle seed (if any) */
+  onStart: (seed?: number) => void;
+  /** Callback when "Back" is clicked */
+  onBack: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Format milliseconds to m:ss
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function getDifficultyClasses(level: DifficultyLevel, active: boolean): string {
+  if (!active) {
+    return 'border border-white/20 text-white/70 hover:border-white/40';
+  }
+  if (level === 'easy') return 'bg-green-500/30 text-green-400 border-2 border-green-500';
+  if (level === 'medium') return 'bg-yellow-500/30 text-yellow-400 border-2 border-yellow-500';
+  return 'bg-red-500/30 text-red-400 border-2 border-red-500';
+}
+
+/**
+ * SongSelectScreen - Pick a library song, the player's own song or freestyle
+ *
+ * Shows each song's details, chart availability and best score for the
+ * current difficulty, with an audio preview button.
+ */
+export function SongSelectScreen({
+  songs,
+  isLoading,
+  libraryError,
+  selection,
+  onSelect,
+  difficulty,
+  onDifficultyChange,
+  getBestScore,
+  customChart,
+  onSongFile,
+  isGeneratingChart,
+  chartGenerationError,
+  isLoadingChart,
+  chartLoadError,
+  onStart,
+  onBack,
+  className = '',
+}: SongSelectScreenProps) {
+  const { playingId, play: playPreview, stop: stopPreview, canPreview } = useSongPreview();
+  const [seedText, setSeedText] = useState('');
+
+  // Freestyle can replay a run from its seed (blank picks a new one)
+  const seed = seedText.trim() ? parseSeed(seedText) : undefined;
+  const isSeedValid = seed !== null;
+
+  const selectedSong =
+    selection.kind === 'library' ? songs.find((song) => song.id === selection.songId) : undefined;
+  const canStart =
+    !isLoadingChart &&
+    !chartLoadError &&
+    (selection.kind !== 'library' || Boolean(selectedSong?.charts[difficulty])) &&
+    (selection.kind !== 'custom' || customChart !== null) &&
+    (selection.kind !== 'freestyle' || isSeedValid);
+
+  const handleStart = () => {
+    stopPreview();
+    onStart(selection.kind === 'freestyle' && seed !== null ? seed : undefined);
+  };
+
+  const handleBack = () => {
+    stopPreview();
+    onBack();
+  };
+
+  const cardClasses = (selected: boolean) =>
+    `glass-card w-full rounded-2xl p-4 text-left transition-all ${
+      selected ? 'border-2 border-sonic-speed' : 'border border-transparent hover:border-white/30'
+    }`;
+
+  return (
+    <div className={`flex min-h-screen flex-col items-center justify-center p-4 ${className}`}>
+      <div className="w-full max-w-lg">
+        <h1 className="neon-text mb-6 text-center text-4xl font-bold">Choose a Song</h1>
+
+        {/* Difficulty selection */}
+        <div className="mb-6 grid grid-cols-3 gap-3">
+          {DIFFICULTY_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => onDifficultyChange(level)}
+              className={`rounded-xl px-4 py-2 font-semibold transition-all ${getDifficultyClasses(
+                level,
+                difficulty === level
+              )}`}
+            >
+              {level.charAt(0).toUpperCase() + level.slice(1)}
+            </button>
+          ))}
+        </div>
+
+        {/* Song list */}
+        <div className="mb-6 max-h-[50vh] space-y-3 overflow-y-auto pr-1">
+          {isLoading && <p className="text-center text-sm text-white/50">Loading songs...</p>}
+          {libraryError && <p className="text-center text-sm text-red-400">{libraryError}</p>}
+
+          {songs.map((song) => {
+            const isSelected = selection.kind === 'library' && selection.songId === song.id;
+            const bestScore = getBestScore(song.id, difficulty);
+            const hasChart = Boolean(song.charts[difficulty]);
+
+            return (
+              <div
+                key={song.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect({ kind: 'library', songId: song.id })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelect({ kind: 'library', songId: song.id });
+                  }
+                }}
+                className={`${cardClasses(isSelected)} cursor-pointer`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="truncate font-semibold text-white">{song.title}</div>
+                    <div className="truncate text-sm text-white/60">{song.artist}</div>
+                    <div className="mt-1 text-xs text-white/40">
+                      {song.bpm} BPM · {formatDuration(song.duration)}
+                    </div>
+                  </div>
+
+                  {canPreview(song) ? (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (playingId === song.id) {
+                          stopPreview();
+                        } else {
+                          playPreview(song);
+                        }
+                      }}
+                      className={`shrink-0 rounded-lg px-3 py-1 text-sm font-semibold transition-all ${
+                        playingId === song.id
+                          ? 'bg-sonic-speed/30 text-sonic-speed'
+                          : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      }`}
+                    >
+                      {playingId === song.id ? '■ Stop' : '▶ Preview'}
+                    </button>
+                  ) : (
+                    <span className="shrink-0 px-3 py-1 text-xs text-white/40">No music</span>
+                  )}
+                </div>
+
+                <div className="mt-3 flex items-center justify-between text-xs">
+                  <div className="flex gap-2">
+                    {DIFFICULTY_LEVELS.map((level) => (
+                      <span
+                        key={level}
+                        className={`rounded px-2 py-0.5 ${
+                          song.charts[level] ? 'bg-white/10 text-white/70' : 'text-white/20 line-through'
+                        }`}
+                      >
+                        {level}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-white/50">
+                    {!hasChart
+                      ? `No ${difficulty} chart`
+                      : bestScore > 0
+                        ? `Best: ${bestScore.toLocaleString()}`
+                        : 'Not played yet'}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Custom song: generate a chart from a local audio file */}
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={() => customChart && onSelect({ kind: 'custom' })}
+            onKeyDown={(e) => {
+              if (customChart && (e.key === 'Enter' || e.key === ' ')) {
+                e.preventDefault();
+                onSelect({ kind: 'custom' });
+              }
+            }}
+            className={`${cardClasses(selection.kind === 'custom')} ${customChart ? 'cursor-pointer' : ''}`}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="font-semibold text-white">My Song</div>
+                <div className="truncate text-sm text-white/60">
+                  {customChart
+                    ? `${customChart.song.title} (${customChart.notes.length} notes, ${customChart.bpm} BPM)`
+                    : 'Generate a chart from an audio file'}
+                </div>
+              </div>
+              <label
+                onClick={(e) => e.stopPropagation()}
+                className={`shrink-0 cursor-pointer rounded-lg px-4 py-2 text-sm font-semibold transition-all ${
+                  isGeneratingChart
+                    ? 'bg-white/10 text-white/40 cursor-wait'
+                    : 'bg-white/10 text-white/70 hover:bg-white/20'
+                }`}
+              >
+                {isGeneratingChart ? 'Analyzing...' : 'Use My Song'}
+                <input
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  disabled={isGeneratingChart}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) {
+                      onSongFile(file);
+                    }
+                  }}
+                />
+              </label>
+            </div>
+            {chartGenerationError && (
+              <p className="mt-2 text-xs text-red-400">{chartGenerationError}</p>
+            )}
+          </div>
+
+          {/* Freestyle: random arrows, no song */}
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={() => onSelect({ kind: 'freestyle' })}
+            onKeyDown={(e) => {
+              if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+                e.preventDefault();
+                onSelect({ kind: 'freestyle' });
+              }
+            }}
+            className={`${cardClasses(selection.kind === 'freestyle')} cursor-pointer`}
+          >
+            <div className="font-semibold text-white">Freestyle</div>
+            <div className="text-sm text-white/60">Random arrows, no song</div>
+
+            {selection.kind === 'freestyle' && (
+              <div className="mt-3 flex items-center gap-2">
+                <label htmlFor="freestyle-seed" className="text-xs text-white/50">
+                  Seed
+                </label>
+                <input
+                  id="freestyle-seed"
+                  type="text"
+                  value={seedText}
+                  onChange={(e) => setSeedText(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  placeholder="Random"
+                  maxLength={8}
+                  className={`w-28 rounded-lg bg-white/10 px-2 py-1 font-mono text-sm uppercase text-white placeholder:normal-case placeholder:text-white/30 ${
+                    isSeedValid ? 'border border-white/20' : 'border border-red-400'
+                  }`}
+                />
+                {!isSeedValid && (
+                  <span className="text-xs text-red-400">Use up to 8 hex digits</span>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {chartLoadError && (
+          <p className="mb-4 text-center text-sm text-red-400">{chartLoadError}</p>
+        )}
+
+        {/* Start button */}
+        <button
+          onClick={handleStart}
+          disabled={!canStart}
+          className="w-full rounded-xl bg-sonic-speed px-8 py-4 text-xl font-bold text-background transition-all hover:bg-sonic-speed/80 hover:scale-105 active:scale-95 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+        >
+          {isLoadingChart ? 'Loading...' : 'Start Game'}
+        </button>
+
+        {/* Back button */}
+        <button
+          onClick={handleBack}
+          className="mt-4 w-full rounded-xl border border-white/20 px-8 py-3 font-semibold text-white/70 transition-all hover:border-white/40 hover:text-white"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ interface WebcamFeedProps {
   videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
   pose: PoseResult | null;
+  /** Unfiltered pose, drawn under the pose to compare smoothing */
+  rawPose?: PoseResult | null;
   showSkeleton?: boolean;
   mirrored?: boolean;
   onCameraStateChange?: (state: CameraState) => void;
@@ -22,10 +24,85 @@ const SKELETON_COLORS = {
   hipHighlight: 'rgba(0, 217, 255, 1)', // Highlighted for jump detection
 };
 
+// Skeleton colors for unfiltered poses (smoothing debug view)
+export const RAW_SKELETON_COLORS: typeof SKELETON_COLORS = {
+  connection: 'rgba(255, 80, 80, 0.5)',
+  landmark: 'rgba(255, 80, 80, 0.7)',
+  wristHighlight: 'rgba(255, 80, 80, 0.9)',
+  hipHighlight: 'rgba(255, 80, 80, 0.9)',
+};
+
+/**
+ * Draw a pose skeleton (bones and joints) onto a canvas
+ * (on top of what's there; clear the canvas first for a new frame)
+ */
+export function drawPoseSkeleton(
+  ctx: CanvasRenderingContext2D,
+  pose: PoseResult,
+  width: number,
+  height: number,
+  mirrored: boolean,
+  colors: typeof SKELETON_COLORS = SKELETON_COLORS
+) {
+  // Handle mirroring
+  if (mirrored) {
+    ctx.save();
+    ctx.scale(-1, 1);
+    ctx.translate(-width, 0);
+  }
+
+  // Draw connections (bones)
+  ctx.strokeStyle = colors.connection;
+  ctx.lineWidth = 3;
+
+  for (const [startIdx, endIdx] of POSE_CONNECTIONS) {
+    const start = pose.landmarks[startIdx];
+    const end = pose.landmarks[endIdx];
+
+    if (start && end && (start.visibility ?? 1) > 0.5 && (end.visibility ?? 1) > 0.5) {
+      ctx.beginPath();
+      ctx.moveTo(start.x * width, start.y * height);
+      ctx.lineTo(end.x * width, end.y * height);
+      ctx.stroke();
+    }
+  }
+
+  // Draw landmarks (joints)
+  const drawLandmark = (landmark: Landmark, color: string, radius: number) => {
+    if (!landmark || (landmark.visibility ?? 1) < 0.5) return;
+
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(landmark.x * width, landmark.y * height, radius, 0, 2 * Math.PI);
+    ctx.fill();
+  };
+
+  // Draw all landmarks
+  pose.landmarks.forEach((landmark, index) => {
+    // Highlight important landmarks for the game
+    const isWrist =
+      index === POSE_LANDMARKS.LEFT_WRIST || index === POSE_LANDMARKS.RIGHT_WRIST;
+    const isHip = index === POSE_LANDMARKS.LEFT_HIP || index === POSE_LANDMARKS.RIGHT_HIP;
+
+    if (isWrist) {
+      drawLandmark(landmark, colors.wristHighlight, 10);
+    } else if (isHip) {
+      drawLandmark(landmark, colors.hipHighlight, 8);
+    } else {
+      drawLandmark(landmark, colors.landmark, 5);
+    }
+  });
+
+  if (mirrored) {
+    ctx.restore();
+  }
+}
+
 export function WebcamFeed({
   videoRef,
   canvasRef,
   pose,
+  rawPose = null,
   showSkeleton = true,
   mirrored = true,
   onCameraStateChange,
@@ -128,66 +205,15 @@ export function WebcamFeed({
 
     const video = videoRef.current;
 
-    // Match canvas size to video
+    // Match canvas size to video (which also clears it)
     canvas.width = video.videoWidth || 640;
     canvas.height = video.videoHeight || 480;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Handle mirroring
-    if (mirrored) {
-      ctx.save();
-      ctx.scale(-1, 1);
-      ctx.translate(-canvas.width, 0);
-    }
-
-    // Draw connections (bones)
-    ctx.strokeStyle = SKELETON_COLORS.connection;
-    ctx.lineWidth = 3;
-
-    for (const [startIdx, endIdx] of POSE_CONNECTIONS) {
-      const start = pose.landmarks[startIdx];
-      const end = pose.landmarks[endIdx];
-
-      if (start && end && (start.visibility ?? 1) > 0.5 && (end.visibility ?? 1) > 0.5) {
-        ctx.beginPath();
-        ctx.moveTo(start.x * canvas.width, start.y * canvas.height);
-        ctx.lineTo(end.x * canvas.width, end.y * canvas.height);
-        ctx.stroke();
-      }
-    }
-
-    // Draw landmarks (joints)
-    const drawLandmark = (landmark: Landmark, color: string, radius: number) => {
-      if (!landmark || (landmark.visibility ?? 1) < 0.5) return;
-
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.arc(landmark.x * canvas.width, landmark.y * canvas.height, radius, 0, 2 * Math.PI);
-      ctx.fill();
-    };
-
-    // Draw all landmarks
-    pose.landmarks.forEach((landmark, index) => {
-      // Highlight important landmarks for the game
-      const isWrist =
-        index === POSE_LANDMARKS.LEFT_WRIST || index === POSE_LANDMARKS.RIGHT_WRIST;
-      const isHip = index === POSE_LANDMARKS.LEFT_HIP || index === POSE_LANDMARKS.RIGHT_HIP;
-
-      if (isWrist) {
-        drawLandmark(landmark, SKELETON_COLORS.wristHighlight, 10);
-      } else if (isHip) {
-        drawLandmark(landmark, SKELETON_COLORS.hipHighlight, 8);
-      } else {
-        drawLandmark(landmark, SKELETON_COLORS.landmark, 5);
-      }
-    });
-
-    if (mirrored) {
-      ctx.restore();
+    if (rawPose) {
+      drawPoseSkeleton(ctx, rawPose, canvas.width, canvas.height, mirrored, RAW_SKELETON_COLORS);
     }
-  }, [pose, showSkeleton, canvasRef, videoRef, mirrored]);
+    drawPoseSkeleton(ctx, pose, canvas.width, canvas.height, mirrored);
+  }, [pose, rawPose, showSkeleton, canvasRef, videoRef, mirrored]);
 
   // Render based on camera state
   const renderContent = () => {
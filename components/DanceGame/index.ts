@@ -1,8 +1,12 @@
 export { WebcamFeed } from './WebcamFeed';
 export { PoseDetector } from './PoseDetector';
+export { PoseSessionControls } from './PoseSessionControls';
 export { CalibrationScreen } from './CalibrationScreen';
 export { GestureRecognizer, GestureIndicator } from './GestureRecognizer';
 export { DanceGame } from './DanceGame';
 export { GameCanvas } from './GameCanvas';
+export { PoseSilhouette } from './PoseSilhouette';
 export { ScoreDisplay, ScoreOverlay } from './ScoreDisplay';
 export { GameOverModal } from './GameOverModal';
+export { SongSelectScreen } from './SongSelectScreen';
+export { ProfileSelectScreen } from './ProfileSelectScreen';
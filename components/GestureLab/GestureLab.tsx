@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { DEFAULT_GESTURE_OPTIONS } from '@/lib/gestureDetection';
+import {
+  evaluateGestureFixtures,
+  formatGestureEvaluationReport,
+  formatRate,
+  validateGestureFixture,
+  type GestureEvaluationOptions,
+  type GestureFixture,
+} from '@/lib/gestureEvaluation';
+import {
+  DEFAULT_LANDMARK_FILTER_OPTIONS,
+  LANDMARK_FILTER_TYPES,
+  type LandmarkFilterOptions,
+} from '@/lib/landmarkFilter';
+import { GESTURE_FIXTURE_FILES } from '@/fixtures/gestures';
+
+interface GestureLabProps {
+  /** Callback when leaving the lab */
+  onBack?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// Threshold inputs (distances in torso lengths)
+const OPTION_FIELDS: { key: keyof GestureEvaluationOptions; label: string; step: number }[] = [
+  { key: 'waveThreshold', label: 'Wave threshold (torsos)', step: 0.02 },
+  { key: 'waveTimeWindow', label: 'Wave window (ms)', step: 50 },
+  { key: 'clapThreshold', label: 'Clap threshold (torsos)', step: 0.02 },
+  { key: 'tPoseTolerance', label: 'T-pose tolerance (torsos)', step: 0.02 },
+  { key: 'jumpThreshold', label: 'Jump threshold (torsos)', step: 0.02 },
+  { key: 'kickThreshold', label: 'Kick threshold (torsos)', step: 0.02 },
+  { key: 'squatThreshold', label: 'Squat threshold (torsos)', step: 0.02 },
+  { key: 'leanThreshold', label: 'Lean threshold (°)', step: 1 },
+  { key: 'turnThreshold', label: 'Turn threshold', step: 0.05 },
+  { key: 'debounceTime', label: 'Debounce (ms)', step: 50 },
+  { key: 'jumpDebounceTime', label: 'Jump debounce (ms)', step: 50 },
+];
+
+/**
+ * Parse the checked-in fixtures, collecting errors for invalid ones
+ */
+function loadFixtures(): { fixtures: GestureFixture[]; errors: string[] } {
+  const fixtures: GestureFixture[] = [];
+  const errors: string[] = [];
+
+  GESTURE_FIXTURE_FILES.forEach((data, index) => {
+    const result = validateGestureFixture(data);
+    if (result.valid) {
+      fixtures.push(result.fixture);
+    } else {
+      errors.push(`Fixture ${index}: ${result.errors.join('; ')}`);
+    }
+  });
+
+  return { fixtures, errors };
+}
+
+/**
+ * GestureLab - Runs gesture detection over the labeled pose fixtures and
+ * reports precision/recall per gesture, for tuning detection thresholds
+ */
+export function GestureLab({ onBack, className = '' }: GestureLabProps) {
+  const [{ fixtures, errors }] = useState(loadFixtures);
+  const [options, setOptions] = useState<GestureEvaluationOptions>({ ...DEFAULT_GESTURE_OPTIONS });
+  const [filter, setFilter] = useState<LandmarkFilterOptions>(DEFAULT_LANDMARK_FILTER_OPTIONS);
+
+  const report = useMemo(
+    () => evaluateGestureFixtures(fixtures, options, filter),
+    [fixtures, options, filter]
+  );
+
+  return (
+    <div className={`flex min-h-screen flex-col gap-4 p-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="neon-text text-3xl font-bold">Gesture Lab</h1>
+        <div className="flex gap-3">
+          <button
+            onClick={() => console.log(formatGestureEvaluationReport(report))}
+            className="rounded-lg bg-white/10 px-4 py-2 text-sm font-semibold text-white/70 transition-all hover:bg-white/20"
+          >
+            Log Report
+          </button>
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="rounded-lg border border-white/20 px-4 py-2 text-sm text-white/70 transition-all hover:border-white/40 hover:text-white"
+            >
+              Back to Game
+            </button>
+          )}
+        </div>
+      </div>
+
+      {errors.map((error) => (
+        <p key={error} className="text-sm text-red-400">
+          {error}
+        </p>
+      ))}
+
+      {/* Detection thresholds */}
+      <div className="glass-card grid grid-cols-2 gap-3 rounded-2xl p-4 text-sm md:grid-cols-4">
+        {OPTION_FIELDS.map(({ key, label, step }) => (
+          <label key={key} className="flex flex-col gap-1 text-white/60">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step={step}
+              value={options[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= 0) {
+                  setOptions((prev) => ({ ...prev, [key]: value }));
+                }
+              }}
+              className="rounded-lg bg-white/10 px-3 py-2 text-white"
+            />
+          </label>
+        ))}
+        <label className="flex flex-col gap-1 text-white/60">
+          Landmark smoothing
+          <select
+            value={filter.type}
+            onChange={(e) =>
+              setFilter({
+                ...DEFAULT_LANDMARK_FILTER_OPTIONS,
+                type: e.target.value as LandmarkFilterOptions['type'],
+              })
+            }
+            className="rounded-lg bg-white/10 px-3 py-2 text-white"
+          >
+            {LANDMARK_FILTER_TYPES.map(({ type, label }) => (
+              <option key={type} value={type} className="bg-background">
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Totals per gesture */}
+      <div className="glass-card rounded-2xl p-4">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wider text-white/50">
+            <tr>
+              <th className="py-1">Gesture</th>
+              <th>Precision</th>
+              <th>Recall</th>
+              <th>TP</th>
+              <th>FP</th>
+              <th>FN</th>
+            </tr>
+          </thead>
+          <tbody className="text-white">
+            {Object.entries(report.totals).map(([gesture, score]) => (
+              <tr key={gesture} className="border-t border-white/10">
+                <td className="py-1 font-semibold">{gesture}</td>
+                <td className="text-sonic-speed">{formatRate(score.precision)}</td>
+                <td className="text-sonic-accent">{formatRate(score.recall)}</td>
+                <td>{score.truePositives}</td>
+                <td className={score.falsePositives > 0 ? 'text-red-400' : ''}>
+                  {score.falsePositives}
+                </td>
+                <td className={score.falseNegatives > 0 ? 'text-red-400' : ''}>
+                  {score.falseNegatives}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Per-fixture results */}
+      <div className="grid gap-3 md:grid-cols-2">
+        {report.fixtures.map((result, index) => {
+          const labels = fixtures[index].labels;
+          const passed = Object.values(result.scores).every(
+            (score) => score.falsePositives === 0 && score.falseNegatives === 0
+          );
+
+          return (
+            <div
+              key={result.name}
+              className={`glass-card rounded-2xl border p-4 text-sm ${
+                passed ? 'border-green-500/40' : 'border-red-500/40'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-white">{result.name}</span>
+                <span className={passed ? 'text-green-400' : 'text-red-400'}>
+                  {passed ? 'Pass' : 'Fail'}
+                </span>
+              </div>
+              <p className="mb-2 text-xs text-white/50">{result.description}</p>
+              <div className="text-xs text-white/60">
+                Expected:{' '}
+                {labels.length > 0
+                  ? labels.map((l) => `${l.gesture} ${l.start}-${l.end}ms`).join(', ')
+                  : 'nothing'}
+              </div>
+              <div className="text-xs text-white/60">
+                Detected:{' '}
+                {result.detections.length > 0
+                  ? result.detections.map((d) => `${d.gesture} @${d.time}ms`).join(', ')
+                  : 'nothing'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { GestureLab } from './GestureLab';
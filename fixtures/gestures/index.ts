@@ -0,0 +1,45 @@
+/**
+ * Labeled gesture fixtures for evaluating gesture detection
+ * (see lib/gestureEvaluation for the file format)
+ */
+
+import idleSway from './idle-sway.json';
+import cleanWaveLeft from './clean-wave-left.json';
+import cleanWaveRight from './clean-wave-right.json';
+import halfWaveLeft from './half-wave-left.json';
+import halfWaveRight from './half-wave-right.json';
+import clap from './clap.json';
+import armsUp from './arms-up.json';
+import tPose from './t-pose.json';
+import jump from './jump.json';
+import kickLeft from './kick-left.json';
+import kickRight from './kick-right.json';
+import squat from './squat.json';
+import leanLeft from './lean-left.json';
+import leanRight from './lean-right.json';
+import turnLeft from './turn-left.json';
+import turnRight from './turn-right.json';
+import walkToward from './walk-toward.json';
+import recordedWaveJump from './recorded-wave-jump.json';
+
+// Raw fixture data, validated by parseGestureFixture
+export const GESTURE_FIXTURE_FILES: unknown[] = [
+  idleSway,
+  cleanWaveLeft,
+  cleanWaveRight,
+  halfWaveLeft,
+  halfWaveRight,
+  clap,
+  armsUp,
+  tPose,
+  jump,
+  kickLeft,
+  kickRight,
+  squat,
+  leanLeft,
+  leanRight,
+  turnLeft,
+  turnRight,
+  walkToward,
+  recordedWaveJump,
+];
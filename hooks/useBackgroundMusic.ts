@@ -1,6 +1,7 @@
 'use client';
 
 import { useRef, useState, useCallback, useEffect } from 'react';
+import type { GameClock } from '@/lib/gameClock';
 
 interface UseBackgroundMusicOptions {
   /** Music file path */
@@ -11,6 +12,8 @@ interface UseBackgroundMusicOptions {
   loop?: boolean;
   /** Auto-play when component mounts */
   autoPlay?: boolean;
+  /** Game clock to drive from this music's playback position */
+  clock?: GameClock;
 }
 
 interface UseBackgroundMusicReturn {
@@ -26,34 +29,66 @@ interface UseBackgroundMusicReturn {
   toggle: () => void;
   /** Set volume (0-1) */
   setVolume: (volume: number) => void;
+  /** Whether music is muted (keeps playing, so the game clock keeps running) */
+  muted: boolean;
+  /** Toggle mute */
+  toggleMute: () => void;
   /** Whether audio is loaded and ready */
   isReady: boolean;
+  /** Song length in ms (0 until known) */
+  duration: number;
 }
 
 /**
  * Hook for playing background music
+ *
+ * When a game clock is given, the audio element is attached to it so the
+ * clock can start, pause and follow the music during gameplay.
  */
 export function useBackgroundMusic({
   src,
   volume: initialVolume = 0.5,
   loop = true,
   autoPlay = false,
+  clock,
 }: UseBackgroundMusicOptions): UseBackgroundMusicReturn {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolumeState] = useState(initialVolume);
   const [isReady, setIsReady] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [duration, setDuration] = useState(0);
+  // Volume for a new audio element (kept across src changes)
+  const volumeRef = useRef(initialVolume);
 
-  // Initialize audio element
+  // Initialize audio element (none until a source is given)
   useEffect(() => {
+    if (!src) {
+      return;
+    }
+
     const audio = new Audio(src);
     audio.loop = loop;
-    audio.volume = initialVolume;
+    audio.volume = volumeRef.current;
 
     audio.addEventListener('canplaythrough', () => {
       setIsReady(true);
     });
 
+    audio.addEventListener('loadedmetadata', () => {
+      setDuration(Number.isFinite(audio.duration) ? audio.duration * 1000 : 0);
+    });
+
+    // Track playback from element events, since the game clock may also
+    // start and pause the audio
+    audio.addEventListener('playing', () => {
+      setIsPlaying(true);
+    });
+
+    audio.addEventListener('pause', () => {
+      setIsPlaying(false);
+    });
+
     audio.addEventListener('ended', () => {
       if (!loop) {
         setIsPlaying(false);
@@ -65,13 +100,17 @@ export function useBackgroundMusic({
     });
 
     audioRef.current = audio;
+    clock?.setAudio(audio);
 
     return () => {
+      setIsReady(false);
+      setDuration(0);
+      clock?.setAudio(null);
       audio.pause();
       audio.src = '';
       audioRef.current = null;
     };
-  }, [src, loop, initialVolume]);
+  }, [src, loop, clock]);
 
   // Handle autoplay (needs user interaction first on most browsers)
   useEffect(() => {
@@ -85,9 +124,7 @@ export function useBackgroundMusic({
 
   const play = useCallback(() => {
     if (audioRef.current && isReady) {
-      audioRef.current.play().then(() => {
-        setIsPlaying(true);
-      }).catch((err) => {
+      audioRef.current.play().catch((err) => {
         console.error('Play error:', err);
       });
     }
@@ -96,7 +133,6 @@ export function useBackgroundMusic({
   const pause = useCallback(() => {
     if (audioRef.current) {
       audioRef.current.pause();
-      setIsPlaying(false);
     }
   }, []);
 
@@ -111,11 +147,23 @@ export function useBackgroundMusic({
   const setVolume = useCallback((newVolume: number) => {
     const clampedVolume = Math.max(0, Math.min(1, newVolume));
     setVolumeState(clampedVolume);
+    volumeRef.current = clampedVolume;
     if (audioRef.current) {
       audioRef.current.volume = clampedVolume;
     }
   }, []);
 
+  const toggleMute = useCallback(() => {
+    setMuted((prev) => !prev);
+  }, []);
+
+  // Apply mute to the current audio element (including after src changes)
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.muted = muted;
+    }
+  }, [muted, src]);
+
   return {
     isPlaying,
     volume,
@@ -123,6 +171,9 @@ export function useBackgroundMusic({
     pause,
     toggle,
     setVolume,
+    muted,
+    toggleMute,
     isReady,
+    duration,
   };
 }
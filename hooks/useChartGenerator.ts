@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { Chart } from '@/lib/types';
+import {
+  generateChartFromFile,
+  type ChartGenerationOptions,
+} from '@/lib/chartGenerator';
+
+interface UseChartGeneratorReturn {
+  /** Analyze an audio file and generate a chart (null on failure) */
+  generate: (file: File, options?: ChartGenerationOptions) => Promise<Chart | null>;
+  /** Whether an analysis is running */
+  isGenerating: boolean;
+  /** Error message from the last generation attempt */
+  error: string | null;
+}
+
+/**
+ * Hook for generating charts from local audio files in the browser
+ */
+export function useChartGenerator(): UseChartGeneratorReturn {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = useCallback(
+    async (file: File, options?: ChartGenerationOptions): Promise<Chart | null> => {
+      setIsGenerating(true);
+      setError(null);
+
+      try {
+        return await generateChartFromFile(file, options);
+      } catch (err) {
+        console.error('Chart generation failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to analyze audio file');
+        return null;
+      } finally {
+        setIsGenerating(false);
+      }
+    },
+    []
+  );
+
+  return {
+    generate,
+    isGenerating,
+    error,
+  };
+}
@@ -8,39 +8,41 @@ import type {
   DifficultyLevel,
   HitResult,
   GestureEvent,
+  Chart,
+  SpawnMode,
+  HeldGestures,
+  JudgementWindows,
+  GameMode,
+  Landmark,
 } from '@/lib/types';
-import {
-  DIFFICULTY_SETTINGS,
-  HIT_ZONE,
-  GESTURE_TO_LANE,
-  calculateHitScore,
-  getHitRating,
-  isInHitZone,
-  hasMissedHitZone,
-  selectRandomPattern,
-  getComboMultiplier,
-} from '@/lib/gameConstants';
-
-// Initial game state
-const createInitialGameState = (difficulty: DifficultyLevel): GameState => ({
-  status: 'idle',
-  score: 0,
-  combo: 0,
-  maxCombo: 0,
-  perfectHits: 0,
-  goodHits: 0,
-  misses: 0,
-  arrows: [],
-  difficulty,
-});
+import { GAME_TIMING, getComboMultiplier } from '@/lib/gameConstants';
+import { createGameClock, type GameClock } from '@/lib/gameClock';
+import { createGameSimulation, type GameSimulation } from '@/lib/gameSimulation';
+import type { LaneLayout } from '@/lib/laneLayouts';
 
 interface UseGameEngineOptions {
   /** Initial difficulty level */
   initialDifficulty?: DifficultyLevel;
-  /** Callback when an arrow is hit */
+  /** Chart to play; when omitted, arrows are spawned randomly (freestyle mode) */
+  chart?: Chart | null;
+  /** Shared clock providing song time (e.g. driven by useBackgroundMusic) */
+  clock?: GameClock;
+  /** Song length in ms; the session ends with the song */
+  songDuration?: number;
+  /** Session time limit in ms (e.g. for freestyle mode) */
+  timeLimit?: number;
+  /** Judgement window overrides in ms (applies from the next start) */
+  judgementWindows?: Partial<JudgementWindows>;
+  /** Lane layout for freestyle mode; charts use their own (applies from the next start) */
+  layout?: LaneLayout;
+  /** Dance with gestures, or strike target poses (applies from the next start) */
+  mode?: GameMode;
+  /** Callback when an arrow is hit (pose notes when their hit window closes) */
   onHit?: (result: HitResult) => void;
-  /** Callback when an arrow is missed */
+  /** Callback when an arrow is missed (too late, or hit far too early) */
   onMiss?: (arrow: Arrow) => void;
+  /** Callback when a hold note is completed or released early, with its hold bonus */
+  onHoldEnd?: (arrow: Arrow, score: number) => void;
   /** Callback when combo changes */
   onComboChange?: (combo: number, multiplier: number) => void;
   /** Callback when game ends */
@@ -50,13 +52,13 @@ interface UseGameEngineOptions {
 interface UseGameEngineReturn {
   /** Current game state */
   gameState: GameState;
-  /** Start the game (with countdown) */
-  start: () => void;
+  /** Start the game (with countdown); the same seed replays the same arrow sequence */
+  start: (seed?: number) => void;
   /** Pause the game */
   pause: () => void;
   /** Resume the game */
   resume: () => void;
-  /** End the game */
+  /** End the game (called automatically when the session is over) */
   end: () => void;
   /** Reset the game to initial state */
   reset: () => void;
@@ -64,243 +66,202 @@ interface UseGameEngineReturn {
   setDifficulty: (difficulty: DifficultyLevel) => void;
   /** Process a gesture event (call this when a gesture is detected) */
   processGesture: (gesture: GestureEvent) => HitResult;
+  /** Update which gesture poses are held (call when they change, for hold notes) */
+  setHeldGestures: (held: HeldGestures) => void;
+  /** Match the player's landmarks against open pose notes, returning the closest one's similarity (0-1) */
+  matchPose: (landmarks: Landmark[]) => number | null;
   /** Get current combo multiplier */
   comboMultiplier: number;
+  /** Whether arrows come from a chart or random patterns */
+  spawnMode: SpawnMode;
   /** Countdown value (3, 2, 1, or null if not in countdown) */
   countdown: number | null;
   /** Game duration in milliseconds */
   gameDuration: number;
   /** Final game statistics (available after game ends) */
   finalStats: GameStats | null;
+  /** Random seed of the current game (null before the first start) */
+  seed: number | null;
 }
 
 /**
  * Game engine hook for the motion dance game
  *
- * Manages:
- * - Arrow spawning based on difficulty patterns
- * - Game loop with requestAnimationFrame
- * - Hit detection and scoring
- * - Combo tracking
- * - Game statistics
+ * A thin React adapter over the headless game simulation (lib/gameSimulation),
+ * which owns spawning, movement, misses, hold notes, combo and scoring. This
+ * hook drives it from a requestAnimationFrame loop timed by the shared game
+ * clock, mirrors its state into React, and dispatches its events to the
+ * callbacks. The game ends by itself once the chart, song or time limit is
+ * over and the remaining arrows have been played.
  */
 export function useGameEngine(
   options: UseGameEngineOptions = {}
 ): UseGameEngineReturn {
   const {
     initialDifficulty = 'easy',
+    chart = null,
+    clock: externalClock,
+    songDuration,
+    timeLimit,
+    judgementWindows,
+    layout,
+    mode,
     onHit,
     onMiss,
+    onHoldEnd,
     onComboChange,
     onGameEnd,
   } = options;
 
-  // Game state
-  const [gameState, setGameState] = useState<GameState>(() =>
-    createInitialGameState(initialDifficulty)
-  );
+  // Headless simulation holding the game rules and state
+  const [simulation] = useState<GameSimulation>(() => createGameSimulation(initialDifficulty));
+
+  // Game state (mirrored from the simulation)
+  const [gameState, setGameState] = useState<GameState>(() => simulation.getState());
   const [countdown, setCountdown] = useState<number | null>(null);
   const [gameDuration, setGameDuration] = useState(0);
   const [finalStats, setFinalStats] = useState<GameStats | null>(null);
+  const [seed, setSeed] = useState<number | null>(null);
+
+  // Fallback clock when none is shared with the music player
+  const [internalClock] = useState<GameClock>(createGameClock);
+  const clock = externalClock ?? internalClock;
 
   // Refs for game loop (to avoid stale closures)
-  const gameStateRef = useRef<GameState>(gameState);
+  const clockRef = useRef<GameClock>(clock);
   const animationFrameRef = useRef<number | null>(null);
-  const lastFrameTimeRef = useRef<number>(0);
-  const gameStartTimeRef = useRef<number>(0);
-  const lastSpawnTimeRef = useRef<number>(0);
-  const arrowIdCounterRef = useRef<number>(0);
-  const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const totalArrowsSpawnedRef = useRef<number>(0);
-  const gameLoopRef = useRef<(timestamp: number) => void>(() => {});
+  const gameLoopRef = useRef<() => void>(() => {});
+  const chartRef = useRef<Chart | null>(chart);
+  const sessionLimitsRef = useRef({ songDuration, timeLimit });
+  const judgementWindowsRef = useRef(judgementWindows);
+  const layoutRef = useRef(layout);
+  const modeRef = useRef(mode);
 
   // Callback refs
   const onHitRef = useRef(onHit);
   const onMissRef = useRef(onMiss);
+  const onHoldEndRef = useRef(onHoldEnd);
   const onComboChangeRef = useRef(onComboChange);
   const onGameEndRef = useRef(onGameEnd);
 
   // Keep refs in sync
   useEffect(() => {
-    gameStateRef.current = gameState;
-  }, [gameState]);
+    chartRef.current = chart;
+  }, [chart]);
+
+  useEffect(() => {
+    clockRef.current = clock;
+  }, [clock]);
+
+  useEffect(() => {
+    judgementWindowsRef.current = judgementWindows;
+  }, [judgementWindows]);
+
+  useEffect(() => {
+    layoutRef.current = layout;
+    modeRef.current = mode;
+  }, [layout, mode]);
+
+  // Session ends at the song end or time limit, whichever comes first
+  useEffect(() => {
+    sessionLimitsRef.current = { songDuration, timeLimit };
+    simulation.setSessionLimits(songDuration, timeLimit);
+  }, [simulation, songDuration, timeLimit]);
 
   useEffect(() => {
     onHitRef.current = onHit;
     onMissRef.current = onMiss;
+    onHoldEndRef.current = onHoldEnd;
     onComboChangeRef.current = onComboChange;
     onGameEndRef.current = onGameEnd;
-  }, [onHit, onMiss, onComboChange, onGameEnd]);
+  }, [onHit, onMiss, onHoldEnd, onComboChange, onGameEnd]);
 
-  // Generate a unique arrow ID
-  const generateArrowId = useCallback((): string => {
-    arrowIdCounterRef.current += 1;
-    return `arrow-${arrowIdCounterRef.current}-${Date.now()}`;
+  // Stop the game loop
+  const stopGameLoop = useCallback(() => {
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
   }, []);
 
-  // Spawn arrows based on pattern
-  const spawnArrows = useCallback(
-    (currentTime: number, difficulty: DifficultyLevel): Arrow[] => {
-      const settings = DIFFICULTY_SETTINGS[difficulty];
-      const timeSinceLastSpawn = currentTime - lastSpawnTimeRef.current;
-
-      if (timeSinceLastSpawn < settings.spawnInterval) {
-        return [];
+  // Publish simulation state to React, notifying combo changes
+  const syncState = useCallback(
+    (prevCombo: number) => {
+      const state = simulation.getState();
+      if (state.combo !== prevCombo) {
+        onComboChangeRef.current?.(state.combo, getComboMultiplier(state.combo));
       }
-
-      lastSpawnTimeRef.current = currentTime;
-
-      // Select a random pattern
-      const pattern = selectRandomPattern(difficulty);
-
-      // Create arrows from the pattern
-      const newArrows: Arrow[] = pattern.map((p) => ({
-        id: generateArrowId(),
-        lane: p.lane,
-        spawnTime: currentTime + p.delay,
-        position: 0,
-        hit: false,
-        missed: false,
-      }));
-
-      totalArrowsSpawnedRef.current += newArrows.length;
-
-      return newArrows;
+      setGameState(state);
     },
-    [generateArrowId]
+    [simulation]
   );
 
-  // Update arrow positions based on elapsed time
-  const updateArrowPositions = useCallback(
-    (arrows: Arrow[], currentTime: number, difficulty: DifficultyLevel): Arrow[] => {
-      const settings = DIFFICULTY_SETTINGS[difficulty];
+  // End the game
+  const end = useCallback(() => {
+    stopGameLoop();
 
-      return arrows.map((arrow) => {
-        if (arrow.hit || arrow.missed) {
-          return arrow;
-        }
+    // Stop the clock (and music), freezing the final song time
+    clockRef.current.stop();
 
-        // Calculate position based on time since spawn
-        const timeSinceSpawn = currentTime - arrow.spawnTime;
-        const position = Math.max(0, timeSinceSpawn / settings.arrowTravelTime);
+    const stats = simulation.end();
+    setFinalStats(stats);
+    setGameState(simulation.getState());
+    setCountdown(null);
 
-        return {
-          ...arrow,
-          position,
-        };
-      });
-    },
-    []
-  );
+    // Notify game end
+    onGameEndRef.current?.(stats);
+  }, [simulation, stopGameLoop]);
+
+  // Advance the simulation to the clock's song time and dispatch its events
+  // Returns false once the session has finished (and the game has ended)
+  const advance = useCallback((): boolean => {
+    const prevCombo = simulation.getState().combo;
+    const time = clockRef.current.getTime();
+    const events = simulation.tick(time - simulation.getTime());
+
+    let finished = false;
+    for (const event of events) {
+      if (event.type === 'miss') {
+        onMissRef.current?.(event.arrow);
+      } else if (event.type === 'hold-end') {
+        onHoldEndRef.current?.(event.arrow, event.score);
+      } else if (event.type === 'pose-hit') {
+        onHitRef.current?.(event.result);
+      } else {
+        finished = true;
+      }
+    }
 
-  // Check for missed arrows (past hit zone without being hit)
-  const checkMissedArrows = useCallback(
-    (
-      arrows: Arrow[]
-    ): { updatedArrows: Arrow[]; missCount: number; missedArrows: Arrow[] } => {
-      let missCount = 0;
-      const missedArrows: Arrow[] = [];
-
-      const updatedArrows = arrows.map((arrow) => {
-        if (arrow.hit || arrow.missed) {
-          return arrow;
-        }
-
-        if (hasMissedHitZone(arrow.position)) {
-          missCount += 1;
-          const missedArrow = {
-            ...arrow,
-            missed: true,
-            hitRating: 'miss' as const,
-          };
-          missedArrows.push(missedArrow);
-          return missedArrow;
-        }
-
-        return arrow;
-      });
+    syncState(prevCombo);
 
-      return { updatedArrows, missCount, missedArrows };
-    },
-    []
-  );
+    // Countdown is the negative part of the song clock
+    if (time < 0) {
+      setCountdown(Math.ceil(-time / 1000));
+    } else {
+      setCountdown(null);
+      setGameDuration(time);
+    }
 
-  // Clean up old arrows (remove arrows that are way past the screen)
-  const cleanupArrows = useCallback((arrows: Arrow[]): Arrow[] => {
-    // Keep arrows that are still visible or recently hit/missed
-    return arrows.filter((arrow) => {
-      // Remove arrows far past the bottom of the screen
-      if (arrow.position > 1.5) {
-        return false;
-      }
-      return true;
-    });
-  }, []);
+    if (finished) {
+      end();
+      return false;
+    }
+    return true;
+  }, [simulation, syncState, end]);
 
   // Initialize game loop in useEffect to avoid self-reference issues
   useEffect(() => {
-    gameLoopRef.current = (timestamp: number) => {
-      const state = gameStateRef.current;
-
-      if (state.status !== 'playing') {
+    gameLoopRef.current = () => {
+      const phase = clockRef.current.getPhase();
+      if (phase !== 'lead-in' && phase !== 'playing') {
         return;
       }
 
-      // Update last frame time
-      lastFrameTimeRef.current = timestamp;
-
-      // Update game duration
-      const currentGameDuration = timestamp - gameStartTimeRef.current;
-      setGameDuration(currentGameDuration);
-
-      // Spawn new arrows
-      const newArrows = spawnArrows(timestamp, state.difficulty);
-
-      // Update arrow positions
-      let updatedArrows = updateArrowPositions(
-        [...state.arrows, ...newArrows],
-        timestamp,
-        state.difficulty
-      );
-
-      // Check for missed arrows
-      const { updatedArrows: arrowsAfterMiss, missCount, missedArrows } =
-        checkMissedArrows(updatedArrows);
-      updatedArrows = arrowsAfterMiss;
-
-      // Notify about missed arrows
-      if (missCount > 0) {
-        for (const arrow of missedArrows) {
-          onMissRef.current?.(arrow);
-        }
+      if (advance()) {
+        animationFrameRef.current = requestAnimationFrame(gameLoopRef.current);
       }
-
-      // Clean up old arrows
-      updatedArrows = cleanupArrows(updatedArrows);
-
-      // Update state
-      setGameState((prev) => {
-        const newCombo = missCount > 0 ? 0 : prev.combo;
-        const prevCombo = prev.combo;
-
-        // Notify if combo changed
-        if (newCombo !== prevCombo) {
-          const newMultiplier = getComboMultiplier(newCombo);
-          onComboChangeRef.current?.(newCombo, newMultiplier);
-        }
-
-        return {
-          ...prev,
-          arrows: updatedArrows,
-          misses: prev.misses + missCount,
-          combo: newCombo,
-        };
-      });
-
-      // Schedule next frame
-      animationFrameRef.current = requestAnimationFrame(gameLoopRef.current);
     };
-  }, [spawnArrows, updateArrowPositions, checkMissedArrows, cleanupArrows]);
+  }, [advance]);
 
   // Start game loop helper
   const startGameLoop = useCallback(() => {
@@ -308,234 +269,129 @@ export function useGameEngine(
   }, []);
 
   // Start the game with countdown
-  const start = useCallback(() => {
-    // Reset state
-    setGameState((prev) => ({
-      ...createInitialGameState(prev.difficulty),
-      status: 'countdown',
-    }));
-    setCountdown(3);
-    setFinalStats(null);
-    totalArrowsSpawnedRef.current = 0;
-    arrowIdCounterRef.current = 0;
-
-    // Start countdown
-    let count = 3;
-    countdownIntervalRef.current = setInterval(() => {
-      count -= 1;
-      if (count > 0) {
-        setCountdown(count);
-      } else {
-        // Countdown finished, start the game
-        if (countdownIntervalRef.current) {
-          clearInterval(countdownIntervalRef.current);
-          countdownIntervalRef.current = null;
-        }
-        setCountdown(null);
-
-        const startTime = performance.now();
-        gameStartTimeRef.current = startTime;
-        lastSpawnTimeRef.current = startTime;
-        lastFrameTimeRef.current = startTime;
-
-        setGameState((prev) => ({
-          ...prev,
-          status: 'playing',
-        }));
-
-        // Start game loop
-        startGameLoop();
-      }
-    }, 1000);
-  }, [startGameLoop]);
+  const start = useCallback(
+    (startSeed?: number) => {
+      stopGameLoop();
+
+      // The countdown is the clock's lead-in; the song starts at time 0
+      clockRef.current.start(GAME_TIMING.COUNTDOWN_DURATION);
+
+      simulation.init({
+        difficulty: simulation.getState().difficulty,
+        chart: chartRef.current,
+        seed: startSeed,
+        startTime: clockRef.current.getTime(),
+        judgementWindows: judgementWindowsRef.current,
+        layout: layoutRef.current,
+        mode: modeRef.current,
+        ...sessionLimitsRef.current,
+      });
+
+      setGameState(simulation.getState());
+      setCountdown(Math.ceil(GAME_TIMING.COUNTDOWN_DURATION / 1000));
+      setGameDuration(0);
+      setFinalStats(null);
+      setSeed(simulation.getSeed());
+
+      startGameLoop();
+    },
+    [simulation, stopGameLoop, startGameLoop]
+  );
 
   // Pause the game
   const pause = useCallback(() => {
-    if (gameStateRef.current.status !== 'playing') {
+    if (simulation.getState().status !== 'playing') {
       return;
     }
 
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-
-    setGameState((prev) => ({
-      ...prev,
-      status: 'paused',
-    }));
-  }, []);
+    stopGameLoop();
+    clockRef.current.pause();
+    simulation.pause();
+    setGameState(simulation.getState());
+  }, [simulation, stopGameLoop]);
 
   // Resume the game
   const resume = useCallback(() => {
-    if (gameStateRef.current.status !== 'paused') {
+    if (simulation.getState().status !== 'paused') {
       return;
     }
 
-    lastFrameTimeRef.current = performance.now();
-
-    setGameState((prev) => ({
-      ...prev,
-      status: 'playing',
-    }));
-
+    clockRef.current.resume();
+    simulation.resume();
+    setGameState(simulation.getState());
     startGameLoop();
-  }, [startGameLoop]);
-
-  // End the game
-  const end = useCallback(() => {
-    // Stop game loop
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
-
-    // Stop countdown if running
-    if (countdownIntervalRef.current) {
-      clearInterval(countdownIntervalRef.current);
-      countdownIntervalRef.current = null;
-    }
-
-    const state = gameStateRef.current;
-    const totalHits = state.perfectHits + state.goodHits;
-    const totalAttempts = totalHits + state.misses;
-
-    // Calculate final stats
-    const stats: GameStats = {
-      score: state.score,
-      maxCombo: state.maxCombo,
-      perfectHits: state.perfectHits,
-      goodHits: state.goodHits,
-      misses: state.misses,
-      totalArrows: totalArrowsSpawnedRef.current,
-      accuracy: totalAttempts > 0 ? (totalHits / totalAttempts) * 100 : 0,
-      duration: gameDuration,
-    };
-
-    setFinalStats(stats);
-    setGameState((prev) => ({
-      ...prev,
-      status: 'ended',
-    }));
-    setCountdown(null);
-
-    // Notify game end
-    onGameEndRef.current?.(stats);
-  }, [gameDuration]);
+  }, [simulation, startGameLoop]);
 
   // Reset the game
   const reset = useCallback(() => {
-    // Stop everything
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
+    stopGameLoop();
+    clockRef.current.stop();
 
-    if (countdownIntervalRef.current) {
-      clearInterval(countdownIntervalRef.current);
-      countdownIntervalRef.current = null;
-    }
-
-    setGameState((prev) => createInitialGameState(prev.difficulty));
+    simulation.reset();
+    setGameState(simulation.getState());
     setCountdown(null);
     setGameDuration(0);
     setFinalStats(null);
-    totalArrowsSpawnedRef.current = 0;
-    arrowIdCounterRef.current = 0;
-  }, []);
+  }, [simulation, stopGameLoop]);
 
   // Set difficulty
-  const setDifficulty = useCallback((difficulty: DifficultyLevel) => {
-    setGameState((prev) => ({
-      ...prev,
-      difficulty,
-    }));
-  }, []);
+  const setDifficulty = useCallback(
+    (difficulty: DifficultyLevel) => {
+      simulation.setDifficulty(difficulty);
+      setGameState(simulation.getState());
+    },
+    [simulation]
+  );
 
   // Process a gesture event and check for hits
-  const processGesture = useCallback((gesture: GestureEvent): HitResult => {
-    const state = gameStateRef.current;
+  const processGesture = useCallback(
+    (gesture: GestureEvent): HitResult => {
+      if (simulation.getState().status !== 'playing') {
+        return { hit: false };
+      }
 
-    if (state.status !== 'playing') {
-      return { hit: false };
-    }
+      // Catch up to the current song time so arrow positions are fresh
+      if (!advance()) {
+        return { hit: false };
+      }
 
-    // Get the lane for this gesture
-    const gestureLane = GESTURE_TO_LANE[gesture.type];
-    if (gestureLane === undefined) {
-      return { hit: false };
-    }
+      const prevCombo = simulation.getState().combo;
+      const result = simulation.applyGesture(gesture);
 
-    // Find arrows in the hit zone for this lane that haven't been hit yet
-    const targetArrows = state.arrows
-      .filter(
-        (arrow) =>
-          arrow.lane === gestureLane &&
-          !arrow.hit &&
-          !arrow.missed &&
-          isInHitZone(arrow.position)
-      )
-      // Sort by position (closest to perfect zone first)
-      .sort((a, b) => {
-        const aDist = Math.abs(a.position - HIT_ZONE.PERFECT_START);
-        const bDist = Math.abs(b.position - HIT_ZONE.PERFECT_START);
-        return aDist - bDist;
-      });
+      // A gesture far too early uses up the note as a miss
+      if (!result.hit && result.arrow) {
+        syncState(prevCombo);
+        onMissRef.current?.(result.arrow);
+        return result;
+      }
 
-    if (targetArrows.length === 0) {
-      return { hit: false };
-    }
+      if (!result.hit) {
+        return result;
+      }
 
-    // Hit the closest arrow
-    const hitArrow = targetArrows[0];
-    const rating = getHitRating(hitArrow.position);
+      syncState(prevCombo);
 
-    // This shouldn't happen since we filtered for hit zone, but handle it
-    if (rating === 'miss') {
-      return { hit: false };
-    }
+      // Notify about hit
+      onHitRef.current?.(result);
 
-    // Calculate score
-    const newCombo = state.combo + 1;
-    const score = calculateHitScore(rating, newCombo);
-
-    // Update state
-    setGameState((prev) => {
-      const updatedArrows = prev.arrows.map((arrow) =>
-        arrow.id === hitArrow.id
-          ? { ...arrow, hit: true, hitRating: rating }
-          : arrow
-      );
-
-      const newMaxCombo = Math.max(prev.maxCombo, newCombo);
-
-      // Notify about combo change
-      const multiplier = getComboMultiplier(newCombo);
-      onComboChangeRef.current?.(newCombo, multiplier);
-
-      return {
-        ...prev,
-        arrows: updatedArrows,
-        score: prev.score + score,
-        combo: newCombo,
-        maxCombo: newMaxCombo,
-        perfectHits: rating === 'perfect' ? prev.perfectHits + 1 : prev.perfectHits,
-        goodHits: rating === 'good' ? prev.goodHits + 1 : prev.goodHits,
-      };
-    });
-
-    const result: HitResult = {
-      hit: true,
-      arrow: hitArrow,
-      rating,
-      score,
-    };
+      return result;
+    },
+    [simulation, advance, syncState]
+  );
 
-    // Notify about hit
-    onHitRef.current?.(result);
+  // Update held gesture poses (read by the simulation for hold notes)
+  const setHeldGestures = useCallback(
+    (held: HeldGestures) => {
+      simulation.setHeldGestures(held);
+    },
+    [simulation]
+  );
 
-    return result;
-  }, []);
+  // Match the player's pose against pose notes (the game loop publishes the result)
+  const matchPose = useCallback(
+    (landmarks: Landmark[]) => simulation.applyPose(landmarks),
+    [simulation]
+  );
 
   // Cleanup on unmount
   useEffect(() => {
@@ -543,9 +399,7 @@ export function useGameEngine(
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
-      if (countdownIntervalRef.current) {
-        clearInterval(countdownIntervalRef.current);
-      }
+      clockRef.current.stop();
     };
   }, []);
 
@@ -561,9 +415,13 @@ export function useGameEngine(
     reset,
     setDifficulty,
     processGesture,
+    setHeldGestures,
+    matchPose,
     comboMultiplier,
+    spawnMode: chart ? 'chart' : 'freestyle',
     countdown,
     gameDuration,
     finalStats,
+    seed,
   };
 }
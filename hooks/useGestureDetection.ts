@@ -8,17 +8,29 @@ import type {
   GestureEvent,
   GestureDetectionOptions,
   OnGestureCallback,
+  HeldGestures,
 } from '@/lib/types';
 import {
   createInitialGestureState,
+  createEmptyHeldGestures,
+  detectHeldGestures,
   processGestureFrame,
   DEFAULT_GESTURE_OPTIONS,
   type GestureTrackingState,
 } from '@/lib/gestureDetection';
+import {
+  createBaselineTracker,
+  type BaselineStatus,
+  type BaselineTracker,
+} from '@/lib/baselineTracker';
 
 interface UseGestureDetectionOptions extends GestureDetectionOptions {
   onGesture?: OnGestureCallback;
+  /** Called whenever the set of held gesture poses changes (for hold notes) */
+  onHeldChange?: (held: HeldGestures) => void;
   enabled?: boolean;
+  /** Follow the player's position as they drift or step (default true) */
+  trackBaseline?: boolean;
 }
 
 interface UseGestureDetectionReturn {
@@ -26,6 +38,10 @@ interface UseGestureDetectionReturn {
   currentGesture: GestureType;
   /** Last gesture event with timestamp and confidence */
   lastGestureEvent: GestureEvent | null;
+  /** Gesture poses currently being held */
+  heldGestures: HeldGestures;
+  /** Whether the player is where they calibrated, or should step back */
+  baselineStatus: BaselineStatus;
   /** Process a pose frame for gesture detection */
   processPose: (pose: PoseResult | null) => void;
   /** Reset the gesture detection state */
@@ -54,10 +70,19 @@ export function useGestureDetection(
   const {
     waveThreshold = DEFAULT_GESTURE_OPTIONS.waveThreshold,
     waveTimeWindow = DEFAULT_GESTURE_OPTIONS.waveTimeWindow,
+    clapThreshold = DEFAULT_GESTURE_OPTIONS.clapThreshold,
+    tPoseTolerance = DEFAULT_GESTURE_OPTIONS.tPoseTolerance,
     jumpThreshold = DEFAULT_GESTURE_OPTIONS.jumpThreshold,
+    kickThreshold = DEFAULT_GESTURE_OPTIONS.kickThreshold,
+    squatThreshold = DEFAULT_GESTURE_OPTIONS.squatThreshold,
+    leanThreshold = DEFAULT_GESTURE_OPTIONS.leanThreshold,
+    turnThreshold = DEFAULT_GESTURE_OPTIONS.turnThreshold,
     debounceTime = DEFAULT_GESTURE_OPTIONS.debounceTime,
+    jumpDebounceTime = DEFAULT_GESTURE_OPTIONS.jumpDebounceTime,
     onGesture,
+    onHeldChange,
     enabled: initialEnabled = true,
+    trackBaseline = true,
   } = options;
 
   // State
@@ -65,16 +90,35 @@ export function useGestureDetection(
   const [lastGestureEvent, setLastGestureEvent] = useState<GestureEvent | null>(null);
   const [gestureCount, setGestureCount] = useState(0);
   const [isEnabled, setIsEnabled] = useState(initialEnabled);
+  const [heldGestures, setHeldGestures] = useState<HeldGestures>(createEmptyHeldGestures);
+  const [baselineStatus, setBaselineStatus] = useState<BaselineStatus>('tracking');
 
   // Refs for mutable state (to avoid stale closures)
   const gestureStateRef = useRef<GestureTrackingState>(createInitialGestureState());
   const onGestureRef = useRef(onGesture);
+  const onHeldChangeRef = useRef(onHeldChange);
+  const heldGesturesRef = useRef<HeldGestures>(heldGestures);
   const gestureTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Baseline tracker, and the calibration it started from
+  const baselineRef = useRef<{ source: CalibrationData; tracker: BaselineTracker } | null>(null);
 
-  // Keep callback ref up to date
+  // Keep callback refs up to date
   useEffect(() => {
     onGestureRef.current = onGesture;
-  }, [onGesture]);
+    onHeldChangeRef.current = onHeldChange;
+  }, [onGesture, onHeldChange]);
+
+  // Update held gestures, notifying only on change
+  const updateHeldGestures = useCallback((held: HeldGestures) => {
+    const prev = heldGesturesRef.current;
+    const gestures = new Set([...Object.keys(held), ...Object.keys(prev)]);
+    const changed = [...gestures].some((gesture) => !held[gesture] !== !prev[gesture]);
+    if (!changed) return;
+
+    heldGesturesRef.current = held;
+    setHeldGestures(held);
+    onHeldChangeRef.current?.(held);
+  }, []);
 
   // Clear current gesture after a short delay (for visual feedback)
   const clearGestureAfterDelay = useCallback((delay: number = 300) => {
@@ -96,22 +140,45 @@ export function useGestureDetection(
 
       const timestamp = pose.timestamp;
 
+      // Detect against the baseline where the player now stands
+      let baseline = calibration;
+      if (trackBaseline) {
+        if (baselineRef.current?.source !== calibration) {
+          baselineRef.current = { source: calibration, tracker: createBaselineTracker(calibration) };
+        }
+        const update = baselineRef.current.tracker.update(pose);
+        baseline = update.calibration;
+        setBaselineStatus(update.status);
+      }
+
       // Process the frame for gesture detection
+      const frameOptions = {
+        waveThreshold,
+        waveTimeWindow,
+        clapThreshold,
+        tPoseTolerance,
+        jumpThreshold,
+        kickThreshold,
+        squatThreshold,
+        leanThreshold,
+        turnThreshold,
+        debounceTime,
+        jumpDebounceTime,
+      };
       const result = processGestureFrame(
         pose.landmarks,
-        calibration,
+        baseline,
         gestureStateRef.current,
         timestamp,
-        {
-          waveThreshold,
-          waveTimeWindow,
-          jumpThreshold,
-          debounceTime,
-        }
+        frameOptions,
+        pose.worldLandmarks
       );
 
       // Update state
       gestureStateRef.current = result.newState;
+      updateHeldGestures(
+        detectHeldGestures(pose.landmarks, baseline, frameOptions, pose.worldLandmarks)
+      );
 
       // If a gesture was detected
       if (result.gesture) {
@@ -132,12 +199,33 @@ export function useGestureDetection(
         clearGestureAfterDelay();
       }
     },
-    [calibration, isEnabled, waveThreshold, waveTimeWindow, jumpThreshold, debounceTime, clearGestureAfterDelay]
+    [
+      calibration,
+      isEnabled,
+      trackBaseline,
+      waveThreshold,
+      waveTimeWindow,
+      clapThreshold,
+      tPoseTolerance,
+      jumpThreshold,
+      kickThreshold,
+      squatThreshold,
+      leanThreshold,
+      turnThreshold,
+      debounceTime,
+      jumpDebounceTime,
+      clearGestureAfterDelay,
+      updateHeldGestures,
+    ]
   );
 
   // Reset gesture detection state
   const reset = useCallback(() => {
     gestureStateRef.current = createInitialGestureState();
+    // Start the baseline over from the calibration on the next frame
+    baselineRef.current = null;
+    setBaselineStatus('tracking');
+    updateHeldGestures(createEmptyHeldGestures());
     setCurrentGesture(null);
     setLastGestureEvent(null);
     setGestureCount(0);
@@ -146,7 +234,7 @@ export function useGestureDetection(
       clearTimeout(gestureTimeoutRef.current);
       gestureTimeoutRef.current = null;
     }
-  }, []);
+  }, [updateHeldGestures]);
 
   // Enable/disable functions
   const enable = useCallback(() => {
@@ -156,7 +244,9 @@ export function useGestureDetection(
   const disable = useCallback(() => {
     setIsEnabled(false);
     setCurrentGesture(null);
-  }, []);
+    setBaselineStatus('tracking');
+    updateHeldGestures(createEmptyHeldGestures());
+  }, [updateHeldGestures]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -170,6 +260,8 @@ export function useGestureDetection(
   return {
     currentGesture,
     lastGestureEvent,
+    heldGestures,
+    baselineStatus,
     processPose,
     reset,
     gestureCount,
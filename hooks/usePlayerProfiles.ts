@@ -0,0 +1,88 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  loadPlayerProfiles,
+  savePlayerProfile,
+  deletePlayerProfile,
+  type PlayerProfile,
+} from '@/lib/playerProfiles';
+
+interface UsePlayerProfilesReturn {
+  /** Stored profiles, most recently used first */
+  profiles: PlayerProfile[];
+  /** Whether the profiles are loading */
+  isLoading: boolean;
+  /** Error message if profiles couldn't be loaded or saved */
+  error: string | null;
+  /** Save a new or changed profile */
+  saveProfile: (profile: PlayerProfile) => Promise<void>;
+  /** Delete a profile */
+  deleteProfile: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook for the player profiles stored on this device
+ */
+export function usePlayerProfiles(): UsePlayerProfilesReturn {
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load stored profiles on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPlayerProfiles()
+      .then((loaded) => {
+        if (!cancelled) {
+          setProfiles(loaded);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load player profiles:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load player profiles');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveProfile = useCallback(async (profile: PlayerProfile) => {
+    try {
+      const saved = await savePlayerProfile(profile);
+      setProfiles((prev) => [saved, ...prev.filter((p) => p.id !== saved.id)]);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to save player profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save player profile');
+    }
+  }, []);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    try {
+      await deletePlayerProfile(id);
+      setProfiles((prev) => prev.filter((p) => p.id !== id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to delete player profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete player profile');
+    }
+  }, []);
+
+  return {
+    profiles,
+    isLoading,
+    error,
+    saveProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { PoseRecording, PoseResult } from '@/lib/types';
+import {
+  createPoseRecorder,
+  createPosePlayback,
+  serializePoseRecording,
+  validatePoseRecording,
+  type PosePlayback,
+  type PoseRecorder,
+} from '@/lib/poseRecording';
+
+interface UsePoseSessionReturn {
+  /** Whether live pose frames are being recorded */
+  isRecording: boolean;
+  /** Start recording live pose frames */
+  startRecording: () => void;
+  /** Stop recording and download the recording file */
+  stopRecording: () => PoseRecording;
+  /** Record a live pose frame (pass to PoseDetector's recordPose) */
+  recordPose: (pose: PoseResult | null) => void;
+  /** Playback source replacing the camera (pass to PoseDetector's playback) */
+  playback: PosePlayback | null;
+  /** Load a recording file and play it back (from when PoseDetector first subscribes) */
+  loadRecording: (file: File) => Promise<void>;
+  /** Stop playback and return to the camera */
+  stopPlayback: () => void;
+  /** Error message from loading a recording */
+  error: string | null;
+}
+
+/**
+ * Format a date as a recording file name
+ */
+function toFileName(recordedAt: string): string {
+  return `pose-session-${recordedAt.replace(/[:.]/g, '-')}.json`;
+}
+
+/**
+ * Hook for recording pose sessions to a file and playing them back
+ * through PoseDetector in place of the camera
+ */
+export function usePoseSession(): UsePoseSessionReturn {
+  const [recorder] = useState<PoseRecorder>(createPoseRecorder);
+  const [isRecording, setIsRecording] = useState(false);
+  const [playback, setPlayback] = useState<PosePlayback | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startRecording = useCallback(() => {
+    recorder.start();
+    setIsRecording(true);
+  }, [recorder]);
+
+  const stopRecording = useCallback(() => {
+    const recording = recorder.stop();
+    setIsRecording(false);
+
+    const blob = new Blob([serializePoseRecording(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(recording.recordedAt);
+    link.click();
+    URL.revokeObjectURL(url);
+
+    return recording;
+  }, [recorder]);
+
+  const stopPlayback = useCallback(() => {
+    setPlayback(null);
+  }, []);
+
+  const loadRecording = useCallback(async (file: File) => {
+    try {
+      const result = validatePoseRecording(JSON.parse(await file.text()));
+      if (!result.valid) {
+        setError(result.errors.join('; '));
+        return;
+      }
+
+      const next = createPosePlayback(result.recording);
+      next.start();
+      setPlayback(next);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load pose recording:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load pose recording');
+    }
+  }, []);
+
+  // Stop playback on unmount or when replaced
+  useEffect(() => {
+    return () => {
+      playback?.stop();
+    };
+  }, [playback]);
+
+  return {
+    isRecording,
+    startRecording,
+    stopRecording,
+    recordPose: recorder.addFrame,
+    playback,
+    loadRecording,
+    stopPlayback,
+    error,
+  };
+}
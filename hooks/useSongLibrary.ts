@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { DifficultyLevel, SongInfo } from '@/lib/types';
+import {
+  loadSongManifest,
+  loadBestScores,
+  saveBestScore,
+  getBestScoreKey,
+  type BestScores,
+} from '@/lib/songLibrary';
+
+interface UseSongLibraryReturn {
+  /** Songs from the library manifest */
+  songs: SongInfo[];
+  /** Whether the manifest is loading */
+  isLoading: boolean;
+  /** Error message if the manifest failed to load */
+  error: string | null;
+  /** Get the best score for a song and difficulty (0 if never played) */
+  getBestScore: (songId: string, difficulty: DifficultyLevel) => number;
+  /** Record a score, returning whether it is a new best */
+  recordScore: (songId: string, difficulty: DifficultyLevel, score: number) => boolean;
+}
+
+/**
+ * Hook for the song library manifest and per-song best scores
+ */
+export function useSongLibrary(): UseSongLibraryReturn {
+  const [songs, setSongs] = useState<SongInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [bestScores, setBestScores] = useState<BestScores>({});
+
+  // Load manifest and stored best scores on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSongManifest()
+      .then((manifest) => {
+        if (!cancelled) {
+          setSongs(manifest.songs);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load song library:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load song library');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setBestScores(loadBestScores());
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getBestScore = useCallback(
+    (songId: string, difficulty: DifficultyLevel) =>
+      bestScores[getBestScoreKey(songId, difficulty)] ?? 0,
+    [bestScores]
+  );
+
+  const recordScore = useCallback(
+    (songId: string, difficulty: DifficultyLevel, score: number) => {
+      const result = saveBestScore(songId, difficulty, score);
+      setBestScores(result.bestScores);
+      return result.isNewBest;
+    },
+    []
+  );
+
+  return {
+    songs,
+    isLoading,
+    error,
+    getBestScore,
+    recordScore,
+  };
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useRef, useState, useCallback, useEffect } from 'react';
+import type { SongInfo } from '@/lib/types';
+
+// Clip used when a song has audio but no preview in the manifest
+const DEFAULT_PREVIEW = { start: 0, duration: 10000 };
+
+interface UseSongPreviewOptions {
+  /** Preview volume (0-1) */
+  volume?: number;
+}
+
+interface UseSongPreviewReturn {
+  /** Id of the song whose preview is playing */
+  playingId: string | null;
+  /** Play a song's preview clip (stops any other preview) */
+  play: (song: SongInfo) => void;
+  /** Stop the current preview */
+  stop: () => void;
+  /** Whether a song has audio to preview */
+  canPreview: (song: SongInfo) => boolean;
+}
+
+/**
+ * Hook for playing short song preview clips on the song-select screen
+ */
+export function useSongPreview({ volume = 0.5 }: UseSongPreviewOptions = {}): UseSongPreviewReturn {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    if (stopTimeoutRef.current) {
+      clearTimeout(stopTimeoutRef.current);
+      stopTimeoutRef.current = null;
+    }
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = '';
+      audioRef.current = null;
+    }
+    setPlayingId(null);
+  }, []);
+
+  const canPreview = useCallback(
+    (song: SongInfo) => Boolean(song.preview?.src ?? song.audio),
+    []
+  );
+
+  const play = useCallback(
+    (song: SongInfo) => {
+      stop();
+
+      const src = song.preview?.src ?? song.audio;
+      if (!src) return;
+
+      const { start, duration } = song.preview ?? DEFAULT_PREVIEW;
+      const audio = new Audio(src);
+      audio.volume = volume;
+      audioRef.current = audio;
+      setPlayingId(song.id);
+
+      // Seek once metadata is known, then play the clip
+      audio.addEventListener(
+        'loadedmetadata',
+        () => {
+          audio.currentTime = start / 1000;
+          audio.play().catch((err) => {
+            console.error('Preview play error:', err);
+            if (audioRef.current === audio) {
+              stop();
+            }
+          });
+          stopTimeoutRef.current = setTimeout(stop, duration);
+        },
+        { once: true }
+      );
+
+      audio.addEventListener('error', () => {
+        console.error('Preview audio error:', src);
+        if (audioRef.current === audio) {
+          stop();
+        }
+      });
+    },
+    [stop, volume]
+  );
+
+  // Stop preview on unmount
+  useEffect(() => {
+    return () => {
+      stop();
+    };
+  }, [stop]);
+
+  return {
+    playingId,
+    play,
+    stop,
+    canPreview,
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { CalibrationData, PoseResult } from './types';
+import { POSE_LANDMARKS } from './types';
+import { createBaselineTracker, type BaselineTracker, type BaselineUpdate } from './baselineTracker';
+import { measureTorso, validateCalibration, type TorsoMeasurements } from './calibration';
+import { createStandingPose } from './poseSynthesis';
+
+// Frame length (ms)
+const FRAME = 33;
+
+// Where the player stands relative to where they calibrated
+interface Stance {
+  /** Body size, > 1 when closer to the camera (at chest height, so the hips move too) */
+  scale?: number;
+  /** Sideways shift of the whole body */
+  shift?: number;
+  /** How far the upper body sinks (a squat; the legs stay put) */
+  squat?: number;
+  /** Whether the knees and feet are out of view */
+  feetHidden?: boolean;
+}
+
+const LOWER_BODY: number[] = [
+  POSE_LANDMARKS.LEFT_KNEE,
+  POSE_LANDMARKS.RIGHT_KNEE,
+  POSE_LANDMARKS.LEFT_ANKLE,
+  POSE_LANDMARKS.RIGHT_ANKLE,
+  POSE_LANDMARKS.LEFT_HEEL,
+  POSE_LANDMARKS.RIGHT_HEEL,
+  POSE_LANDMARKS.LEFT_FOOT_INDEX,
+  POSE_LANDMARKS.RIGHT_FOOT_INDEX,
+];
+
+// Standing pose at a time, in a stance
+function createPose(timestamp: number, stance: Stance = {}): PoseResult {
+  const { scale = 1, shift = 0, squat = 0, feetHidden = false } = stance;
+  const landmarks = createStandingPose().map((lm, i) => {
+    const lower = LOWER_BODY.includes(i);
+    return {
+      ...lm,
+      x: 0.5 + (lm.x - 0.5) * scale + shift,
+      y: 0.4 + (lm.y - 0.4) * scale + (lower ? 0 : squat),
+      visibility: lower && feetHidden ? 0.1 : lm.visibility,
+    };
+  });
+  return { landmarks, timestamp };
+}
+
+const calibrationResult = validateCalibration(
+  Array.from({ length: 15 }, (_, i) => createPose(i * FRAME))
+);
+if (!calibrationResult.valid) {
+  throw new Error('Standing poses should pass calibration');
+}
+const calibration: CalibrationData = calibrationResult.calibration;
+
+// Track frames in a stance over [from, to), returning every update
+function hold(tracker: BaselineTracker, from: number, to: number, stance?: Stance): BaselineUpdate[] {
+  const updates: BaselineUpdate[] = [];
+  for (let time = from; time < to; time += FRAME) {
+    updates.push(tracker.update(createPose(time, stance)));
+  }
+  return updates;
+}
+
+const hipX = ({ leftHip, rightHip }: TorsoMeasurements) => (leftHip.x + rightHip.x) / 2;
+
+describe('createBaselineTracker', () => {
+  it('keeps the calibration while the player stands where they calibrated', () => {
+    const tracker = createBaselineTracker(calibration);
+    const updates = hold(tracker, 0, 3000);
+
+    expect(updates.at(-1)).toMatchObject({ status: 'tracking', rebaselined: false });
+    expect(updates.at(-1)?.calibration.hipCenterY).toBeCloseTo(calibration.hipCenterY, 6);
+    expect(updates.at(-1)?.calibration.torsoLength).toBeCloseTo(calibration.torsoLength, 6);
+  });
+
+  it('follows slow drift without re-baselining', () => {
+    const tracker = createBaselineTracker(calibration);
+    const updates = hold(tracker, 0, 3000, { shift: 0.02, squat: 0.01 });
+    const baseline = updates.at(-1)!.calibration;
+
+    expect(updates.some((update) => update.rebaselined)).toBe(false);
+    expect(hipX(baseline)).toBeGreaterThan(hipX(calibration) + 0.01);
+    expect(hipX(baseline)).toBeLessThan(hipX(calibration) + 0.02);
+    expect(baseline.hipCenterY).toBeGreaterThan(calibration.hipCenterY + 0.005);
+    expect(baseline.gestureOptions).toBe(calibration.gestureOptions);
+  });
+
+  it.each<[string, Stance]>([
+    ['forward, with the feet out of view', { scale: 1.25, feetHidden: true }],
+    ['back', { scale: 0.8 }],
+    ['aside', { shift: 0.15 }],
+  ])('re-baselines once the player settles after stepping %s', (_, stance) => {
+    const tracker = createBaselineTracker(calibration);
+    hold(tracker, 0, 1500);
+    const updates = hold(tracker, 1500, 4000, stance);
+    const expected = measureTorso([createPose(0, stance)]);
+    if (!expected) throw new Error('The stance should be measurable');
+
+    expect(updates.filter((update) => update.rebaselined)).toHaveLength(1);
+    expect(updates.at(-1)?.status).toBe('tracking');
+    const baseline = updates.at(-1)!.calibration;
+    expect(baseline.torsoLength).toBeCloseTo(expected.torsoLength, 6);
+    expect(baseline.hipCenterY).toBeCloseTo(expected.hipCenterY, 6);
+    expect(hipX(baseline)).toBeCloseTo(hipX(expected), 6);
+  });
+
+  it('does not take a held squat for a step', () => {
+    const tracker = createBaselineTracker(calibration);
+    hold(tracker, 0, 1500);
+    const updates = hold(tracker, 1500, 4000, { squat: 0.1 });
+
+    expect(updates.some((update) => update.rebaselined)).toBe(false);
+    expect(updates.at(-1)?.calibration.hipCenterY).toBeCloseTo(calibration.hipCenterY, 6);
+  });
+
+  it('reports the player out of position until they come back', () => {
+    const tracker = createBaselineTracker(calibration);
+    hold(tracker, 0, 1500);
+
+    const away = hold(tracker, 1500, 3500, { scale: 1.5, feetHidden: true });
+    expect(away[10].status).toBe('tracking');
+    expect(away.at(-1)).toMatchObject({ status: 'out-of-position', calibration });
+
+    const back = hold(tracker, 3500, 5500);
+    expect(back[10].status).toBe('out-of-position');
+    expect(back.at(-1)).toMatchObject({ status: 'tracking', rebaselined: false });
+    expect(back.some((update) => update.rebaselined)).toBe(false);
+  });
+
+  it('starts over from a new calibration on reset', () => {
+    const tracker = createBaselineTracker(calibration);
+    hold(tracker, 0, 1500);
+    hold(tracker, 1500, 3500, { scale: 1.5, feetHidden: true });
+
+    tracker.reset(calibration);
+
+    expect(tracker.update(createPose(3500))).toEqual({
+      calibration,
+      status: 'tracking',
+      rebaselined: false,
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Baseline drift tracking
+ *
+ * Jump and squat detection compare the hips against the calibration
+ * baseline, which goes stale as soon as the player moves: a step toward the
+ * camera lowers and enlarges the body in the image (squats fire, jumps stop
+ * registering), a step back does the opposite. The tracker keeps the
+ * baseline current without a full recalibration:
+ * - while the player stands still near the baseline, it follows their
+ *   position slowly (continuous re-estimation)
+ * - once they settle after stepping forward, back or aside, it re-baselines
+ *   silently to where they now stand
+ * - when they move too far from where they calibrated (too close, too far or
+ *   off to the side to be tracked reliably), it reports them out of position
+ *   so the game can prompt them to step back
+ *
+ * A held squat is never mistaken for a step: it lowers the hips without
+ * changing the torso length.
+ */
+
+import type { CalibrationData, Landmark, PoseResult } from './types';
+import { measureTorso, type TorsoMeasurements } from './calibration';
+import { getHipCenter, getMidpoint, getTorsoLength, type Point } from './poseGeometry';
+
+// Where the player stands relative to the baseline
+export type BaselineStatus = 'tracking' | 'out-of-position';
+
+// Distances in torso lengths of the baseline
+export interface BaselineTrackerOptions {
+  settleTime: number;      // ms the player must stay still before the baseline follows them
+  stillness: number;       // max hip movement over settleTime to count as still
+  adaptRate: number;       // share of the remaining drift the baseline follows per still frame
+  driftTolerance: number;  // max hip offset the baseline follows continuously
+  stepScale: number;       // torso length change (ratio) taken as a step forward or back
+  stepDistance: number;    // sideways hip shift taken as a step aside
+  maxScale: number;        // torso length change (ratio) from calibration before prompting
+  maxDistance: number;     // sideways hip shift from calibration before prompting
+}
+
+export const DEFAULT_BASELINE_TRACKER_OPTIONS: BaselineTrackerOptions = {
+  settleTime: 1000,
+  stillness: 0.08,
+  adaptRate: 0.05,
+  driftTolerance: 0.1,
+  stepScale: 0.1,
+  stepDistance: 0.4,
+  maxScale: 0.35,
+  maxDistance: 1.5,
+};
+
+// Result of tracking one frame
+export interface BaselineUpdate {
+  /** Baseline to detect gestures against */
+  calibration: CalibrationData;
+  status: BaselineStatus;
+  /** Whether the baseline was just replaced after a step */
+  rebaselined: boolean;
+}
+
+export interface BaselineTracker {
+  /** Track a pose frame, returning the baseline to use for it */
+  update: (pose: PoseResult) => BaselineUpdate;
+  /** Start over from a new calibration */
+  reset: (calibration: CalibrationData) => void;
+}
+
+// Body position measured in one frame
+interface PositionSample {
+  pose: PoseResult;
+  hips: Point;
+  torsoLength: number;
+}
+
+function blend(from: number, to: number, weight: number): number {
+  return from + (to - from) * weight;
+}
+
+function blendLandmark(from: Landmark, to: Landmark, weight: number): Landmark {
+  return {
+    ...from,
+    x: blend(from.x, to.x, weight),
+    y: blend(from.y, to.y, weight),
+    z: blend(from.z, to.z, weight),
+  };
+}
+
+/**
+ * Move a baseline's hips and shoulders part of the way toward measured ones
+ * (the rest of the baseline and the personal gesture options are kept)
+ */
+function blendCalibration(
+  from: CalibrationData,
+  to: TorsoMeasurements,
+  weight: number
+): CalibrationData {
+  return {
+    ...from,
+    leftHip: blendLandmark(from.leftHip, to.leftHip, weight),
+    rightHip: blendLandmark(from.rightHip, to.rightHip, weight),
+    leftShoulder: blendLandmark(from.leftShoulder, to.leftShoulder, weight),
+    rightShoulder: blendLandmark(from.rightShoulder, to.rightShoulder, weight),
+    hipCenterY: blend(from.hipCenterY, to.hipCenterY, weight),
+    shoulderCenterY: blend(from.shoulderCenterY, to.shoulderCenterY, weight),
+    shoulderWidth: blend(from.shoulderWidth, to.shoulderWidth, weight),
+    torsoLength: blend(from.torsoLength, to.torsoLength, weight),
+  };
+}
+
+/**
+ * Create a baseline tracker, starting from a calibration
+ */
+export function createBaselineTracker(
+  initialCalibration: CalibrationData,
+  options: BaselineTrackerOptions = DEFAULT_BASELINE_TRACKER_OPTIONS
+): BaselineTracker {
+  let calibration = initialCalibration;
+  let baseline = initialCalibration;
+  let status: BaselineStatus = 'tracking';
+  let samples: PositionSample[] = [];
+
+  // Whether a position is too far from where the player calibrated
+  const isOutOfPosition = ({ hips, torsoLength }: PositionSample): boolean => {
+    if (calibration.torsoLength <= 0) return false;
+    const calibratedHips = getMidpoint(calibration.leftHip, calibration.rightHip);
+    const scale = torsoLength / calibration.torsoLength;
+    const shift = Math.abs(hips.x - calibratedHips.x) / calibration.torsoLength;
+    return Math.abs(scale - 1) > options.maxScale || shift > options.maxDistance;
+  };
+
+  const update = (pose: PoseResult): BaselineUpdate => {
+    const hips = getHipCenter(pose.landmarks);
+    const torsoLength = getTorsoLength(pose.landmarks);
+    if (!hips || !torsoLength) {
+      return { calibration: baseline, status, rebaselined: false };
+    }
+
+    samples.push({ pose, hips, torsoLength });
+    samples = samples.filter((s) => s.pose.timestamp >= pose.timestamp - options.settleTime);
+
+    // Decide only once the samples cover the settle time (allowing for frame timing)
+    const settled = pose.timestamp - samples[0].pose.timestamp >= options.settleTime * 0.9;
+    if (!settled) {
+      return { calibration: baseline, status, rebaselined: false };
+    }
+
+    // Out of position once every recent frame is, back once none is
+    const outOfPosition = samples.map(isOutOfPosition);
+    if (outOfPosition.every(Boolean)) {
+      status = 'out-of-position';
+    } else if (!outOfPosition.some(Boolean)) {
+      status = 'tracking';
+    }
+    if (status === 'out-of-position') {
+      return { calibration: baseline, status, rebaselined: false };
+    }
+
+    // Only a still player's position says where they stand
+    const unit = baseline.torsoLength > 0 ? baseline.torsoLength : torsoLength;
+    const xs = samples.map((s) => s.hips.x);
+    const ys = samples.map((s) => s.hips.y);
+    const movement = Math.max(
+      Math.max(...xs) - Math.min(...xs),
+      Math.max(...ys) - Math.min(...ys)
+    );
+    if (movement > options.stillness * unit) {
+      return { calibration: baseline, status, rebaselined: false };
+    }
+
+    // Hips and shoulders are enough to say where the player stands (close to
+    // the camera, their feet may be out of view)
+    const current = measureTorso(samples.map((s) => s.pose));
+    if (!current) {
+      return { calibration: baseline, status, rebaselined: false };
+    }
+    const scale = baseline.torsoLength > 0 ? current.torsoLength / baseline.torsoLength : 1;
+    const baselineHips = getMidpoint(baseline.leftHip, baseline.rightHip);
+    const shift = Math.abs(getMidpoint(current.leftHip, current.rightHip).x - baselineHips.x);
+    const drop = Math.abs(current.hipCenterY - baseline.hipCenterY);
+
+    // Stepped forward, back or aside: start again from here
+    if (Math.abs(scale - 1) > options.stepScale || shift > options.stepDistance * unit) {
+      baseline = { ...baseline, ...current };
+      return { calibration: baseline, status, rebaselined: true };
+    }
+
+    // Drifted a little: follow (a held squat, dropping further, is left alone)
+    if (drop <= options.driftTolerance * unit) {
+      baseline = blendCalibration(baseline, current, options.adaptRate);
+    }
+    return { calibration: baseline, status, rebaselined: false };
+  };
+
+  const reset = (newCalibration: CalibrationData) => {
+    calibration = newCalibration;
+    baseline = newCalibration;
+    status = 'tracking';
+    samples = [];
+  };
+
+  return { update, reset };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { PoseResult } from './types';
+import { DEFAULT_GESTURE_OPTIONS } from './gestureDetection';
+import { derivePersonalGestureOptions, validateCalibration } from './calibration';
+import { generateSyntheticRecording } from './poseSynthesis';
+
+const poses = generateSyntheticRecording({ motion: 'idle-sway' })
+  .frames.map((frame) => frame.pose)
+  .filter((pose): pose is PoseResult => pose !== null);
+
+describe('derivePersonalGestureOptions', () => {
+  const result = validateCalibration(poses.slice(0, 15));
+  if (!result.valid) {
+    throw new Error('Standing poses should pass calibration');
+  }
+  const calibration = result.calibration;
+
+  it('keeps the defaults when too few moves were measured', () => {
+    const options = derivePersonalGestureOptions(
+      { waves: [{ amplitude: 0.1, duration: 300 }], jumps: [] },
+      calibration
+    );
+
+    expect(options).toEqual({});
+  });
+
+  it('sets only the jump debounce from the jump airtime', () => {
+    const options = derivePersonalGestureOptions(
+      {
+        waves: [],
+        jumps: [
+          { amplitude: 0.1, duration: 560 },
+          { amplitude: 0.1, duration: 560 },
+        ],
+      },
+      calibration
+    );
+
+    expect(options.jumpDebounceTime).toBe(700);
+    expect(options.debounceTime).toBeUndefined();
+    expect({ ...DEFAULT_GESTURE_OPTIONS, ...options }.debounceTime).toBe(
+      DEFAULT_GESTURE_OPTIONS.debounceTime
+    );
+  });
+
+  it('expresses move sizes in torso lengths', () => {
+    const amplitude = calibration.torsoLength * 0.5;
+    const options = derivePersonalGestureOptions(
+      {
+        waves: [
+          { amplitude, duration: 300 },
+          { amplitude, duration: 300 },
+        ],
+        jumps: [],
+      },
+      calibration
+    );
+
+    expect(options.waveThreshold).toBeCloseTo(0.2);
+    expect(options.waveTimeWindow).toBe(600);
+  });
+});
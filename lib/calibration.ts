@@ -0,0 +1,512 @@
+/**
+ * Calibration from captured poses
+ *
+ * Calibration has two stages: standing still, which sets the baseline body
+ * position and size, then a few waves and jumps, whose size and speed set
+ * personal detection thresholds (so a small child's waves count as well as
+ * an adult's, without an adult's fidgeting counting as a wave).
+ *
+ * A baseline is only accepted when the whole body, head to feet, was
+ * tracked, centered and sized well in the view, and held still. Otherwise
+ * the player is told what to fix (CALIBRATION_GUIDANCE).
+ */
+
+import type { CalibrationData, GestureDetectionOptions, Landmark, PoseResult } from './types';
+import { POSE_LANDMARKS } from './types';
+import {
+  SIDE_LANDMARKS,
+  getDistance,
+  getHipCenter,
+  getMidpoint,
+  getTorsoLength,
+  isLandmarkVisible,
+  type BodySide,
+  type Point,
+} from './poseGeometry';
+
+// What can stop a player being calibrated, most important first
+export const CALIBRATION_ISSUES = [
+  'no-pose',
+  'body-hidden',
+  'head-hidden',
+  'feet-hidden',
+  'arms-hidden',
+  'too-close',
+  'too-far',
+  'move-left',
+  'move-right',
+  'moving',
+] as const;
+
+export type CalibrationIssue = (typeof CALIBRATION_ISSUES)[number];
+
+// What to tell the player for each issue
+export const CALIBRATION_GUIDANCE: Record<CalibrationIssue, string> = {
+  'no-pose': 'Step in front of the camera',
+  'body-hidden': 'Face the camera so your shoulders and hips are visible',
+  'head-hidden': "Step back, your head isn't visible",
+  'feet-hidden': "Step back, your feet aren't visible",
+  'arms-hidden': 'Keep both hands in view, down by your sides',
+  'too-close': "Step back, you're too close to the camera",
+  'too-far': "Step closer, you're too far from the camera",
+  'move-left': 'Move a little to your left, into the middle of the view',
+  'move-right': 'Move a little to your right, into the middle of the view',
+  'moving': 'Hold still while we measure you',
+};
+
+// Result of validating captured poses as a calibration
+export type CalibrationValidationResult =
+  | { valid: true; calibration: CalibrationData }
+  | { valid: false; issues: CalibrationIssue[] };
+
+// Landmarks calibration needs, by the issue reported when they're missing
+const CALIBRATION_LANDMARKS: Partial<Record<CalibrationIssue, number[]>> = {
+  'body-hidden': [
+    POSE_LANDMARKS.LEFT_SHOULDER,
+    POSE_LANDMARKS.RIGHT_SHOULDER,
+    POSE_LANDMARKS.LEFT_HIP,
+    POSE_LANDMARKS.RIGHT_HIP,
+  ],
+  'head-hidden': [POSE_LANDMARKS.NOSE],
+  'feet-hidden': [
+    POSE_LANDMARKS.LEFT_KNEE,
+    POSE_LANDMARKS.RIGHT_KNEE,
+    POSE_LANDMARKS.LEFT_ANKLE,
+    POSE_LANDMARKS.RIGHT_ANKLE,
+  ],
+  'arms-hidden': [POSE_LANDMARKS.LEFT_WRIST, POSE_LANDMARKS.RIGHT_WRIST],
+};
+
+// Hip and shoulder measurements of a baseline
+export type TorsoMeasurements = Pick<
+  CalibrationData,
+  | 'leftHip'
+  | 'rightHip'
+  | 'leftShoulder'
+  | 'rightShoulder'
+  | 'hipCenterY'
+  | 'shoulderCenterY'
+  | 'shoulderWidth'
+  | 'torsoLength'
+>;
+
+// Min share of captured frames each needed landmark must be visible in
+const MIN_VISIBLE_SHARE = 0.8;
+
+// Where the body must be in the view: torso length (image units) and hip
+// distance from the middle
+const CALIBRATION_FRAMING = {
+  minTorsoLength: 0.1,
+  maxTorsoLength: 0.3,
+  maxOffCenter: 0.2,
+} as const;
+
+// Max hip movement (torso lengths) while the baseline is captured
+const MAX_CAPTURE_MOVEMENT = 0.15;
+
+// One move measured during calibration
+export interface MoveMeasurement {
+  amplitude: number;  // wave: wrist swing height; jump: hip rise (normalized units)
+  duration: number;   // wave: ms per swing; jump: ms off the baseline
+}
+
+// Moves measured in the calibration move stage
+export interface CalibrationMoves {
+  waves: MoveMeasurement[];
+  jumps: MoveMeasurement[];
+}
+
+// Movement smaller than this is treated as tracking noise, not a move
+const MIN_MOVE_AMPLITUDE = 0.02;
+
+// Moves of a kind needed before personal thresholds replace the defaults
+export const MIN_CALIBRATION_MOVES = 2;
+
+// Personal thresholds as a share of the player's typical (median) move
+const WAVE_THRESHOLD_SHARE = 0.4;
+const JUMP_THRESHOLD_SHARE = 0.5;
+
+// Wave window, in the player's typical swing times
+const WAVE_WINDOW_SWINGS = 2;
+
+// Jump debounce, in the player's typical airtimes (one jump is never counted twice)
+const JUMP_DEBOUNCE_AIRTIMES = 1.25;
+
+// How far the player may stand from a stored baseline for it to be reused:
+// torso length change (ratio) and hip shift (torso lengths)
+const CALIBRATION_FIT_LIMITS = {
+  scale: 0.15,
+  shift: 0.5,
+} as const;
+
+// Bounds on personal options, so one odd calibration can't make detection unusable
+// (distances in torso lengths, like the options)
+const PERSONAL_OPTION_LIMITS = {
+  waveThreshold: [0.08, 0.4],
+  waveTimeWindow: [300, 1000],
+  jumpThreshold: [0.12, 0.6],
+  jumpDebounceTime: [300, 800],
+} as const;
+
+/**
+ * Whether a landmark is visible and inside the view (pose models still
+ * estimate landmarks that are out of frame, with low visibility)
+ */
+function isInFrame(landmark: Landmark | undefined): landmark is Landmark {
+  return (
+    isLandmarkVisible(landmark) &&
+    landmark.x >= 0 &&
+    landmark.x <= 1 &&
+    landmark.y >= 0 &&
+    landmark.y <= 1
+  );
+}
+
+/**
+ * Whether a landmark is in the view in most of the poses
+ */
+function isMostlyInFrame(poses: PoseResult[], landmarkIndex: number): boolean {
+  const inFrame = poses.filter((pose) => isInFrame(pose.landmarks[landmarkIndex]));
+  return inFrame.length >= poses.length * MIN_VISIBLE_SHARE;
+}
+
+/**
+ * Average a landmark over the poses where it is in the view
+ * (validated poses have it there in most of them)
+ */
+function averageLandmark(poses: PoseResult[], landmarkIndex: number): Landmark {
+  const visible = poses
+    .map((pose) => pose.landmarks[landmarkIndex])
+    .filter(isInFrame);
+  const average = (value: (lm: Landmark) => number) =>
+    visible.reduce((sum, lm) => sum + value(lm), 0) / visible.length;
+
+  return {
+    x: average((lm) => lm.x),
+    y: average((lm) => lm.y),
+    z: average((lm) => lm.z),
+    visibility: average((lm) => lm.visibility ?? 1),
+  };
+}
+
+/**
+ * Issues with where the body is in the view: too close, too far or off to
+ * one side (hips at hipX, torso torsoLength long)
+ */
+function getFramingIssues(hipX: number, torsoLength: number): CalibrationIssue[] {
+  const issues: CalibrationIssue[] = [];
+  if (torsoLength > CALIBRATION_FRAMING.maxTorsoLength) {
+    issues.push('too-close');
+  } else if (torsoLength < CALIBRATION_FRAMING.minTorsoLength) {
+    issues.push('too-far');
+  }
+
+  // The player's left is at higher x
+  if (hipX < 0.5 - CALIBRATION_FRAMING.maxOffCenter) {
+    issues.push('move-left');
+  } else if (hipX > 0.5 + CALIBRATION_FRAMING.maxOffCenter) {
+    issues.push('move-right');
+  }
+  return issues;
+}
+
+function sortIssues(issues: Iterable<CalibrationIssue>): CalibrationIssue[] {
+  const unique = new Set(issues);
+  return CALIBRATION_ISSUES.filter((issue) => unique.has(issue));
+}
+
+/**
+ * Check a single live frame for what stops the player being calibrated,
+ * most important first (an empty list means they are ready)
+ */
+export function checkCalibrationPose(landmarks: Landmark[] | null): CalibrationIssue[] {
+  if (!landmarks || landmarks.length === 0) {
+    return ['no-pose'];
+  }
+
+  const issues: CalibrationIssue[] = [];
+  for (const [issue, indices] of Object.entries(CALIBRATION_LANDMARKS)) {
+    if (indices.some((index) => !isInFrame(landmarks[index]))) {
+      issues.push(issue as CalibrationIssue);
+    }
+  }
+
+  const hips = getHipCenter(landmarks);
+  const torsoLength = getTorsoLength(landmarks);
+  if (hips && torsoLength) {
+    issues.push(...getFramingIssues(hips.x, torsoLength));
+  }
+  return sortIssues(issues);
+}
+
+/**
+ * Average the hips and shoulders of poses into torso measurements
+ */
+function averageTorso(poses: PoseResult[]): TorsoMeasurements {
+  const leftHip = averageLandmark(poses, POSE_LANDMARKS.LEFT_HIP);
+  const rightHip = averageLandmark(poses, POSE_LANDMARKS.RIGHT_HIP);
+  const leftShoulder = averageLandmark(poses, POSE_LANDMARKS.LEFT_SHOULDER);
+  const rightShoulder = averageLandmark(poses, POSE_LANDMARKS.RIGHT_SHOULDER);
+  const shoulderCenter = getMidpoint(leftShoulder, rightShoulder);
+  const hipCenter = getMidpoint(leftHip, rightHip);
+
+  return {
+    leftHip,
+    rightHip,
+    leftShoulder,
+    rightShoulder,
+    hipCenterY: hipCenter.y,
+    shoulderCenterY: shoulderCenter.y,
+    shoulderWidth: getDistance(leftShoulder, rightShoulder),
+    torsoLength: getDistance(shoulderCenter, hipCenter),
+  };
+}
+
+/**
+ * Measure the torso of poses, or return null unless both hips and both
+ * shoulders are in the view in most of them (the rest of the body may be
+ * out of view, e.g. the feet of a player standing close to the camera)
+ */
+export function measureTorso(poses: PoseResult[]): TorsoMeasurements | null {
+  const indices = CALIBRATION_LANDMARKS['body-hidden'] ?? [];
+  if (poses.length === 0 || !indices.every((index) => isMostlyInFrame(poses, index))) {
+    return null;
+  }
+  return averageTorso(poses);
+}
+
+/**
+ * Validate captured poses as a calibration and average them into baselines
+ * Every landmark calibration needs must be visible (and inside the view) in
+ * most frames, the body must be centered and sized well, and the player
+ * must have held still; otherwise the issues are returned instead.
+ */
+export function validateCalibration(poses: PoseResult[]): CalibrationValidationResult {
+  if (poses.length === 0) {
+    return { valid: false, issues: ['no-pose'] };
+  }
+
+  const issues: CalibrationIssue[] = [];
+  for (const [issue, indices] of Object.entries(CALIBRATION_LANDMARKS)) {
+    if (indices.some((index) => !isMostlyInFrame(poses, index))) {
+      issues.push(issue as CalibrationIssue);
+    }
+  }
+  if (issues.length > 0) {
+    return { valid: false, issues: sortIssues(issues) };
+  }
+
+  const torso = averageTorso(poses);
+  const { torsoLength } = torso;
+  const hipCenter = getMidpoint(torso.leftHip, torso.rightHip);
+
+  issues.push(...getFramingIssues(hipCenter.x, torsoLength));
+
+  // The hips shouldn't have moved while the baseline was captured
+  const hipPositions = poses
+    .map((pose) => getHipCenter(pose.landmarks))
+    .filter((hips): hips is Point => hips !== null);
+  const maxMovement = MAX_CAPTURE_MOVEMENT * torsoLength;
+  if (hipPositions.some((hips) => getDistance(hips, hipCenter) > maxMovement)) {
+    issues.push('moving');
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues: sortIssues(issues) };
+  }
+
+  return {
+    valid: true,
+    calibration: {
+      ...torso,
+      nose: averageLandmark(poses, POSE_LANDMARKS.NOSE),
+      leftWrist: averageLandmark(poses, POSE_LANDMARKS.LEFT_WRIST),
+      rightWrist: averageLandmark(poses, POSE_LANDMARKS.RIGHT_WRIST),
+      timestamp: Date.now(),
+    },
+  };
+}
+
+/**
+ * Calculate calibration baselines by averaging captured poses, throwing if
+ * they don't make a good baseline (see validateCalibration)
+ */
+export function calculateCalibration(poses: PoseResult[]): CalibrationData {
+  const result = validateCalibration(poses);
+  if (!result.valid) {
+    throw new Error(
+      `Invalid calibration: ${result.issues.map((issue) => CALIBRATION_GUIDANCE[issue]).join('; ')}`
+    );
+  }
+  return result.calibration;
+}
+
+/**
+ * Whether a stored calibration still fits the player as measured now (same
+ * size in the image, standing in about the same place), so it can be reused
+ * instead of calibrating again
+ */
+export function calibrationFits(stored: CalibrationData, current: CalibrationData): boolean {
+  if (stored.torsoLength <= 0 || current.torsoLength <= 0) {
+    return false;
+  }
+
+  const scale = current.torsoLength / stored.torsoLength;
+  const shift = getDistance(
+    getMidpoint(stored.leftHip, stored.rightHip),
+    getMidpoint(current.leftHip, current.rightHip)
+  );
+  return (
+    Math.abs(scale - 1) <= CALIBRATION_FIT_LIMITS.scale &&
+    shift <= CALIBRATION_FIT_LIMITS.shift * stored.torsoLength
+  );
+}
+
+function clamp(value: number, [min, max]: readonly [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Split a series of heights into swings between turning points
+ * A turning point only counts once the movement reverses by more than the
+ * noise amplitude, so jitter doesn't split a swing. A swing's duration is
+ * its travel time, leaving out pauses at either end.
+ */
+function findSwings(samples: { y: number; timestamp: number }[]): MoveMeasurement[] {
+  const swings: MoveMeasurement[] = [];
+  let turn = 0;     // index of the last turning point
+  let extreme = 0;  // index of the furthest point since it
+  let direction = 0;  // 1 = moving down, -1 = moving up, 0 = not yet moving
+
+  const addSwing = () => {
+    const from = samples[turn];
+    const to = samples[extreme];
+    const swing = samples.slice(turn, extreme + 1);
+    const leave = swing.findLast((s) => Math.abs(s.y - from.y) <= MIN_MOVE_AMPLITUDE) ?? from;
+    const arrive = swing.find((s) => Math.abs(s.y - to.y) <= MIN_MOVE_AMPLITUDE) ?? to;
+    swings.push({
+      amplitude: Math.abs(to.y - from.y),
+      duration: Math.max(0, arrive.timestamp - leave.timestamp),
+    });
+  };
+
+  samples.forEach((sample, index) => {
+    const delta = sample.y - samples[extreme].y;
+    if (direction === 0) {
+      if (Math.abs(delta) > MIN_MOVE_AMPLITUDE) {
+        direction = Math.sign(delta);
+        extreme = index;
+      }
+    } else if (Math.sign(delta) === direction) {
+      extreme = index;
+    } else if (Math.abs(delta) > MIN_MOVE_AMPLITUDE) {
+      // Reversed: the swing from the last turning point ended at the extreme
+      addSwing();
+      turn = extreme;
+      extreme = index;
+      direction = -direction;
+    }
+  });
+
+  if (direction !== 0) {
+    addSwing();
+  }
+  return swings;
+}
+
+/**
+ * Measure the swings of the waving hand in poses captured while the
+ * player waved (whichever hand moved more)
+ */
+export function measureWaves(poses: PoseResult[]): MoveMeasurement[] {
+  const measureSide = (side: BodySide) =>
+    findSwings(
+      poses
+        .map((pose) => ({ wrist: pose.landmarks[SIDE_LANDMARKS[side].wrist], pose }))
+        .filter(({ wrist }) => isLandmarkVisible(wrist))
+        .map(({ wrist, pose }) => ({ y: wrist.y, timestamp: pose.timestamp }))
+    );
+
+  const total = (swings: MoveMeasurement[]) =>
+    swings.reduce((sum, swing) => sum + swing.amplitude, 0);
+  const left = measureSide('left');
+  const right = measureSide('right');
+  return total(left) >= total(right) ? left : right;
+}
+
+/**
+ * Measure the jumps in poses captured while the player jumped: each time
+ * the hips rose above the calibration baseline
+ */
+export function measureJumps(poses: PoseResult[], calibration: CalibrationData): MoveMeasurement[] {
+  const jumps: MoveMeasurement[] = [];
+  let current: { start: number; end: number; peak: number } | null = null;
+
+  for (const pose of poses) {
+    const hips = getHipCenter(pose.landmarks);
+    if (!hips) continue;
+
+    // Y increases downward, so a rise is a negative delta
+    const rise = calibration.hipCenterY - hips.y;
+    if (rise > MIN_MOVE_AMPLITUDE) {
+      current ??= { start: pose.timestamp, end: pose.timestamp, peak: rise };
+      current.end = pose.timestamp;
+      current.peak = Math.max(current.peak, rise);
+    } else if (current) {
+      jumps.push({ amplitude: current.peak, duration: current.end - current.start });
+      current = null;
+    }
+  }
+
+  if (current) {
+    jumps.push({ amplitude: current.peak, duration: current.end - current.start });
+  }
+  return jumps;
+}
+
+/**
+ * Derive personal gesture detection options from calibration moves
+ * Options are only set for moves measured at least MIN_CALIBRATION_MOVES
+ * times; the rest keep their defaults. Move sizes are converted to torso
+ * lengths using the calibrated body size.
+ */
+export function derivePersonalGestureOptions(
+  moves: CalibrationMoves,
+  calibration: CalibrationData
+): GestureDetectionOptions {
+  const options: GestureDetectionOptions = {};
+  const toBodyUnits = (amplitude: number) =>
+    calibration.torsoLength > 0 ? amplitude / calibration.torsoLength : amplitude;
+
+  if (moves.waves.length >= MIN_CALIBRATION_MOVES) {
+    const amplitude = toBodyUnits(median(moves.waves.map((wave) => wave.amplitude)));
+    const duration = median(moves.waves.map((wave) => wave.duration));
+    options.waveThreshold = clamp(
+      amplitude * WAVE_THRESHOLD_SHARE,
+      PERSONAL_OPTION_LIMITS.waveThreshold
+    );
+    options.waveTimeWindow = Math.round(
+      clamp(duration * WAVE_WINDOW_SWINGS, PERSONAL_OPTION_LIMITS.waveTimeWindow)
+    );
+  }
+
+  if (moves.jumps.length >= MIN_CALIBRATION_MOVES) {
+    const amplitude = toBodyUnits(median(moves.jumps.map((jump) => jump.amplitude)));
+    const airtime = median(moves.jumps.map((jump) => jump.duration));
+    options.jumpThreshold = clamp(
+      amplitude * JUMP_THRESHOLD_SHARE,
+      PERSONAL_OPTION_LIMITS.jumpThreshold
+    );
+    options.jumpDebounceTime = Math.round(
+      clamp(airtime * JUMP_DEBOUNCE_AIRTIMES, PERSONAL_OPTION_LIMITS.jumpDebounceTime)
+    );
+  }
+
+  return options;
+}
@@ -0,0 +1,235 @@
+/**
+ * Chart (beatmap) format, validation and loading
+ *
+ * A chart is a versioned JSON file describing when each note of a song
+ * should be hit:
+ *
+ * {
+ *   "version": 1,
+ *   "song": { "title": "...", "artist": "...", "audio": "/sounds/song.mp3" },
+ *   "bpm": 120,
+ *   "offset": 0,
+ *   "difficulty": "easy",
+ *   "layout": "classic",
+ *   "notes": [{ "time": 2000, "lane": 0 }, { "time": 2500, "lane": 1, "duration": 1000 }]
+ * }
+ *
+ * Note times are in ms of chart time. Chart time 0 is the first beat, which
+ * sits `offset` ms into the audio, so a note plays at audio time
+ * offset + time and the beat grid is every 60000 / bpm ms of chart time.
+ * Notes with a duration are hold notes, held for that many ms after their time.
+ * Lanes index the chart's lane layout (lib/laneLayouts), classic when omitted.
+ */
+
+import type { Arrow, Chart, ChartNote, DifficultyLevel, LaneIndex } from './types';
+import { HIT_ZONE, getArrowPosition } from './gameConstants';
+import { getLaneLayout, isLaneLayoutId } from './laneLayouts';
+
+// Current chart file format version
+export const CHART_FORMAT_VERSION = 1;
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// Result of validating raw chart data
+export type ChartValidationResult =
+  | { valid: true; chart: Chart }
+  | { valid: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isLaneIndex(value: unknown, laneCount: number): value is LaneIndex {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < laneCount;
+}
+
+/**
+ * Validate raw (parsed JSON) chart data
+ * Returns a normalized chart with notes sorted by time, or a list of errors
+ */
+export function validateChart(data: unknown): ChartValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['Chart must be a JSON object'] };
+  }
+
+  if (data.version !== CHART_FORMAT_VERSION) {
+    errors.push(
+      `Unsupported chart version: ${String(data.version)} (expected ${CHART_FORMAT_VERSION})`
+    );
+  }
+
+  const song = data.song;
+  if (!isRecord(song)) {
+    errors.push('Missing song metadata');
+  } else {
+    if (typeof song.title !== 'string' || song.title.length === 0) {
+      errors.push('song.title must be a non-empty string');
+    }
+    if (typeof song.artist !== 'string') {
+      errors.push('song.artist must be a string');
+    }
+    if (song.audio !== undefined && typeof song.audio !== 'string') {
+      errors.push('song.audio must be a string');
+    }
+  }
+
+  if (!isFiniteNumber(data.bpm) || data.bpm <= 0) {
+    errors.push('bpm must be a positive number');
+  }
+
+  if (!isFiniteNumber(data.offset)) {
+    errors.push('offset must be a number');
+  }
+
+  if (
+    data.difficulty !== undefined &&
+    !DIFFICULTY_LEVELS.includes(data.difficulty as DifficultyLevel)
+  ) {
+    errors.push(`Unknown difficulty: ${String(data.difficulty)}`);
+  }
+
+  if (data.layout !== undefined && !isLaneLayoutId(data.layout)) {
+    errors.push(`Unknown lane layout: ${String(data.layout)}`);
+  }
+  const laneCount = getLaneLayout(isLaneLayoutId(data.layout) ? data.layout : undefined).lanes.length;
+
+  const notes: ChartNote[] = [];
+  if (!Array.isArray(data.notes)) {
+    errors.push('notes must be an array');
+  } else {
+    data.notes.forEach((note: unknown, index: number) => {
+      if (!isRecord(note)) {
+        errors.push(`notes[${index}] must be an object`);
+        return;
+      }
+      if (!isFiniteNumber(note.time) || note.time < 0) {
+        errors.push(`notes[${index}].time must be a non-negative number`);
+        return;
+      }
+      if (!isLaneIndex(note.lane, laneCount)) {
+        errors.push(`notes[${index}].lane must be an integer 0-${laneCount - 1}`);
+        return;
+      }
+      if (note.duration !== undefined && (!isFiniteNumber(note.duration) || note.duration <= 0)) {
+        errors.push(`notes[${index}].duration must be a positive number`);
+        return;
+      }
+      notes.push({
+        time: note.time,
+        lane: note.lane,
+        ...(note.duration !== undefined && { duration: note.duration }),
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const songInfo = song as Record<string, unknown>;
+
+  return {
+    valid: true,
+    chart: {
+      version: CHART_FORMAT_VERSION,
+      song: {
+        title: songInfo.title as string,
+        artist: songInfo.artist as string,
+        ...(songInfo.audio !== undefined && { audio: songInfo.audio as string }),
+      },
+      bpm: data.bpm as number,
+      offset: data.offset as number,
+      ...(data.difficulty !== undefined && { difficulty: data.difficulty as DifficultyLevel }),
+      ...(isLaneLayoutId(data.layout) && { layout: data.layout }),
+      notes: notes.sort((a, b) => a.time - b.time),
+    },
+  };
+}
+
+/**
+ * Validate raw chart data, throwing if it is invalid
+ */
+export function parseChart(data: unknown): Chart {
+  const result = validateChart(data);
+  if (!result.valid) {
+    throw new Error(`Invalid chart: ${result.errors.join('; ')}`);
+  }
+  return result.chart;
+}
+
+/**
+ * Fetch and validate a chart file
+ */
+export async function loadChart(src: string): Promise<Chart> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Failed to load chart ${src}: ${response.status} ${response.statusText}`);
+  }
+  return parseChart(await response.json());
+}
+
+/**
+ * Get the song time (in ms) at which a chart note's arrow must be
+ * spawned so that it reaches the target position exactly at the note time
+ */
+export function getNoteSpawnTime(
+  note: ChartNote,
+  chart: Pick<Chart, 'offset'>,
+  arrowTravelTime: number
+): number {
+  return note.time + chart.offset - arrowTravelTime * HIT_ZONE.TARGET;
+}
+
+/**
+ * Snap a chart time to the nearest beat subdivision
+ * (subdivision 1 = beats, 2 = eighth notes, 4 = sixteenth notes)
+ */
+export function snapToBeatGrid(time: number, bpm: number, subdivision: number): number {
+  const step = 60000 / bpm / subdivision;
+  return Math.max(0, Math.round(Math.round(time / step) * step));
+}
+
+/**
+ * Build the arrows of a chart as they appear at a given song time, using the
+ * same spawn and movement timing as the game engine (for previews)
+ */
+export function getChartArrowsAt(
+  chart: Pick<Chart, 'offset' | 'notes'>,
+  currentTime: number,
+  arrowTravelTime: number
+): Arrow[] {
+  const arrows: Arrow[] = [];
+
+  chart.notes.forEach((note, index) => {
+    const spawnTime = getNoteSpawnTime(note, chart, arrowTravelTime);
+    if (spawnTime > currentTime) {
+      return;
+    }
+
+    const position = getArrowPosition(spawnTime, currentTime, arrowTravelTime);
+    const tailPosition = note.duration
+      ? getArrowPosition(spawnTime + note.duration, currentTime, arrowTravelTime)
+      : undefined;
+    if ((tailPosition ?? position) > HIT_ZONE.PERFECT_END) {
+      return;
+    }
+
+    arrows.push({
+      id: `preview-${index}`,
+      lane: note.lane,
+      spawnTime,
+      position,
+      hit: false,
+      missed: false,
+      ...(note.duration && { duration: note.duration, tailPosition }),
+    });
+  });
+
+  return arrows;
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartNote, LaneLayoutId } from './types';
+import {
+  computeOnsetEnvelope,
+  createChartFromAnalysis,
+  estimateBeatOffset,
+  estimateTempo,
+  generateNotes,
+  pickOnsets,
+  type AudioAnalysis,
+} from './chartGenerator';
+import { LANE_LAYOUT_IDS, getLaneLayout } from './laneLayouts';
+import { validateChart } from './chart';
+
+// Analysis rate and frame length the generator works at
+const SAMPLE_RATE = 22050;
+const FRAME_MS = (512 / SAMPLE_RATE) * 1000;
+
+// Click track: a click on every beat, a kick under every other beat and a
+// quieter hat on every off-beat, starting at the first beat
+interface ClickTrack {
+  /** Full-band PCM */
+  samples: Float32Array;
+  /** Low-band PCM (the kicks alone) */
+  lowSamples: Float32Array;
+  /** ms of every beat */
+  beats: number[];
+  /** ms of every off-beat hat */
+  hats: number[];
+}
+
+function createClickTrack(bpm: number, firstBeat = 300, duration = 20000): ClickTrack {
+  const samples = new Float32Array(Math.round((duration / 1000) * SAMPLE_RATE));
+  const lowSamples = new Float32Array(samples.length);
+  const beatMs = 60000 / bpm;
+  const beats: number[] = [];
+  const hats: number[] = [];
+
+  // Add a decaying tone (or noise, when frequency is 0) at a time
+  let seed = 1;
+  const add = (target: Float32Array, time: number, frequency: number, amplitude: number) => {
+    const start = Math.round((time / 1000) * SAMPLE_RATE);
+    const length = Math.round(0.06 * SAMPLE_RATE);
+    for (let i = 0; i < length && start + i < target.length; i++) {
+      const t = i / SAMPLE_RATE;
+      seed = (seed * 16807) % 2147483647;
+      const wave = frequency > 0 ? Math.sin(2 * Math.PI * frequency * t) : seed / 1073741824 - 1;
+      target[start + i] += wave * amplitude * Math.exp(-t * 60);
+    }
+  };
+
+  for (let time = firstBeat, beat = 0; time < duration - beatMs; time += beatMs, beat++) {
+    beats.push(time);
+    add(samples, time, 1000, 0.5);
+    if (beat % 2 === 0) {
+      add(samples, time, 60, 0.5);
+      add(lowSamples, time, 60, 0.5);
+    }
+    add(samples, time + beatMs / 2, 0, 0.15);
+    hats.push(time + beatMs / 2);
+  }
+  return { samples, lowSamples, beats, hats };
+}
+
+// Analyze a click track the way analyzeAudio does (minus the audio decoding)
+function analyzeClickTrack({ samples, lowSamples }: ClickTrack): AudioAnalysis {
+  const envelope = computeOnsetEnvelope(samples);
+  const bpm = estimateTempo(envelope, FRAME_MS);
+  return {
+    bpm,
+    beatOffset: estimateBeatOffset(envelope, FRAME_MS, bpm),
+    duration: (samples.length / SAMPLE_RATE) * 1000,
+    onsets: pickOnsets(envelope, computeOnsetEnvelope(lowSamples), FRAME_MS),
+  };
+}
+
+describe('computeOnsetEnvelope', () => {
+  it('peaks where a sound starts and stays low in between', () => {
+    const track = createClickTrack(100);
+    const envelope = computeOnsetEnvelope(track.samples);
+    const onsetFrames = [...track.beats, ...track.hats].map((time) => Math.floor(time / FRAME_MS));
+    const isNearOnset = (frame: number) => onsetFrames.some((f) => frame >= f && frame <= f + 1);
+
+    expect(Math.max(...envelope)).toBe(1);
+    envelope.forEach((value, frame) => {
+      if (!isNearOnset(frame)) expect(value, `frame ${frame}`).toBeLessThan(0.05);
+    });
+    for (const time of track.beats) {
+      const frame = Math.floor(time / FRAME_MS);
+      expect(Math.max(envelope[frame], envelope[frame + 1]), `${time}ms`).toBeGreaterThan(0.25);
+    }
+  });
+});
+
+describe('estimateTempo', () => {
+  it.each([90, 100, 120, 128, 140])('finds %s BPM', (bpm) => {
+    const envelope = computeOnsetEnvelope(createClickTrack(bpm).samples);
+
+    // Within the tempo resolution of a whole-frame lag
+    expect(Math.abs(estimateTempo(envelope, FRAME_MS) - bpm)).toBeLessThan(bpm * 0.03);
+  });
+});
+
+describe('estimateBeatOffset', () => {
+  it.each([0, 150, 420])('finds the beat phase of a track starting at %sms', (firstBeat) => {
+    const envelope = computeOnsetEnvelope(createClickTrack(100, firstBeat).samples);
+    const offset = estimateBeatOffset(envelope, FRAME_MS, 100);
+
+    // Any beat is as good a first beat as another
+    const error = Math.abs(offset - firstBeat) % 600;
+    expect(Math.min(error, 600 - error)).toBeLessThan(FRAME_MS * 1.5);
+  });
+});
+
+describe('pickOnsets', () => {
+  const track = createClickTrack(100);
+  const onsets = pickOnsets(
+    computeOnsetEnvelope(track.samples),
+    computeOnsetEnvelope(track.lowSamples),
+    FRAME_MS
+  );
+
+  // Onset picked on each beat
+  const onBeat = track.beats.map((beat) =>
+    onsets.find((onset) => Math.abs(onset.time - beat) < FRAME_MS * 1.5)
+  );
+
+  it('picks an onset on every beat', () => {
+    expect(onBeat.every((onset) => onset !== undefined)).toBe(true);
+  });
+
+  it('marks the beats with a kick as strong in the low band', () => {
+    onBeat.forEach((onset, beat) => {
+      if (beat % 2 === 0) {
+        expect(onset?.lowStrength).toBeGreaterThan(0.25);
+      } else {
+        expect(onset?.lowStrength).toBe(0);
+      }
+    });
+  });
+});
+
+describe('generateNotes', () => {
+  const track = createClickTrack(100);
+  const analysis = analyzeClickTrack(track);
+
+  // Gaps between each note and the next
+  const gaps = (notes: ChartNote[]) => notes.slice(1).map((note, i) => note.time - notes[i].time);
+
+  it.each(LANE_LAYOUT_IDS)('writes performable notes for the %s layout', (id: LaneLayoutId) => {
+    const layout = getLaneLayout(id);
+
+    for (const difficulty of ['easy', 'medium', 'hard'] as const) {
+      const notes = generateNotes(analysis, difficulty, layout);
+      const isBody = (note: ChartNote) => layout.lanes[note.lane].kind === 'body';
+
+      expect(notes.length, difficulty).toBeGreaterThan(5);
+      expect(new Set(notes.map((note) => note.lane)).size, difficulty).toBeGreaterThan(1);
+      for (const note of notes) {
+        expect(Number.isInteger(note.lane) && note.lane < layout.lanes.length).toBe(true);
+      }
+      // Landing from a body move takes longer than switching hands
+      notes.slice(1).forEach((note, i) => {
+        expect(note.time - notes[i].time).toBeGreaterThanOrEqual(isBody(notes[i]) ? 800 : 250);
+      });
+      // Same limb lanes are never hit back to back faster than a wave allows
+      for (let lane = 0; lane < layout.lanes.length; lane++) {
+        const laneNotes = notes.filter((note) => note.lane === lane && !isBody(note));
+        expect(Math.min(...gaps(laneNotes))).toBeGreaterThanOrEqual(400);
+      }
+    }
+  });
+
+  it('spaces notes by difficulty', () => {
+    const easy = generateNotes(analysis, 'easy');
+    const hard = generateNotes(analysis, 'hard');
+
+    expect(Math.min(...gaps(easy))).toBeGreaterThanOrEqual(1000);
+    expect(Math.min(...gaps(hard))).toBeGreaterThanOrEqual(400);
+    expect(hard.length).toBeGreaterThan(easy.length);
+  });
+
+  it('snaps notes to the beat grid', () => {
+    const beatMs = 60000 / analysis.bpm;
+
+    for (const note of generateNotes(analysis, 'hard')) {
+      const eighths = note.time / (beatMs / 2);
+      expect(Math.abs(eighths - Math.round(eighths))).toBeLessThan(0.01);
+    }
+  });
+
+  it('puts body moves on the kicks', () => {
+    const layout = getLaneLayout('classic');
+    const bodyNotes = generateNotes(analysis, 'easy', layout).filter(
+      (note) => layout.lanes[note.lane].kind === 'body'
+    );
+    // Index of the beat nearest a note's time in the audio
+    const nearestBeat = (note: ChartNote) => {
+      const time = note.time + analysis.beatOffset;
+      const distances = track.beats.map((beat) => Math.abs(beat - time));
+      return distances.indexOf(Math.min(...distances));
+    };
+
+    expect(bodyNotes.length).toBeGreaterThan(0);
+    for (const note of bodyNotes) {
+      expect(nearestBeat(note) % 2, `${note.time}ms`).toBe(0);
+    }
+  });
+});
+
+describe('createChartFromAnalysis', () => {
+  it('builds a valid chart timed from the first beat', () => {
+    const analysis = analyzeClickTrack(createClickTrack(100, 420));
+    const chart = createChartFromAnalysis(analysis, { difficulty: 'medium', layout: 'five-lane' });
+
+    expect(validateChart(chart)).toMatchObject({ valid: true });
+    expect(chart).toMatchObject({
+      bpm: analysis.bpm,
+      offset: Math.round(analysis.beatOffset),
+      difficulty: 'medium',
+      layout: 'five-lane',
+    });
+  });
+});
@@ -0,0 +1,505 @@
+/**
+ * Automatic chart generation from an audio file
+ *
+ * Runs entirely in the browser:
+ * 1. Decode the file and render it to mono with OfflineAudioContext
+ *    (full band, plus a low-passed band to find kick drums)
+ * 2. Build an onset-strength envelope from frame energy increases
+ * 3. Estimate tempo by autocorrelating the envelope, and the beat phase
+ *    by aligning a beat grid with it
+ * 4. Pick onset peaks, snap them to the beat grid and thin them out
+ *    per difficulty
+ * 5. Assign lanes of the chosen lane layout so every move is physically
+ *    performable
+ *
+ * The result is a regular Chart, played through the engine's chart mode.
+ */
+
+import type { Chart, ChartNote, DifficultyLevel, LaneIndex, LaneLayoutId } from './types';
+import { CHART_FORMAT_VERSION } from './chart';
+import { DEFAULT_GESTURE_OPTIONS } from './gestureDetection';
+import { getLaneLayout, type LaneLayout } from './laneLayouts';
+
+// Sample rate used for analysis (plenty for onset detection)
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+// Samples per analysis frame (~23ms at 22050 Hz)
+const FRAME_SIZE = 512;
+
+// Cutoff of the low band used to detect kick drums
+const LOW_BAND_CUTOFF = 150;
+
+// Tempo search range
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Tempo the estimate is biased towards (most dance music sits close to it)
+const PREFERRED_BPM = 120;
+
+// Onset peak picking
+const PEAK_WINDOW_MS = 500;        // window for the adaptive threshold
+const PEAK_THRESHOLD_STD = 0.5;    // peaks must exceed mean + k * std
+const MIN_ONSET_GAP_MS = 100;      // merge onsets closer than this
+
+// Grid snapping and density per difficulty
+const GENERATION_SETTINGS = {
+  easy: { subdivision: 1, minNoteGap: 1000 },   // quarter notes, 1 per second
+  medium: { subdivision: 2, minNoteGap: 600 },  // eighth notes
+  hard: { subdivision: 2, minNoteGap: 400 },
+} as const;
+
+// Fraction of a grid step an onset may be off and still snap to it
+const SNAP_TOLERANCE = 0.3;
+
+// Relative low-band strength above which an on-beat onset becomes a jump
+const JUMP_LOW_BAND_RATIO = 0.6;
+
+// Physical limits used when assigning lanes
+const MOVE_TIMING = {
+  SAME_HAND_GAP: DEFAULT_GESTURE_OPTIONS.debounceTime + 100,  // wave, settle, wave again
+  HAND_SWITCH_GAP: 250,   // switch from one limb to another
+  JUMP_PREP: 400,         // set up a jump after any move
+  JUMP_RECOVERY: 800,     // land and recover before the next move
+} as const;
+
+// Detected onset in the audio
+export interface AudioOnset {
+  time: number;          // ms from song start
+  strength: number;      // onset strength, normalized 0-1
+  lowStrength: number;   // low-band (kick) strength, normalized 0-1
+}
+
+// Result of analyzing a song
+export interface AudioAnalysis {
+  bpm: number;
+  beatOffset: number;    // ms of the first beat
+  duration: number;      // song duration in ms
+  onsets: AudioOnset[];
+}
+
+export interface ChartGenerationOptions {
+  difficulty?: DifficultyLevel;
+  /** Lane layout to write the notes for (classic when omitted) */
+  layout?: LaneLayoutId;
+  title?: string;
+  artist?: string;
+  /** Audio path/URL stored in the chart (e.g. an object URL for a local file) */
+  audio?: string;
+}
+
+/**
+ * Decode an encoded audio file (mp3, ogg, wav...) into an AudioBuffer
+ */
+export async function decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  return context.decodeAudioData(data);
+}
+
+/**
+ * Compute peak amplitudes (0-1) of a decoded buffer for waveform display
+ */
+export function computeWaveformPeaks(buffer: AudioBuffer, peaksPerSecond: number): Float32Array {
+  const samples = buffer.getChannelData(0);
+  const bucketSize = Math.max(1, Math.floor(buffer.sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucketSize));
+
+  for (let bucket = 0; bucket < peaks.length; bucket++) {
+    const end = Math.min(samples.length, (bucket + 1) * bucketSize);
+    let peak = 0;
+    for (let i = bucket * bucketSize; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks[bucket] = peak;
+  }
+
+  return normalize(peaks);
+}
+
+/**
+ * Render a buffer to mono at the analysis sample rate, optionally low-passed
+ */
+async function renderMono(buffer: AudioBuffer, lowPassCutoff?: number): Promise<Float32Array> {
+  const length = Math.ceil(buffer.duration * ANALYSIS_SAMPLE_RATE);
+  const context = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  if (lowPassCutoff !== undefined) {
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = lowPassCutoff;
+    source.connect(filter);
+    filter.connect(context.destination);
+  } else {
+    source.connect(context.destination);
+  }
+
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+/**
+ * Compute an onset-strength envelope: the increase in log energy per frame
+ */
+export function computeOnsetEnvelope(samples: Float32Array, frameSize: number = FRAME_SIZE): Float32Array {
+  const frameCount = Math.floor(samples.length / frameSize);
+  const envelope = new Float32Array(frameCount);
+  let previousEnergy = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const start = frame * frameSize;
+    for (let i = start; i < start + frameSize; i++) {
+      sum += samples[i] * samples[i];
+    }
+
+    // The first frame has no previous energy to compare against
+    const energy = Math.log1p((sum / frameSize) * 1000);
+    envelope[frame] = frame === 0 ? 0 : Math.max(0, energy - previousEnergy);
+    previousEnergy = energy;
+  }
+
+  return normalize(envelope);
+}
+
+/**
+ * Scale values so the maximum is 1
+ */
+function normalize(values: Float32Array): Float32Array {
+  let max = 0;
+  for (const value of values) {
+    max = Math.max(max, value);
+  }
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] /= max;
+    }
+  }
+  return values;
+}
+
+/**
+ * Spread each value over its neighbours (1-2-1 smoothing)
+ */
+function smooth(values: Float32Array): Float32Array {
+  const smoothed = new Float32Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    smoothed[i] = ((values[i - 1] ?? 0) + 2 * values[i] + (values[i + 1] ?? 0)) / 4;
+  }
+  return smoothed;
+}
+
+/**
+ * Estimate tempo by autocorrelating the onset envelope
+ */
+export function estimateTempo(onsetEnvelope: Float32Array, frameMs: number): number {
+  const minLag = Math.max(1, Math.floor(60000 / MAX_BPM / frameMs));
+  const maxLag = Math.ceil(60000 / MIN_BPM / frameMs);
+  // Beats rarely last a whole number of frames, so sharp onsets alternate
+  // between two gaps; smoothed, they still line up at the nearest lag
+  // (instead of only at two beats, reading as half tempo)
+  const envelope = smooth(onsetEnvelope);
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      correlation += envelope[i] * envelope[i - lag];
+    }
+    correlation /= envelope.length - lag;
+
+    // Log-Gaussian weighting avoids picking half/double tempo
+    const bpm = 60000 / (lag * frameMs);
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    const score = correlation * Math.exp(-0.5 * octaves * octaves);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  return Math.round((60000 / (bestLag * frameMs)) * 10) / 10;
+}
+
+/**
+ * Find the beat phase (ms of the first beat) that best lines up with onsets
+ */
+export function estimateBeatOffset(envelope: Float32Array, frameMs: number, bpm: number): number {
+  const beatFrames = 60000 / bpm / frameMs;
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+
+  for (let phase = 0; phase < beatFrames; phase++) {
+    let score = 0;
+    for (let position = phase; position < envelope.length; position += beatFrames) {
+      score += envelope[Math.round(position)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return bestPhase * frameMs;
+}
+
+/**
+ * Pick onset peaks that stand out from their local neighborhood
+ */
+export function pickOnsets(
+  envelope: Float32Array,
+  lowEnvelope: Float32Array,
+  frameMs: number
+): AudioOnset[] {
+  const halfWindow = Math.max(1, Math.round(PEAK_WINDOW_MS / frameMs / 2));
+  const minGapFrames = Math.round(MIN_ONSET_GAP_MS / frameMs);
+  const onsets: AudioOnset[] = [];
+  let lastOnsetFrame = -Infinity;
+
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const value = envelope[i];
+    if (value <= envelope[i - 1] || value < envelope[i + 1]) {
+      continue;
+    }
+
+    // Adaptive threshold from the local mean and standard deviation
+    const start = Math.max(0, i - halfWindow);
+    const end = Math.min(envelope.length, i + halfWindow + 1);
+    let sum = 0;
+    let sumSquares = 0;
+    for (let j = start; j < end; j++) {
+      sum += envelope[j];
+      sumSquares += envelope[j] * envelope[j];
+    }
+    const count = end - start;
+    const mean = sum / count;
+    const std = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+
+    if (value <= mean + PEAK_THRESHOLD_STD * std) {
+      continue;
+    }
+
+    const onset: AudioOnset = {
+      time: i * frameMs,
+      strength: value,
+      lowStrength: lowEnvelope[i] ?? 0,
+    };
+
+    if (i - lastOnsetFrame < minGapFrames) {
+      // Keep the stronger of two onsets that are too close together
+      if (onsets.length > 0 && value > onsets[onsets.length - 1].strength) {
+        onsets[onsets.length - 1] = onset;
+        lastOnsetFrame = i;
+      }
+      continue;
+    }
+
+    onsets.push(onset);
+    lastOnsetFrame = i;
+  }
+
+  return onsets;
+}
+
+/**
+ * Analyze a decoded song: tempo, beat phase and onsets
+ */
+export async function analyzeAudio(buffer: AudioBuffer): Promise<AudioAnalysis> {
+  const [fullBand, lowBand] = await Promise.all([
+    renderMono(buffer),
+    renderMono(buffer, LOW_BAND_CUTOFF),
+  ]);
+
+  const frameMs = (FRAME_SIZE / ANALYSIS_SAMPLE_RATE) * 1000;
+  const envelope = computeOnsetEnvelope(fullBand);
+  const lowEnvelope = computeOnsetEnvelope(lowBand);
+
+  const bpm = estimateTempo(envelope, frameMs);
+
+  return {
+    bpm,
+    beatOffset: estimateBeatOffset(envelope, frameMs, bpm),
+    duration: buffer.duration * 1000,
+    onsets: pickOnsets(envelope, lowEnvelope, frameMs),
+  };
+}
+
+/**
+ * Snap onsets to the beat grid, keeping the strongest onset per grid slot
+ * Returned times are chart times (relative to the first beat)
+ */
+function snapOnsetsToGrid(
+  analysis: AudioAnalysis,
+  subdivision: number
+): Array<AudioOnset & { onBeat: boolean }> {
+  const step = 60000 / analysis.bpm / subdivision;
+  const slots = new Map<number, AudioOnset & { onBeat: boolean }>();
+
+  for (const onset of analysis.onsets) {
+    const slot = Math.round((onset.time - analysis.beatOffset) / step);
+    const slotTime = analysis.beatOffset + slot * step;
+
+    if (slot < 0 || Math.abs(onset.time - slotTime) > step * SNAP_TOLERANCE) {
+      continue;
+    }
+
+    const existing = slots.get(slot);
+    if (!existing || onset.strength > existing.strength) {
+      slots.set(slot, {
+        ...onset,
+        time: Math.round(slot * step),
+        onBeat: slot % subdivision === 0,
+      });
+    }
+  }
+
+  return [...slots.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Check whether a move in the given lane can follow the previous notes
+ */
+function canPerform(
+  lane: LaneIndex,
+  time: number,
+  lastNote: ChartNote | null,
+  lastTimeByLane: number[],
+  layout: LaneLayout
+): boolean {
+  if (!lastNote) {
+    return true;
+  }
+
+  const sinceLast = time - lastNote.time;
+
+  // Landing from a jump blocks every move
+  if (layout.lanes[lastNote.lane].kind === 'body' && sinceLast < MOVE_TIMING.JUMP_RECOVERY) {
+    return false;
+  }
+
+  if (layout.lanes[lane].kind === 'body') {
+    return sinceLast >= MOVE_TIMING.JUMP_PREP;
+  }
+
+  // Same limb must finish its move and clear gesture debounce
+  if (time - lastTimeByLane[lane] < MOVE_TIMING.SAME_HAND_GAP) {
+    return false;
+  }
+
+  return sinceLast >= MOVE_TIMING.HAND_SWITCH_GAP;
+}
+
+/**
+ * Turn analyzed onsets into performable chart notes
+ */
+export function generateNotes(
+  analysis: AudioAnalysis,
+  difficulty: DifficultyLevel,
+  layout: LaneLayout = getLaneLayout()
+): ChartNote[] {
+  const settings = GENERATION_SETTINGS[difficulty];
+  const candidates = snapOnsetsToGrid(analysis, settings.subdivision);
+  const laneCount = layout.lanes.length;
+
+  // Limb lanes on the player's left and right; moves alternate sides,
+  // cycling through the lanes of each side
+  const bodyLanes: LaneIndex[] = [];
+  const sides: [LaneIndex[], LaneIndex[]] = [[], []];
+  layout.lanes.forEach((lane, index) => {
+    if (lane.kind === 'body') {
+      bodyLanes.push(index);
+    } else {
+      sides[index < laneCount / 2 ? 0 : 1].push(index);
+    }
+  });
+  const sideMoves = [0, 0];
+  const getSideLane = (side: number): LaneIndex | undefined =>
+    sides[side][sideMoves[side] % sides[side].length];
+
+  const notes: ChartNote[] = [];
+  const lastTimeByLane = Array.from({ length: laneCount }, () => -Infinity);
+  let lastNote: ChartNote | null = null;
+  let nextSide = 0;
+  let bodyMoves = 0;
+
+  for (const candidate of candidates) {
+    if (lastNote && candidate.time - lastNote.time < settings.minNoteGap) {
+      continue;
+    }
+
+    // Strong kicks on the beat become jumps; everything else alternates sides
+    const limbLanes = [getSideLane(nextSide), getSideLane(1 - nextSide)];
+    const preferred =
+      candidate.onBeat && candidate.lowStrength >= JUMP_LOW_BAND_RATIO
+        ? [bodyLanes[bodyMoves % bodyLanes.length], ...limbLanes]
+        : limbLanes;
+
+    const lane = preferred.find(
+      (l): l is LaneIndex =>
+        l !== undefined && canPerform(l, candidate.time, lastNote, lastTimeByLane, layout)
+    );
+    if (lane === undefined) {
+      continue;
+    }
+
+    const note: ChartNote = { time: candidate.time, lane };
+    notes.push(note);
+    lastNote = note;
+    lastTimeByLane[lane] = candidate.time;
+
+    if (layout.lanes[lane].kind === 'body') {
+      bodyMoves += 1;
+    } else {
+      const side = sides[0].includes(lane) ? 0 : 1;
+      sideMoves[side] += 1;
+      nextSide = 1 - side;
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Build a chart from an analyzed song
+ */
+export function createChartFromAnalysis(
+  analysis: AudioAnalysis,
+  options: ChartGenerationOptions = {}
+): Chart {
+  const difficulty = options.difficulty ?? 'easy';
+  const layout = getLaneLayout(options.layout);
+
+  return {
+    version: CHART_FORMAT_VERSION,
+    song: {
+      title: options.title ?? 'Untitled',
+      artist: options.artist ?? 'Unknown',
+      ...(options.audio !== undefined && { audio: options.audio }),
+    },
+    bpm: analysis.bpm,
+    offset: Math.round(analysis.beatOffset),
+    difficulty,
+    ...(options.layout !== undefined && { layout: options.layout }),
+    notes: generateNotes(analysis, difficulty, layout),
+  };
+}
+
+/**
+ * Generate a chart from a local audio file
+ */
+export async function generateChartFromFile(
+  file: File,
+  options: ChartGenerationOptions = {}
+): Promise<Chart> {
+  const buffer = await decodeAudio(await file.arrayBuffer());
+  const analysis = await analyzeAudio(buffer);
+
+  return createChartFromAnalysis(analysis, {
+    title: file.name.replace(/\.[^.]+$/, ''),
+    ...options,
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * Shared game clock
+ *
+ * The clock reports song time in ms. It starts at -leadIn (the countdown),
+ * reaches 0 when the song starts, and from then on follows the playback
+ * position of the attached audio element so arrows stay locked to the beat
+ * through pauses, buffering and tab throttling.
+ *
+ * When no audio is attached (or it cannot play), the clock free-runs on
+ * performance.now(), excluding time spent paused. It also free-runs after
+ * non-looping audio ends, so arrows still in flight can finish.
+ */
+
+export type GameClockPhase = 'stopped' | 'lead-in' | 'playing' | 'paused';
+
+export interface GameClock {
+  /** Current song time in ms (negative during the lead-in) */
+  getTime: () => number;
+  /** Current clock phase */
+  getPhase: () => GameClockPhase;
+  /**
+   * Start leadIn ms before song position `from` (default 0); attached audio
+   * starts playing from `from` when the lead-in is over
+   */
+  start: (leadIn?: number, from?: number) => void;
+  /** Pause the clock (and attached audio) */
+  pause: () => void;
+  /** Resume after pause */
+  resume: () => void;
+  /** Stop the clock (and attached audio), freezing the current time */
+  stop: () => void;
+  /** Attach the audio element that drives the timebase (null to detach) */
+  setAudio: (audio: HTMLAudioElement | null) => void;
+  /** Whether time currently comes from audio playback */
+  isAudioDriven: () => boolean;
+}
+
+// Longest stretch we extrapolate between audio position updates
+// (beyond this, the audio is assumed to be stalled/buffering)
+const MAX_EXTRAPOLATION_MS = 250;
+
+// Minimum backwards jump of the audio position treated as a loop restart
+const LOOP_DETECTION_MS = 500;
+
+/**
+ * Create a game clock
+ */
+export function createGameClock(): GameClock {
+  let phase: GameClockPhase = 'stopped';
+  let resumePhase: GameClockPhase = 'playing';
+  let audio: HTMLAudioElement | null = null;
+  let audioDriven = false;
+
+  // Free-running timebase: time = performance.now() - perfBase
+  let perfBase = 0;
+  // Time reported while paused/stopped
+  let frozenTime = 0;
+  // Song position at which playback begins after the lead-in
+  let startFrom = 0;
+  // Last reported time, used to keep the clock monotonic
+  let lastReported = 0;
+
+  // Audio sampling state
+  let loopBase = 0;
+  let lastRawAudioMs = 0;
+  let lastSampleMs = 0;
+  let lastSamplePerf = 0;
+
+  let leadInTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearLeadInTimer = () => {
+    if (leadInTimer) {
+      clearTimeout(leadInTimer);
+      leadInTimer = null;
+    }
+  };
+
+  const canUseAudio = (element: HTMLAudioElement | null): element is HTMLAudioElement =>
+    element !== null &&
+    !element.error &&
+    element.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA;
+
+  const resetAudioSampling = (timeMs: number) => {
+    loopBase = 0;
+    lastRawAudioMs = timeMs;
+    lastSampleMs = timeMs;
+    lastSamplePerf = performance.now();
+  };
+
+  // Switch from audio to free-running time, continuing from the last reported time
+  const fallBackToPerformanceClock = () => {
+    audioDriven = false;
+    perfBase = performance.now() - lastReported;
+  };
+
+  const readAudioTime = (element: HTMLAudioElement): number => {
+    const now = performance.now();
+    const rawMs = element.currentTime * 1000;
+
+    // Looping audio restarts at 0; keep counting up
+    if (element.loop && rawMs < lastRawAudioMs - LOOP_DETECTION_MS) {
+      loopBase += element.duration * 1000;
+    }
+
+    const audioMs = loopBase + rawMs;
+    if (rawMs !== lastRawAudioMs) {
+      lastRawAudioMs = rawMs;
+      lastSampleMs = audioMs;
+      lastSamplePerf = now;
+    }
+
+    // currentTime updates coarsely in some browsers; extrapolate between updates
+    const extrapolation = element.paused
+      ? 0
+      : Math.min(MAX_EXTRAPOLATION_MS, (now - lastSamplePerf) * element.playbackRate);
+
+    return lastSampleMs + extrapolation;
+  };
+
+  // Lead-in is over: hand the timebase over to the audio if we can
+  const beginPlayback = () => {
+    clearLeadInTimer();
+    phase = 'playing';
+
+    if (!canUseAudio(audio)) {
+      return;
+    }
+
+    const element = audio;
+    element.currentTime = startFrom / 1000;
+    resetAudioSampling(startFrom);
+    audioDriven = true;
+
+    element.play().catch((err) => {
+      console.error('Music playback failed, using performance clock:', err);
+      if (audio === element && audioDriven) {
+        fallBackToPerformanceClock();
+      }
+    });
+  };
+
+  const scheduleLeadIn = (remaining: number) => {
+    clearLeadInTimer();
+    leadInTimer = setTimeout(() => {
+      leadInTimer = null;
+      if (phase === 'lead-in') {
+        beginPlayback();
+      }
+    }, Math.max(0, remaining));
+  };
+
+  const getTime = (): number => {
+    if (phase === 'stopped' || phase === 'paused') {
+      return frozenTime;
+    }
+
+    if (phase === 'lead-in' && performance.now() - perfBase >= startFrom) {
+      beginPlayback();
+    }
+
+    // The song is over; keep time running past its end
+    if (audioDriven && audio?.ended) {
+      fallBackToPerformanceClock();
+    }
+
+    const time = audioDriven && audio
+      ? readAudioTime(audio)
+      : performance.now() - perfBase;
+
+    // Never run backwards (e.g. when audio takes over from the lead-in)
+    lastReported = Math.max(lastReported, time);
+    return lastReported;
+  };
+
+  const start = (leadIn: number = 0, from: number = 0) => {
+    clearLeadInTimer();
+    audioDriven = false;
+    if (audio) {
+      audio.pause();
+    }
+
+    startFrom = from;
+    perfBase = performance.now() + leadIn - from;
+    lastReported = from - leadIn;
+    frozenTime = from - leadIn;
+
+    if (leadIn > 0) {
+      phase = 'lead-in';
+      scheduleLeadIn(leadIn);
+    } else {
+      beginPlayback();
+    }
+  };
+
+  const pause = () => {
+    if (phase !== 'lead-in' && phase !== 'playing') {
+      return;
+    }
+
+    frozenTime = getTime();
+    resumePhase = phase;
+    phase = 'paused';
+    clearLeadInTimer();
+
+    if (audioDriven && audio) {
+      audio.pause();
+    }
+  };
+
+  const resume = () => {
+    if (phase !== 'paused') {
+      return;
+    }
+
+    phase = resumePhase;
+
+    if (audioDriven && audio) {
+      lastSamplePerf = performance.now();
+      audio.play().catch((err) => {
+        console.error('Music playback failed, using performance clock:', err);
+        if (audioDriven) {
+          fallBackToPerformanceClock();
+        }
+      });
+      return;
+    }
+
+    perfBase = performance.now() - frozenTime;
+    if (phase === 'lead-in') {
+      scheduleLeadIn(startFrom - frozenTime);
+    }
+  };
+
+  const stop = () => {
+    if (phase === 'lead-in' || phase === 'playing') {
+      frozenTime = getTime();
+    }
+
+    phase = 'stopped';
+    clearLeadInTimer();
+
+    if (audioDriven && audio) {
+      audio.pause();
+    }
+    audioDriven = false;
+  };
+
+  const setAudio = (element: HTMLAudioElement | null) => {
+    if (element === audio) {
+      return;
+    }
+
+    if (audioDriven) {
+      fallBackToPerformanceClock();
+    }
+    audio = element;
+  };
+
+  return {
+    getTime,
+    getPhase: () => phase,
+    start,
+    pause,
+    resume,
+    stop,
+    setAudio,
+    isAudioDriven: () => audioDriven,
+  };
+}
@@ -2,11 +2,21 @@
  * Game constants for the motion dance game
  */
 
+import type { RandomSource } from './random';
+import type { HitRating, JudgementWindows } from './types';
+
 // Scoring constants
 export const SCORING = {
   PERFECT_POINTS: 100,
+  GREAT_POINTS: 75,
   GOOD_POINTS: 50,
   MISS_POINTS: 0,
+  HOLD_POINTS: 100,  // bonus for holding a hold note to the end (scaled by fraction held)
+} as const;
+
+// Hold note timing
+export const HOLD_NOTE = {
+  RELEASE_GRACE: 250,  // ms the pose may drop out before a hold counts as released
 } as const;
 
 // Combo multiplier thresholds
@@ -17,14 +27,35 @@ export const COMBO_MULTIPLIERS = [
   { threshold: 50, multiplier: 4 },  // 50+ hits: 4x
 ] as const;
 
+// Default judgement windows (ms either side of a note's target time)
+// Generous compared to pad games, since pose detection adds latency
+export const JUDGEMENT_WINDOWS: JudgementWindows = {
+  perfect: 80,
+  great: 150,
+  good: 250,
+  miss: 320,
+};
+
+// "Strike a Pose" mode
+export const POSE_MODE = {
+  SPAWN_INTERVAL_SCALE: 2,  // freestyle poses spawn at this multiple of the difficulty's interval
+  // Min pose similarity (0-1) reached in a note's hit window for each rating
+  RATING_THRESHOLDS: {
+    perfect: 0.85,
+    great: 0.72,
+    good: 0.6,
+  },
+} as const;
+
 // Hit zone boundaries (as percentage of screen height from top)
 // Arrows spawn at 0 and move towards 1
-// Hit zone is the bottom 15% of the screen (85% to 100%)
+// Used for drawing; judgement uses JUDGEMENT_WINDOWS
 export const HIT_ZONE = {
   PERFECT_START: 0.95,  // Perfect zone: 95-100%
   PERFECT_END: 1.0,
   GOOD_START: 0.85,     // Good zone: 85-95%
   GOOD_END: 0.95,
+  TARGET: 0.975,        // Center of the perfect zone (where chart notes land on time)
 } as const;
 
 // Difficulty settings
@@ -46,7 +77,7 @@ export const DIFFICULTY_SETTINGS = {
   },
 } as const;
 
-// Lane configuration
+// Lane configuration of the classic layout (lib/laneLayouts has the others)
 export const LANES = {
   LEFT: 0,
   CENTER: 1,
@@ -54,25 +85,13 @@ export const LANES = {
   COUNT: 3,
 } as const;
 
-// Gesture to lane mapping
-export const GESTURE_TO_LANE: Record<string, number> = {
-  'wave-left': LANES.LEFT,
-  'jump': LANES.CENTER,
-  'wave-right': LANES.RIGHT,
-} as const;
-
-// Lane to gesture mapping
-export const LANE_TO_GESTURE: Record<number, string> = {
-  [LANES.LEFT]: 'wave-left',
-  [LANES.CENTER]: 'jump',
-  [LANES.RIGHT]: 'wave-right',
-} as const;
-
 // Game timing constants
 export const GAME_TIMING = {
   COUNTDOWN_DURATION: 3000,    // 3 second countdown before game starts
   TARGET_FPS: 60,              // Target frames per second
   FRAME_TIME: 1000 / 60,       // ~16.67ms per frame
+  END_DELAY: 1500,             // Pause after the last arrow before the game ends
+  FREESTYLE_TIME_LIMIT: 90000, // Default freestyle session length
 } as const;
 
 // Arrow patterns for spawning
@@ -146,79 +165,181 @@ export function getComboMultiplier(combo: number): number {
  * Calculate score for a hit
  */
 export function calculateHitScore(
-  rating: 'perfect' | 'good',
+  rating: Exclude<HitRating, 'miss'>,
   combo: number
 ): number {
-  const basePoints = rating === 'perfect' ? SCORING.PERFECT_POINTS : SCORING.GOOD_POINTS;
+  const basePoints =
+    rating === 'perfect'
+      ? SCORING.PERFECT_POINTS
+      : rating === 'great'
+        ? SCORING.GREAT_POINTS
+        : SCORING.GOOD_POINTS;
   const multiplier = getComboMultiplier(combo);
   return basePoints * multiplier;
 }
 
 /**
- * Get hit rating based on arrow position
+ * Get hit rating from a hit's offset (ms) from the note's target time
  */
-export function getHitRating(position: number): 'perfect' | 'good' | 'miss' {
-  if (position >= HIT_ZONE.PERFECT_START && position <= HIT_ZONE.PERFECT_END) {
+export function getHitRating(
+  offset: number,
+  windows: JudgementWindows = JUDGEMENT_WINDOWS
+): HitRating {
+  const distance = Math.abs(offset);
+  if (distance <= windows.perfect) {
     return 'perfect';
   }
-  if (position >= HIT_ZONE.GOOD_START && position < HIT_ZONE.PERFECT_START) {
+  if (distance <= windows.great) {
+    return 'great';
+  }
+  if (distance <= windows.good) {
     return 'good';
   }
   return 'miss';
 }
 
 /**
- * Check if an arrow is in the hit zone (good or perfect)
+ * Get the rating for a pose note from the best similarity (0-1) reached
+ */
+export function getPoseRating(similarity: number): HitRating {
+  const thresholds = POSE_MODE.RATING_THRESHOLDS;
+  if (similarity >= thresholds.perfect) {
+    return 'perfect';
+  }
+  if (similarity >= thresholds.great) {
+    return 'great';
+  }
+  if (similarity >= thresholds.good) {
+    return 'good';
+  }
+  return 'miss';
+}
+
+/**
+ * Get the time (ms) an arrow reaches the target line
+ */
+export function getArrowTargetTime(spawnTime: number, arrowTravelTime: number): number {
+  return spawnTime + arrowTravelTime * HIT_ZONE.TARGET;
+}
+
+/**
+ * Get an arrow's position (0 = top, 1 = bottom) at a given time
+ */
+export function getArrowPosition(
+  spawnTime: number,
+  currentTime: number,
+  arrowTravelTime: number
+): number {
+  return Math.max(0, (currentTime - spawnTime) / arrowTravelTime);
+}
+
+/**
+ * Calculate the bonus for a hold note held for a fraction (0-1) of its length
+ */
+export function calculateHoldScore(fraction: number, combo: number): number {
+  const clamped = Math.max(0, Math.min(1, fraction));
+  return Math.round(SCORING.HOLD_POINTS * clamped) * getComboMultiplier(combo);
+}
+
+/**
+ * Check if a gesture at this offset (ms) from a note's target time is judged
+ * (early gestures inside the miss window are judged as a miss)
  */
-export function isInHitZone(position: number): boolean {
-  return position >= HIT_ZONE.GOOD_START && position <= HIT_ZONE.PERFECT_END;
+export function isInHitWindow(
+  offset: number,
+  windows: JudgementWindows = JUDGEMENT_WINDOWS
+): boolean {
+  return offset >= -Math.max(windows.miss, windows.good) && offset <= windows.good;
 }
 
 /**
- * Check if an arrow has passed the hit zone (missed)
+ * Check if a note is past its hit window (missed)
  */
-export function hasMissedHitZone(position: number): boolean {
-  return position > HIT_ZONE.PERFECT_END;
+export function hasMissedHitWindow(
+  offset: number,
+  windows: JudgementWindows = JUDGEMENT_WINDOWS
+): boolean {
+  return offset > windows.good;
+}
+
+// Arrow pattern: lane indices with timing offsets
+export type ArrowPattern = ReadonlyArray<{ lane: number; delay: number }>;
+
+/**
+ * Get the arrow patterns of each type for a lane count
+ * Three lanes use ARROW_PATTERNS; other counts get singles in every lane,
+ * neighbouring (and outer) pairs, and runs of three lanes
+ */
+export function getArrowPatterns(
+  laneCount: number
+): Record<'single' | 'double' | 'triple', ArrowPattern[]> {
+  if (laneCount === LANES.COUNT) {
+    return {
+      single: [
+        ARROW_PATTERNS.singleLeft,
+        ARROW_PATTERNS.singleCenter,
+        ARROW_PATTERNS.singleRight,
+      ],
+      double: [
+        ARROW_PATTERNS.doubleLeftRight,
+        ARROW_PATTERNS.doubleCenterLeft,
+        ARROW_PATTERNS.doubleCenterRight,
+      ],
+      triple: [
+        ARROW_PATTERNS.tripleSequence,
+        ARROW_PATTERNS.tripleReverse,
+      ],
+    };
+  }
+
+  const lanes = Array.from({ length: laneCount }, (_, lane) => lane);
+  const sequence = (laneOrder: number[], step: number): ArrowPattern =>
+    laneOrder.map((lane, index) => ({ lane, delay: index * step }));
+
+  const double = lanes.slice(1).flatMap((lane) => [
+    sequence([lane - 1, lane], 200),
+    sequence([lane, lane - 1], 200),
+  ]);
+  if (laneCount > 2) {
+    double.push(sequence([0, laneCount - 1], 200));
+  }
+
+  // Two lanes have no run of three, so triples go back and forth
+  const triple =
+    laneCount > 2
+      ? lanes.slice(2).flatMap((lane) => [
+          sequence([lane - 2, lane - 1, lane], 300),
+          sequence([lane, lane - 1, lane - 2], 300),
+        ])
+      : [sequence([0, 1, 0], 300), sequence([1, 0, 1], 300)];
+
+  return { single: lanes.map((lane) => sequence([lane], 0)), double, triple };
 }
 
 /**
  * Select a random pattern based on difficulty weights
+ * Pass a seeded random source for a reproducible sequence
  */
 export function selectRandomPattern(
-  difficulty: 'easy' | 'medium' | 'hard'
-): Array<{ lane: 0 | 1 | 2; delay: number }> {
+  difficulty: 'easy' | 'medium' | 'hard',
+  random: RandomSource = Math.random,
+  laneCount: number = LANES.COUNT
+): Array<{ lane: number; delay: number }> {
   const weights = PATTERN_WEIGHTS[difficulty];
-  const random = Math.random();
+  const roll = random();
 
   let patternType: 'single' | 'double' | 'triple';
-  if (random < weights.single) {
+  if (roll < weights.single) {
     patternType = 'single';
-  } else if (random < weights.single + weights.double) {
+  } else if (roll < weights.single + weights.double) {
     patternType = 'double';
   } else {
     patternType = 'triple';
   }
 
   // Select a random pattern of the chosen type
-  const patterns = {
-    single: [
-      ARROW_PATTERNS.singleLeft,
-      ARROW_PATTERNS.singleCenter,
-      ARROW_PATTERNS.singleRight,
-    ],
-    double: [
-      ARROW_PATTERNS.doubleLeftRight,
-      ARROW_PATTERNS.doubleCenterLeft,
-      ARROW_PATTERNS.doubleCenterRight,
-    ],
-    triple: [
-      ARROW_PATTERNS.tripleSequence,
-      ARROW_PATTERNS.tripleReverse,
-    ],
-  };
-
-  const availablePatterns = patterns[patternType];
-  const randomIndex = Math.floor(Math.random() * availablePatterns.length);
+  const availablePatterns = getArrowPatterns(laneCount)[patternType];
+  const randomIndex = Math.floor(random() * availablePatterns.length);
 
   // Return a mutable copy of the pattern
   return availablePatterns[randomIndex].map(p => ({ ...p }));
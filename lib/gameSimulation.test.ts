@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import type { Chart, ChartNote, GestureId } from './types';
+import { createGameSimulation, type GameSimulation, type SimulationEvent } from './gameSimulation';
+import { LANES } from './gameConstants';
+import { CHART_FORMAT_VERSION } from './chart';
+
+// Frame length used to step the simulation
+const FRAME = 10;
+
+// Chart whose note times are also their target times (offset 0)
+function createChart(notes: ChartNote[]): Chart {
+  return {
+    version: CHART_FORMAT_VERSION,
+    song: { title: 'Test', artist: 'Test' },
+    bpm: 120,
+    offset: 0,
+    notes,
+  };
+}
+
+// Start a session on a chart at song time 0
+function startSession(notes: ChartNote[]): GameSimulation {
+  const sim = createGameSimulation();
+  sim.init({ difficulty: 'easy', chart: createChart(notes), startTime: 0, seed: 1 });
+  return sim;
+}
+
+// Tick frame by frame up to a song time, collecting the events
+function advanceTo(sim: GameSimulation, time: number): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  while (sim.getTime() < time) {
+    events.push(...sim.tick(Math.min(FRAME, time - sim.getTime())));
+  }
+  return events;
+}
+
+// Advance to a song time and perform a gesture there
+function gestureAt(sim: GameSimulation, time: number, type: GestureId = 'jump') {
+  advanceTo(sim, time);
+  return sim.applyGesture({ type, timestamp: time, confidence: 1 });
+}
+
+const centerNote = (time: number, duration?: number): ChartNote => ({
+  time,
+  lane: LANES.CENTER,
+  ...(duration && { duration }),
+});
+
+describe('createGameSimulation', () => {
+  describe('judgement windows', () => {
+    it('scores a perfect hit on the beat', () => {
+      const sim = startSession([centerNote(1000)]);
+      const result = gestureAt(sim, 1000);
+
+      expect(result).toMatchObject({ hit: true, rating: 'perfect', score: 100 });
+      expect(sim.getState()).toMatchObject({ score: 100, perfectHits: 1 });
+    });
+
+    it('scores a great hit and reports it late', () => {
+      const sim = startSession([centerNote(1000)]);
+      const result = gestureAt(sim, 1120);
+
+      expect(result).toMatchObject({ hit: true, rating: 'great', score: 75, timing: 'late' });
+      expect(sim.getState()).toMatchObject({ score: 75, greatHits: 1 });
+    });
+
+    it('scores a good hit and reports it early', () => {
+      const sim = startSession([centerNote(1000)]);
+      const result = gestureAt(sim, 800);
+
+      expect(result).toMatchObject({ hit: true, rating: 'good', score: 50, timing: 'early' });
+      expect(sim.getState()).toMatchObject({ score: 50, goodHits: 1 });
+    });
+
+    it('uses up a note as a miss when the gesture is far too early', () => {
+      const sim = startSession([centerNote(1000)]);
+      const result = gestureAt(sim, 700);
+
+      expect(result).toMatchObject({ hit: false, rating: 'miss', timing: 'early' });
+      expect(sim.getState()).toMatchObject({ score: 0, misses: 1, combo: 0 });
+    });
+
+    it('ignores gestures outside every window or in another lane', () => {
+      const sim = startSession([centerNote(1000)]);
+
+      expect(gestureAt(sim, 500)).toEqual({ hit: false });
+      expect(gestureAt(sim, 1000, 'wave-left')).toEqual({ hit: false });
+      expect(sim.getState()).toMatchObject({ score: 0, misses: 0 });
+    });
+
+    it('honours judgement window overrides', () => {
+      const sim = createGameSimulation();
+      sim.init({
+        difficulty: 'easy',
+        chart: createChart([centerNote(1000)]),
+        startTime: 0,
+        judgementWindows: { perfect: 150 },
+      });
+
+      expect(gestureAt(sim, 1120)).toMatchObject({ rating: 'perfect', score: 100 });
+    });
+  });
+
+  describe('combo', () => {
+    it('increments the combo on every hit', () => {
+      const sim = startSession([centerNote(1000), centerNote(2000), centerNote(3000)]);
+      gestureAt(sim, 1000);
+      gestureAt(sim, 2000);
+      gestureAt(sim, 3000);
+
+      expect(sim.getState()).toMatchObject({ combo: 3, maxCombo: 3, score: 300 });
+    });
+
+    it('applies the combo multiplier from the tenth hit', () => {
+      const sim = startSession(Array.from({ length: 10 }, (_, i) => centerNote(1000 * (i + 1))));
+      for (let i = 1; i < 10; i++) {
+        expect(gestureAt(sim, 1000 * i)).toMatchObject({ score: 100 });
+      }
+
+      expect(gestureAt(sim, 10000)).toMatchObject({ score: 200 });
+      expect(sim.getState()).toMatchObject({ combo: 10, score: 1100 });
+    });
+
+    it('resets the combo on a miss and keeps the best combo', () => {
+      const sim = startSession([centerNote(1000), centerNote(2000), centerNote(3000), centerNote(4000)]);
+      gestureAt(sim, 1000);
+      gestureAt(sim, 2000);
+      advanceTo(sim, 3500);
+      gestureAt(sim, 4000);
+
+      expect(sim.getState()).toMatchObject({ combo: 1, maxCombo: 2, misses: 1, score: 300 });
+    });
+  });
+
+  describe('misses', () => {
+    it('counts a note as missed once it passes the hit window', () => {
+      const sim = startSession([centerNote(1000)]);
+
+      expect(advanceTo(sim, 1240)).toEqual([]);
+      const events = advanceTo(sim, 1300);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'miss', arrow: { missed: true, hitRating: 'miss' } });
+      expect(sim.getState()).toMatchObject({ misses: 1, combo: 0 });
+    });
+
+    it('does not judge a missed note again', () => {
+      const sim = startSession([centerNote(1000)]);
+      advanceTo(sim, 1300);
+
+      expect(gestureAt(sim, 1310)).toEqual({ hit: false });
+      expect(sim.getState().misses).toBe(1);
+    });
+
+    it('reports unplayed notes in the final statistics', () => {
+      const sim = startSession([centerNote(1000), centerNote(2000)]);
+      gestureAt(sim, 1000);
+      advanceTo(sim, 2300);
+
+      expect(sim.end()).toMatchObject({
+        score: 100,
+        misses: 1,
+        totalArrows: 2,
+        accuracy: 50,
+      });
+    });
+  });
+
+  describe('hold notes', () => {
+    it('awards the full hold bonus when held to the end', () => {
+      const sim = startSession([centerNote(1000, 1000)]);
+      expect(gestureAt(sim, 1000)).toMatchObject({ hit: true, score: 100 });
+      sim.setHeldGestures({ jump: true });
+
+      const events = advanceTo(sim, 2010);
+      const holdEnd = events.find((event) => event.type === 'hold-end');
+
+      expect(holdEnd).toMatchObject({ score: 100, arrow: { holdState: 'completed', holdProgress: 1 } });
+      expect(sim.getState().score).toBe(200);
+    });
+
+    it('scores the share held when the pose is released', () => {
+      const sim = startSession([centerNote(1000, 1000)]);
+      gestureAt(sim, 1000);
+      sim.setHeldGestures({ jump: true });
+      advanceTo(sim, 1400);
+      sim.setHeldGestures({});
+
+      const events = advanceTo(sim, 2000);
+      const holdEnd = events.find((event) => event.type === 'hold-end');
+
+      expect(holdEnd).toMatchObject({ score: 40, arrow: { holdState: 'released' } });
+      expect(sim.getState().score).toBe(140);
+    });
+
+    it('keeps the combo when a hold is released', () => {
+      const sim = startSession([centerNote(1000, 1000)]);
+      gestureAt(sim, 1000);
+      advanceTo(sim, 2000);
+
+      expect(sim.getState()).toMatchObject({ combo: 1, misses: 0 });
+    });
+  });
+
+  it('finishes after every note is played and the end delay passes', () => {
+    const sim = startSession([centerNote(1000)]);
+    gestureAt(sim, 1000);
+
+    const events = advanceTo(sim, 3000);
+
+    expect(events).toContainEqual({ type: 'finished' });
+    expect(sim.isFinished()).toBe(true);
+  });
+});
@@ -0,0 +1,686 @@
+/**
+ * Headless game simulation
+ *
+ * Owns all game rules - arrow spawning, movement, misses, hold notes, pose
+ * notes, combo and scoring - with no React or DOM dependencies. Time only moves forward
+ * through tick(dt), so a session can be driven by the game clock in the
+ * browser or stepped deterministically from a script.
+ *
+ *   const sim = createGameSimulation();
+ *   sim.init({ difficulty: 'easy', chart, startTime: -3000 });
+ *   const events = sim.tick(16);
+ *   const result = sim.applyGesture({ type: 'jump', timestamp, confidence: 1 });
+ */
+
+import type {
+  Arrow,
+  Chart,
+  DifficultyLevel,
+  GameMode,
+  GameState,
+  GameStats,
+  GestureEvent,
+  HeldGestures,
+  HitRating,
+  HitResult,
+  JudgementWindows,
+  Landmark,
+} from './types';
+import {
+  DIFFICULTY_SETTINGS,
+  GAME_TIMING,
+  HOLD_NOTE,
+  JUDGEMENT_WINDOWS,
+  LANES,
+  POSE_MODE,
+  calculateHitScore,
+  calculateHoldScore,
+  getHitRating,
+  getPoseRating,
+  getArrowTargetTime,
+  isInHitWindow,
+  hasMissedHitWindow,
+  getArrowPosition,
+  selectRandomPattern,
+} from './gameConstants';
+import { getNoteSpawnTime } from './chart';
+import { createEmptyHeldGestures } from './gestureDetection';
+import { DEFAULT_LANE_LAYOUT, getGestureLane, getLaneLayout, type LaneLayout } from './laneLayouts';
+import { POSE_TARGET_IDS, getPoseTarget, scorePoseMatch } from './poseTargets';
+import { createSeededRandom, generateSeed, type RandomSource } from './random';
+
+// Session setup
+export interface GameSimulationConfig {
+  difficulty: DifficultyLevel;
+  /**
+   * 'pose' plays every note as a target pose (at the chart's note times, or
+   * on a fixed interval in freestyle), in the classic layout's center lane
+   */
+  mode?: GameMode;
+  /** Chart to play; when omitted, arrows are spawned randomly (freestyle mode) */
+  chart?: Chart | null;
+  /** Lane layout for freestyle mode (charts use their own layout) */
+  layout?: LaneLayout;
+  /** Seed for freestyle patterns (random when omitted) */
+  seed?: number;
+  /** Song length in ms; the session ends with the song */
+  songDuration?: number;
+  /** Session time limit in ms */
+  timeLimit?: number;
+  /** Initial song time in ms (negative for a countdown lead-in) */
+  startTime?: number;
+  /** Judgement window overrides in ms (defaults to JUDGEMENT_WINDOWS) */
+  judgementWindows?: Partial<JudgementWindows>;
+}
+
+// Things that happened during a tick
+export type SimulationEvent =
+  | { type: 'miss'; arrow: Arrow }
+  | { type: 'hold-end'; arrow: Arrow; score: number }
+  | { type: 'pose-hit'; result: HitResult }
+  | { type: 'finished' };
+
+export interface GameSimulation {
+  /** Start a new session */
+  init: (config: GameSimulationConfig) => void;
+  /** Advance time by dt ms, returning what happened */
+  tick: (dt: number) => SimulationEvent[];
+  /** Apply a detected gesture, judging the closest arrow in its lane by timing */
+  applyGesture: (event: GestureEvent) => HitResult;
+  /** Update which gesture poses are held (for hold notes) */
+  setHeldGestures: (held: HeldGestures) => void;
+  /**
+   * Match the player's pose against the pose notes in their hit window
+   * Returns the similarity (0-1) to the closest one, or null if none is open
+   */
+  applyPose: (landmarks: Landmark[]) => number | null;
+  /** Update the song length / time limit of the running session */
+  setSessionLimits: (songDuration?: number, timeLimit?: number) => void;
+  /** Pause (ticks and gestures are ignored while paused) */
+  pause: () => void;
+  /** Resume after pause */
+  resume: () => void;
+  /** End the session and get its final statistics */
+  end: () => GameStats;
+  /** Return to the idle state */
+  reset: () => void;
+  /** Set difficulty (applies to the next session) */
+  setDifficulty: (difficulty: DifficultyLevel) => void;
+  /** Current game state (a new object whenever it changes) */
+  getState: () => GameState;
+  /** Current song time in ms */
+  getTime: () => number;
+  /** Seed of the current session */
+  getSeed: () => number;
+  /** Lane layout of the current session */
+  getLayout: () => LaneLayout;
+  /** Whether the session is over (every arrow played and the end delay passed) */
+  isFinished: () => boolean;
+}
+
+/**
+ * Initial game state
+ */
+export function createInitialGameState(difficulty: DifficultyLevel): GameState {
+  return {
+    status: 'idle',
+    score: 0,
+    combo: 0,
+    maxCombo: 0,
+    perfectHits: 0,
+    greatHits: 0,
+    goodHits: 0,
+    misses: 0,
+    arrows: [],
+    difficulty,
+  };
+}
+
+/**
+ * Whether an arrow needs no further play (hold notes stay open while held)
+ */
+export function isArrowResolved(arrow: Arrow): boolean {
+  return (arrow.hit || arrow.missed) && arrow.holdState !== 'holding';
+}
+
+/**
+ * Create a game simulation
+ */
+export function createGameSimulation(
+  initialDifficulty: DifficultyLevel = 'easy'
+): GameSimulation {
+  let state: GameState = createInitialGameState(initialDifficulty);
+  let time = 0;
+  let chart: Chart | null = null;
+  let mode: GameMode = 'dance';
+  let layout: LaneLayout = DEFAULT_LANE_LAYOUT;
+  let seed = 0;
+  let random: RandomSource = Math.random;
+  let sessionEnd = Infinity;
+  let windows: JudgementWindows = JUDGEMENT_WINDOWS;
+
+  let chartNoteIndex = 0;
+  let lastSpawnTime = 0;
+  let arrowIdCounter = 0;
+  let totalArrowsSpawned = 0;
+  // Song time when the last arrow was resolved after spawning finished
+  let finishedAt: number | null = null;
+  let finished = false;
+
+  let held: HeldGestures = createEmptyHeldGestures();
+  // Last song time each active hold note's pose was held, by arrow id
+  const holdLastHeld = new Map<string, number>();
+
+  const generateArrowId = (): string => {
+    arrowIdCounter += 1;
+    return `arrow-${arrowIdCounter}`;
+  };
+
+  // Whether the chart has notes left to spawn before the session ends
+  const hasChartNotesLeft = (activeChart: Chart): boolean => {
+    const note = activeChart.notes[chartNoteIndex];
+    return note !== undefined && note.time + activeChart.offset <= sessionEnd;
+  };
+
+  // Pose note with a random target (from the session's seeded random source)
+  const createPoseArrow = (spawnTime: number): Arrow => ({
+    id: generateArrowId(),
+    lane: LANES.CENTER,
+    spawnTime,
+    position: 0,
+    hit: false,
+    missed: false,
+    pose: POSE_TARGET_IDS[Math.floor(random() * POSE_TARGET_IDS.length)],
+  });
+
+  // Ms between freestyle spawns
+  const getSpawnInterval = (difficulty: DifficultyLevel): number => {
+    const { spawnInterval } = DIFFICULTY_SETTINGS[difficulty];
+    return mode === 'pose' ? spawnInterval * POSE_MODE.SPAWN_INTERVAL_SCALE : spawnInterval;
+  };
+
+  // Whether freestyle arrows spawned at a time would still reach the target in time
+  const canSpawnFreestyle = (spawnTime: number, difficulty: DifficultyLevel): boolean => {
+    const { arrowTravelTime } = DIFFICULTY_SETTINGS[difficulty];
+    return getArrowTargetTime(spawnTime, arrowTravelTime) <= sessionEnd;
+  };
+
+  // Whether all arrows of the session have been spawned
+  const isSpawningDone = (difficulty: DifficultyLevel): boolean => {
+    if (chart) {
+      return !hasChartNotesLeft(chart);
+    }
+
+    const nextSpawnAt = lastSpawnTime + getSpawnInterval(difficulty);
+    return !canSpawnFreestyle(Math.max(time, nextSpawnAt), difficulty);
+  };
+
+  // Spawn arrows for every chart note whose spawn time has been reached
+  const spawnChartArrows = (difficulty: DifficultyLevel, activeChart: Chart): Arrow[] => {
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const newArrows: Arrow[] = [];
+
+    while (hasChartNotesLeft(activeChart)) {
+      const note = activeChart.notes[chartNoteIndex];
+      const spawnTime = getNoteSpawnTime(note, activeChart, settings.arrowTravelTime);
+
+      if (spawnTime > time) {
+        break;
+      }
+
+      if (mode === 'pose') {
+        newArrows.push(createPoseArrow(spawnTime));
+      } else {
+        newArrows.push({
+          id: generateArrowId(),
+          lane: note.lane,
+          spawnTime,
+          position: 0,
+          hit: false,
+          missed: false,
+          ...(note.duration && { duration: note.duration, tailPosition: 0 }),
+        });
+      }
+      chartNoteIndex += 1;
+    }
+
+    return newArrows;
+  };
+
+  // Spawn arrows from the chart, or from a random pattern in freestyle mode
+  const spawnArrows = (difficulty: DifficultyLevel): Arrow[] => {
+    if (chart) {
+      return spawnChartArrows(difficulty, chart);
+    }
+
+    // Patterns spawn on a fixed interval grid (not frame times) so a seed
+    // always reproduces the same arrows at the same song times
+    const spawnAt = lastSpawnTime + getSpawnInterval(difficulty);
+
+    if (time < spawnAt || !canSpawnFreestyle(spawnAt, difficulty)) {
+      return [];
+    }
+
+    lastSpawnTime = spawnAt;
+
+    if (mode === 'pose') {
+      return [createPoseArrow(spawnAt)];
+    }
+
+    return selectRandomPattern(difficulty, random, layout.lanes.length).map((p) => ({
+      id: generateArrowId(),
+      lane: p.lane,
+      spawnTime: spawnAt + p.delay,
+      position: 0,
+      hit: false,
+      missed: false,
+    }));
+  };
+
+  // Update arrow positions
+  // (hit and missed arrows keep moving so hold tails and faded misses scroll off)
+  const updateArrowPositions = (arrows: Arrow[], difficulty: DifficultyLevel): Arrow[] => {
+    const { arrowTravelTime } = DIFFICULTY_SETTINGS[difficulty];
+
+    return arrows.map((arrow) => {
+      const position = getArrowPosition(arrow.spawnTime, time, arrowTravelTime);
+
+      if (!arrow.duration) {
+        return { ...arrow, position };
+      }
+
+      return {
+        ...arrow,
+        position,
+        tailPosition: getArrowPosition(arrow.spawnTime + arrow.duration, time, arrowTravelTime),
+      };
+    });
+  };
+
+  // Offset (ms) of the current time from an arrow's target time (negative = early)
+  const getTimingOffset = (arrow: Arrow, difficulty: DifficultyLevel): number =>
+    time - getArrowTargetTime(arrow.spawnTime, DIFFICULTY_SETTINGS[difficulty].arrowTravelTime);
+
+  // Judge pose notes whose hit window has passed by the best match reached in it
+  // (notes that never matched well enough are left to be missed)
+  const judgePoseArrows = (
+    arrows: Arrow[],
+    difficulty: DifficultyLevel
+  ): { arrows: Arrow[]; hitArrows: Arrow[] } => {
+    const hitArrows: Arrow[] = [];
+
+    const updatedArrows = arrows.map((arrow) => {
+      if (!arrow.pose || arrow.hit || arrow.missed) {
+        return arrow;
+      }
+      if (!hasMissedHitWindow(getTimingOffset(arrow, difficulty), windows)) {
+        return arrow;
+      }
+
+      const rating = getPoseRating(arrow.poseMatch ?? 0);
+      if (rating === 'miss') {
+        return arrow;
+      }
+
+      const hitArrow = { ...arrow, hit: true, hitRating: rating };
+      hitArrows.push(hitArrow);
+      return hitArrow;
+    });
+
+    return { arrows: updatedArrows, hitArrows };
+  };
+
+  // Mark arrows past their hit window without being hit as missed
+  const checkMissedArrows = (
+    arrows: Arrow[],
+    difficulty: DifficultyLevel
+  ): { arrows: Arrow[]; missedArrows: Arrow[] } => {
+    const missedArrows: Arrow[] = [];
+
+    const updatedArrows = arrows.map((arrow) => {
+      if (arrow.hit || arrow.missed) {
+        return arrow;
+      }
+      if (!hasMissedHitWindow(getTimingOffset(arrow, difficulty), windows)) {
+        return arrow;
+      }
+
+      const missedArrow = { ...arrow, missed: true, hitRating: 'miss' as const };
+      missedArrows.push(missedArrow);
+      return missedArrow;
+    });
+
+    return { arrows: updatedArrows, missedArrows };
+  };
+
+  // Track held hold notes: complete them when the tail passes, release them
+  // when the pose has been dropped for longer than the grace period
+  const updateHoldNotes = (
+    arrows: Arrow[],
+    difficulty: DifficultyLevel,
+    combo: number
+  ): { arrows: Arrow[]; holdScore: number; endedHolds: { arrow: Arrow; score: number }[] } => {
+    const { arrowTravelTime } = DIFFICULTY_SETTINGS[difficulty];
+    let holdScore = 0;
+    const endedHolds: { arrow: Arrow; score: number }[] = [];
+
+    const updatedArrows = arrows.map((arrow) => {
+      if (arrow.holdState !== 'holding' || !arrow.duration) {
+        return arrow;
+      }
+
+      const duration = arrow.duration;
+      const headTime = getArrowTargetTime(arrow.spawnTime, arrowTravelTime);
+      const getProgress = (at: number) => Math.max(0, Math.min(1, (at - headTime) / duration));
+
+      const isHeld = Object.entries(held).some(
+        ([gesture, isGestureHeld]) => isGestureHeld && getGestureLane(gesture, layout) === arrow.lane
+      );
+      if (isHeld) {
+        holdLastHeld.set(arrow.id, time);
+      }
+      const lastHeldTime = holdLastHeld.get(arrow.id) ?? time;
+
+      let endedArrow: Arrow | null = null;
+      if (time >= headTime + duration) {
+        endedArrow = { ...arrow, holdState: 'completed', holdProgress: 1 };
+      } else if (time - lastHeldTime > HOLD_NOTE.RELEASE_GRACE) {
+        endedArrow = { ...arrow, holdState: 'released', holdProgress: getProgress(lastHeldTime) };
+      }
+
+      if (!endedArrow) {
+        return { ...arrow, holdProgress: getProgress(time) };
+      }
+
+      const score = calculateHoldScore(endedArrow.holdProgress ?? 0, combo);
+      holdScore += score;
+      endedHolds.push({ arrow: endedArrow, score });
+      holdLastHeld.delete(arrow.id);
+      return endedArrow;
+    });
+
+    return { arrows: updatedArrows, holdScore, endedHolds };
+  };
+
+  // Remove arrows (and hold tails) far past the bottom of the screen
+  const cleanupArrows = (arrows: Arrow[]): Arrow[] =>
+    arrows.filter(
+      (arrow) => (arrow.tailPosition ?? arrow.position) <= 1.5 || !isArrowResolved(arrow)
+    );
+
+  const resetCounters = () => {
+    chartNoteIndex = 0;
+    lastSpawnTime = 0;
+    arrowIdCounter = 0;
+    totalArrowsSpawned = 0;
+    finishedAt = null;
+    finished = false;
+    holdLastHeld.clear();
+  };
+
+  const setSessionLimits = (songDuration?: number, timeLimit?: number) => {
+    sessionEnd = Math.min(songDuration || Infinity, timeLimit || Infinity);
+  };
+
+  const init = (config: GameSimulationConfig) => {
+    resetCounters();
+
+    chart = config.chart ?? null;
+    mode = config.mode ?? 'dance';
+    if (mode === 'pose') {
+      layout = DEFAULT_LANE_LAYOUT;
+    } else {
+      layout = chart ? getLaneLayout(chart.layout) : (config.layout ?? DEFAULT_LANE_LAYOUT);
+    }
+    seed = config.seed ?? generateSeed();
+    random = createSeededRandom(seed);
+    time = config.startTime ?? 0;
+    setSessionLimits(config.songDuration, config.timeLimit);
+    windows = { ...JUDGEMENT_WINDOWS, ...config.judgementWindows };
+
+    state = {
+      ...createInitialGameState(config.difficulty),
+      status: time < 0 ? 'countdown' : 'playing',
+    };
+  };
+
+  const tick = (dt: number): SimulationEvent[] => {
+    if (state.status !== 'countdown' && state.status !== 'playing') {
+      return [];
+    }
+
+    time += Math.max(0, dt);
+    const { difficulty } = state;
+    const events: SimulationEvent[] = [];
+
+    const newArrows = spawnArrows(difficulty);
+    totalArrowsSpawned += newArrows.length;
+
+    const moved = updateArrowPositions([...state.arrows, ...newArrows], difficulty);
+    const { arrows: afterPoses, hitArrows } = judgePoseArrows(moved, difficulty);
+    const { arrows: afterMiss, missedArrows } = checkMissedArrows(afterPoses, difficulty);
+    const { arrows: afterHolds, holdScore, endedHolds } = updateHoldNotes(
+      afterMiss,
+      difficulty,
+      state.combo
+    );
+    const arrows = cleanupArrows(afterHolds);
+
+    for (const arrow of missedArrows) {
+      events.push({ type: 'miss', arrow });
+    }
+    for (const { arrow, score } of endedHolds) {
+      events.push({ type: 'hold-end', arrow, score });
+    }
+
+    state = {
+      ...state,
+      status: time >= 0 ? 'playing' : 'countdown',
+      arrows,
+      score: state.score + holdScore,
+      misses: state.misses + missedArrows.length,
+      combo: missedArrows.length > 0 ? 0 : state.combo,
+    };
+
+    for (const arrow of hitArrows) {
+      const rating = arrow.hitRating as Exclude<HitRating, 'miss'>;
+      const score = recordHit(rating);
+      events.push({ type: 'pose-hit', result: { hit: true, arrow, rating, score } });
+    }
+
+    // Session over: once every arrow is resolved, finish after a short delay
+    if (time >= 0 && isSpawningDone(difficulty) && arrows.every(isArrowResolved)) {
+      if (finishedAt === null) {
+        finishedAt = Math.min(time, sessionEnd);
+      } else if (!finished && time - finishedAt >= GAME_TIMING.END_DELAY) {
+        finished = true;
+        events.push({ type: 'finished' });
+      }
+    }
+
+    return events;
+  };
+
+  // Count a hit in the combo and score, returning the points it earned
+  const recordHit = (rating: Exclude<HitRating, 'miss'>): number => {
+    const combo = state.combo + 1;
+    const score = calculateHitScore(rating, combo);
+
+    state = {
+      ...state,
+      score: state.score + score,
+      combo,
+      maxCombo: Math.max(state.maxCombo, combo),
+      perfectHits: rating === 'perfect' ? state.perfectHits + 1 : state.perfectHits,
+      greatHits: rating === 'great' ? state.greatHits + 1 : state.greatHits,
+      goodHits: rating === 'good' ? state.goodHits + 1 : state.goodHits,
+    };
+    return score;
+  };
+
+  const applyGesture = (event: GestureEvent): HitResult => {
+    if (state.status !== 'playing') {
+      return { hit: false };
+    }
+
+    // Get the lane for this gesture
+    const gestureLane = getGestureLane(event.type, layout);
+    if (gestureLane === null) {
+      return { hit: false };
+    }
+
+    // Closest unplayed arrow in its hit window for this lane
+    const candidates = state.arrows
+      .filter((arrow) => arrow.lane === gestureLane && !arrow.pose && !arrow.hit && !arrow.missed)
+      .map((arrow) => ({ arrow, offset: getTimingOffset(arrow, state.difficulty) }))
+      .filter(({ offset }) => isInHitWindow(offset, windows))
+      .sort((a, b) => Math.abs(a.offset) - Math.abs(b.offset));
+
+    if (candidates.length === 0) {
+      return { hit: false };
+    }
+
+    const { arrow: hitArrow, offset } = candidates[0];
+    const rating = getHitRating(offset, windows);
+    const timing = offset < 0 ? 'early' : 'late';
+
+    // Far too early: the note is used up as a miss
+    if (rating === 'miss') {
+      const missedArrow: Arrow = { ...hitArrow, missed: true, hitRating: 'miss', hitOffset: offset };
+      state = {
+        ...state,
+        arrows: state.arrows.map((arrow) => (arrow.id === hitArrow.id ? missedArrow : arrow)),
+        misses: state.misses + 1,
+        combo: 0,
+      };
+      return { hit: false, arrow: missedArrow, rating, offset, timing };
+    }
+
+    // Hold notes stay open until the tail passes or the pose is released
+    if (hitArrow.duration) {
+      holdLastHeld.set(hitArrow.id, time);
+    }
+
+    state = {
+      ...state,
+      arrows: state.arrows.map((arrow) =>
+        arrow.id === hitArrow.id
+          ? {
+              ...arrow,
+              hit: true,
+              hitRating: rating,
+              hitOffset: offset,
+              ...(arrow.duration && { holdState: 'holding' as const, holdProgress: 0 }),
+            }
+          : arrow
+      ),
+    };
+    const score = recordHit(rating);
+
+    return { hit: true, arrow: hitArrow, rating, score, offset, timing };
+  };
+
+  const applyPose = (landmarks: Landmark[]): number | null => {
+    if (state.status !== 'playing') {
+      return null;
+    }
+
+    // Similarity to the open pose note closest to its target time
+    let closestSimilarity: number | null = null;
+    let closestDistance = Infinity;
+    let changed = false;
+
+    const arrows = state.arrows.map((arrow) => {
+      if (!arrow.pose || arrow.hit || arrow.missed) {
+        return arrow;
+      }
+      const offset = getTimingOffset(arrow, state.difficulty);
+      const target = getPoseTarget(arrow.pose);
+      if (!target || Math.abs(offset) > windows.good) {
+        return arrow;
+      }
+
+      const similarity = scorePoseMatch(landmarks, target)?.similarity ?? 0;
+      if (Math.abs(offset) < closestDistance) {
+        closestDistance = Math.abs(offset);
+        closestSimilarity = similarity;
+      }
+      if (similarity <= (arrow.poseMatch ?? 0)) {
+        return arrow;
+      }
+      changed = true;
+      return { ...arrow, poseMatch: similarity };
+    });
+
+    if (changed) {
+      state = { ...state, arrows };
+    }
+    return closestSimilarity;
+  };
+
+  const pause = () => {
+    if (state.status === 'playing') {
+      state = { ...state, status: 'paused' };
+    }
+  };
+
+  const resume = () => {
+    if (state.status === 'paused') {
+      state = { ...state, status: 'playing' };
+    }
+  };
+
+  const end = (): GameStats => {
+    const totalHits = state.perfectHits + state.greatHits + state.goodHits;
+    const totalAttempts = totalHits + state.misses;
+
+    // Arrows still in flight when ending early were never played
+    const unresolvedArrows = state.arrows.filter((arrow) => !arrow.hit && !arrow.missed).length;
+
+    state = { ...state, status: 'ended' };
+
+    return {
+      score: state.score,
+      maxCombo: state.maxCombo,
+      perfectHits: state.perfectHits,
+      greatHits: state.greatHits,
+      goodHits: state.goodHits,
+      misses: state.misses,
+      totalArrows: totalArrowsSpawned - unresolvedArrows,
+      accuracy: totalAttempts > 0 ? (totalHits / totalAttempts) * 100 : 0,
+      duration: Math.max(0, finishedAt ?? time),
+      seed,
+    };
+  };
+
+  const reset = () => {
+    resetCounters();
+    time = 0;
+    state = createInitialGameState(state.difficulty);
+  };
+
+  const setDifficulty = (difficulty: DifficultyLevel) => {
+    state = { ...state, difficulty };
+  };
+
+  return {
+    init,
+    tick,
+    applyGesture,
+    applyPose,
+    setHeldGestures: (next) => {
+      held = next;
+    },
+    setSessionLimits,
+    pause,
+    resume,
+    end,
+    reset,
+    setDifficulty,
+    getState: () => state,
+    getTime: () => time,
+    getSeed: () => seed,
+    getLayout: () => layout,
+    isFinished: () => finished,
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { GestureId, PoseResult } from './types';
+import {
+  DEFAULT_GESTURE_OPTIONS,
+  createInitialGestureState,
+  processGestureFrame,
+  type GestureFrameOptions,
+  type GestureTrackingState,
+} from './gestureDetection';
+import { createGestureRegistry, createPoseGesture, type GestureDefinition } from './gestureRegistry';
+import { validateCalibration } from './calibration';
+import { generateSyntheticRecording } from './poseSynthesis';
+
+// Standing poses to run detection on (the test gestures ignore them)
+const poses = generateSyntheticRecording({ motion: 'idle-sway' })
+  .frames.map((frame) => frame.pose)
+  .filter((pose): pose is PoseResult => pose !== null);
+const calibrationResult = validateCalibration(poses.slice(0, 15));
+if (!calibrationResult.valid) {
+  throw new Error('Standing poses should pass calibration');
+}
+const calibration = calibrationResult.calibration;
+
+// Gesture detected on every frame from a time on
+function createTestGesture(id: GestureId, from: number): GestureDefinition<null> {
+  return {
+    id,
+    label: id,
+    icon: '',
+    lane: 1,
+    createState: () => null,
+    detect: ({ timestamp }, state) => ({ detected: timestamp >= from, confidence: 1, state }),
+  };
+}
+
+// Pose gesture held during the given time spans (inclusive)
+function createTestPose(id: GestureId, spans: [number, number][]) {
+  return createPoseGesture({
+    id,
+    label: id,
+    icon: '',
+    lane: 1,
+    getConfidence: ({ timestamp }) =>
+      spans.some(([start, end]) => timestamp >= start && timestamp <= end) ? 1 : null,
+  });
+}
+
+describe('processGestureFrame', () => {
+  // Run frames at the given times, returning the gesture reported in each
+  const run = (
+    definitions: GestureDefinition<unknown>[],
+    times: number[],
+    options: GestureFrameOptions = DEFAULT_GESTURE_OPTIONS
+  ) => {
+    const registry = createGestureRegistry(definitions);
+    let state: GestureTrackingState = createInitialGestureState();
+
+    return times.map((time) => {
+      const result = processGestureFrame(
+        poses[0].landmarks,
+        calibration,
+        state,
+        time,
+        options,
+        undefined,
+        registry
+      );
+      state = result.newState;
+      return result.gesture;
+    });
+  };
+
+  it('reports the first registered gesture when several are detected', () => {
+    const gestures = run(
+      [createTestGesture('arms-up', 1000), createTestGesture('wave-left', 1000)],
+      [1000]
+    );
+
+    expect(gestures).toEqual(['arms-up']);
+  });
+
+  it('lets an outranked gesture fire on the next frame', () => {
+    const gestures = run(
+      [createTestGesture('arms-up', 1000), createTestGesture('wave-left', 1000)],
+      [1000, 1100, 1200]
+    );
+
+    expect(gestures).toEqual(['arms-up', 'wave-left', null]);
+  });
+
+  it('debounces a reported gesture', () => {
+    const gestures = run([createTestGesture('wave-left', 1000)], [1000, 1100, 1400, 1600]);
+
+    expect(gestures).toEqual(['wave-left', null, null, 'wave-left']);
+  });
+
+  it('reads a gesture\'s own debounce time from the options', () => {
+    const options = { ...DEFAULT_GESTURE_OPTIONS, jumpDebounceTime: 200 };
+    const jump: GestureDefinition<null> = {
+      ...createTestGesture('jump', 1000),
+      debounceTime: ({ jumpDebounceTime }) => jumpDebounceTime,
+    };
+    const times = [1000, 1100, 1300];
+
+    expect(run([jump], times, options)).toEqual(['jump', null, 'jump']);
+    expect(run([createTestGesture('wave-left', 1000)], times, options)).toEqual([
+      'wave-left',
+      null,
+      null,
+    ]);
+  });
+
+  it('reports a pose struck while outranked once it is no longer outranked', () => {
+    const gestures = run(
+      [createTestPose('arms-up', [[1000, 1100]]), createTestPose('jump', [[1000, 1500]])],
+      [1000, 1050, 1100, 1200, 1300]
+    );
+
+    expect(gestures).toEqual(['arms-up', 'jump', null, null, null]);
+  });
+
+  it('reports a pose struck again inside the debounce time once it has passed', () => {
+    const gestures = run(
+      [createTestPose('squat', [[1000, 1100], [1300, 2000]])],
+      [1000, 1100, 1200, 1300, 1400, 1500, 1600, 1700]
+    );
+
+    expect(gestures).toEqual(['squat', null, null, null, null, null, 'squat', null]);
+  });
+});
@@ -1,5 +1,14 @@
 /**
- * Pure functions for gesture detection logic
+ * Pure functions for gesture detection logic, and the built-in gestures
+ *
+ * Gestures are defined in a registry (see lib/gestureRegistry); this file
+ * defines the built-in ones, the default registry every consumer reads from,
+ * and processGestureFrame, which runs the registered detectors on a frame.
+ * Custom gestures can be added with gestureRegistry.register.
+ *
+ * Distance thresholds are in torso lengths, as measured at calibration, and
+ * scaled to image units for each frame, so a player far from the camera
+ * doesn't have to move further than one close to it.
  *
  * Coordinate system notes:
  * - x: 0-1, left-right (0 = left edge, 1 = right edge)
@@ -7,50 +16,121 @@
  * - So LOWER y values mean HIGHER position in frame
  */
 
-import type { Landmark, CalibrationData, GestureType } from './types';
+import type { Landmark, CalibrationData, GestureType, HeldGestures } from './types';
 import { POSE_LANDMARKS } from './types';
-
-// Position sample for tracking movement over time
-export interface PositionSample {
-  y: number;
-  timestamp: number;
-}
-
-// State for tracking wrist positions
-export interface WristTrackingState {
-  samples: PositionSample[];
-  lastGestureTime: number;
-}
-
-// State for tracking jump
-export interface JumpTrackingState {
-  isInJump: boolean;
+import { LANES } from './gameConstants';
+import {
+  SIDE_LANDMARKS,
+  getDistance,
+  getMidpoint,
+  getOppositeSide,
+  getTorsoLean,
+  getTorsoTurn,
+  isLandmarkVisible as isVisible,
+  type BodySide,
+} from './poseGeometry';
+import {
+  createGestureRegistry,
+  createPoseGesture,
+  type GestureDefinition,
+  type GestureFrame,
+  type GestureRegistry,
+  type PositionSample,
+  type WristSamples,
+} from './gestureRegistry';
+
+// Tracking state of one registered gesture
+export interface RegisteredGestureState {
+  state: unknown;
   lastGestureTime: number;
 }
 
 // Combined gesture tracking state
 export interface GestureTrackingState {
-  leftWrist: WristTrackingState;
-  rightWrist: WristTrackingState;
-  jump: JumpTrackingState;
+  wrists: WristSamples;
+  gestures: Partial<Record<string, RegisteredGestureState>>;
 }
 
-// Default options
+// Default options (distances in torso lengths)
 export const DEFAULT_GESTURE_OPTIONS = {
-  waveThreshold: 0.05,      // min Y movement for wave detection
-  waveTimeWindow: 500,      // ms window for wave detection
-  jumpThreshold: 0.08,      // min Y rise for jump detection
+  waveThreshold: 0.24,      // min Y movement for wave detection
+  waveTimeWindow: 500,      // ms window for wave (and clap) detection
+  clapThreshold: 0.6,       // min closing of the wrist gap for clap detection
+  tPoseTolerance: 0.24,     // max wrist-to-shoulder Y difference for T-pose detection
+  jumpThreshold: 0.32,      // min Y rise for jump detection
+  kickThreshold: 0.4,       // min ankle lift above the other ankle for kick detection
+  squatThreshold: 0.28,     // min hip drop below baseline for squat detection
+  leanThreshold: 12,        // min shoulder-line tilt against the hips (degrees) for lean detection
+  turnThreshold: 0.5,       // min shoulder depth difference (in shoulder widths) for turn detection
   debounceTime: 500,        // ms between same gesture type
+  jumpDebounceTime: 500,    // ms between jumps (set from the player's airtime at calibration)
 } as const;
 
+// Thresholds used by processGestureFrame
+export type GestureFrameOptions = {
+  [K in keyof typeof DEFAULT_GESTURE_OPTIONS]: number;
+};
+
+// Options that are distances, scaled by the player's torso length
+const BODY_SCALED_OPTIONS = [
+  'waveThreshold',
+  'clapThreshold',
+  'tPoseTolerance',
+  'jumpThreshold',
+  'kickThreshold',
+  'squatThreshold',
+] as const;
+
+// Torso length (image units) assumed when calibration didn't measure one
+const FALLBACK_TORSO_LENGTH = 0.25;
+
+// Wrists closer than this are touching (clap), in torso lengths
+const CLAP_CONTACT_DISTANCE = 0.4;
+
+// Standing ankle height below the hips, in torso lengths
+const ANKLE_DROP = 1.2;
+
+// Min distance of each wrist from the body's centre for T-pose, in shoulder widths
+const T_POSE_MIN_SPREAD = 1.5;
+
+// Other wrist movement (share of the wave threshold) that rules out a one-handed wave
+const WAVE_OTHER_HAND_SHARE = 0.5;
+
+// How close (share of the wave threshold) a raised wrist must come back to
+// its starting height to end a wave
+const WAVE_REST_SHARE = 0.5;
+
+/**
+ * Get the player's torso length in image units, the unit of distance thresholds
+ */
+function getBodyUnit(calibration: CalibrationData): number {
+  return calibration.torsoLength > 0 ? calibration.torsoLength : FALLBACK_TORSO_LENGTH;
+}
+
+/**
+ * Convert options' distance thresholds from torso lengths to image units
+ * for a calibrated player (detectors compare them against landmarks)
+ */
+export function scaleGestureOptions(
+  options: GestureFrameOptions,
+  calibration: CalibrationData
+): GestureFrameOptions {
+  const unit = getBodyUnit(calibration);
+  const scaled = { ...options };
+  for (const key of BODY_SCALED_OPTIONS) {
+    scaled[key] = options[key] * unit;
+  }
+  return scaled;
+}
+
 /**
  * Create initial gesture tracking state
+ * Each gesture's own state is created the first time it runs
  */
 export function createInitialGestureState(): GestureTrackingState {
   return {
-    leftWrist: { samples: [], lastGestureTime: 0 },
-    rightWrist: { samples: [], lastGestureTime: 0 },
-    jump: { isInJump: false, lastGestureTime: 0 },
+    wrists: { left: [], right: [] },
+    gestures: {},
   };
 }
 
@@ -59,23 +139,18 @@ export function createInitialGestureState(): GestureTrackingState {
  * Removes samples older than the time window
  */
 export function addPositionSample(
-  state: WristTrackingState,
-  y: number,
+  samples: PositionSample[],
+  position: { x: number; y: number },
   timestamp: number,
   timeWindow: number
-): WristTrackingState {
+): PositionSample[] {
   const cutoffTime = timestamp - timeWindow;
 
   // Filter out old samples and add new one
-  const samples = [
-    ...state.samples.filter(s => s.timestamp > cutoffTime),
-    { y, timestamp }
+  return [
+    ...samples.filter(s => s.timestamp > cutoffTime),
+    { x: position.x, y: position.y, timestamp }
   ];
-
-  return {
-    ...state,
-    samples,
-  };
 }
 
 /**
@@ -131,37 +206,166 @@ export function detectWave(
 }
 
 /**
- * Detect jump gesture by comparing current hip position to calibration baseline
- * Jump is detected when hips rise (y decreases) by more than threshold
+ * Get the vertical range of the samples taken since a time
  */
-export function detectJump(
-  landmarks: Landmark[],
-  calibration: CalibrationData,
-  state: JumpTrackingState,
+function getVerticalRange(samples: PositionSample[], since: number): number {
+  const recent = samples.filter((s) => s.timestamp > since);
+  if (recent.length === 0) {
+    return 0;
+  }
+  const ys = recent.map((s) => s.y);
+  return Math.max(...ys) - Math.min(...ys);
+}
+
+/**
+ * Detect clap from both wrists' position samples
+ * A clap is detected when the wrists come within contactDistance (touching)
+ * after being more than threshold further apart within the time window.
+ * Only frames where both wrists were tracked are compared.
+ */
+export function detectClap(
+  leftSamples: PositionSample[],
+  rightSamples: PositionSample[],
+  threshold: number,
+  contactDistance: number
+): { detected: boolean; confidence: number } {
+  const left = leftSamples[leftSamples.length - 1];
+  const right = rightSamples[rightSamples.length - 1];
+
+  // Both wrists must be tracked in the current frame
+  if (!left || !right || left.timestamp !== right.timestamp) {
+    return { detected: false, confidence: 0 };
+  }
+
+  const gap = getDistance(left, right);
+  if (gap > contactDistance) {
+    return { detected: false, confidence: 0 };
+  }
+
+  // Widest gap in the window, over frames with both wrists
+  const rightByTime = new Map(rightSamples.map((s) => [s.timestamp, s]));
+  let widestGap = 0;
+  for (const sample of leftSamples) {
+    const other = rightByTime.get(sample.timestamp);
+    if (other) {
+      widestGap = Math.max(widestGap, getDistance(sample, other));
+    }
+  }
+
+  const closing = widestGap - gap;
+  if (closing < threshold) {
+    return { detected: false, confidence: 0 };
+  }
+
+  return { detected: true, confidence: Math.min(1, closing / (threshold * 2)) };
+}
+
+/**
+ * Check for both wrists raised above the nose
+ * Returns a confidence, or null when the pose isn't held
+ */
+function getArmsUpConfidence(landmarks: Landmark[]): number | null {
+  const nose = landmarks[POSE_LANDMARKS.NOSE];
+  const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST];
+  const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST];
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+
+  if (![nose, leftWrist, rightWrist, leftShoulder, rightShoulder].every(isVisible)) {
+    return null;
+  }
+
+  // Height of the lower wrist above the nose (Y increases downward)
+  const rise = nose.y - Math.max(leftWrist.y, rightWrist.y);
+  if (rise <= 0) {
+    return null;
+  }
+
+  // Full confidence with the hands a nose-to-shoulders height above the nose
+  const headHeight = getMidpoint(leftShoulder, rightShoulder).y - nose.y;
+  return headHeight > 0 ? Math.min(1, 0.5 + rise / (headHeight * 2)) : 0.5;
+}
+
+/**
+ * Check for a T-pose: both wrists level with their shoulders and spread
+ * well out to the sides (arms straight, not passing through on the way up)
+ * Returns a confidence, or null when the pose isn't held
+ */
+function getTPoseConfidence(landmarks: Landmark[], tolerance: number): number | null {
+  const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST];
+  const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST];
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+
+  if (![leftWrist, rightWrist, leftShoulder, rightShoulder].every(isVisible)) {
+    return null;
+  }
+
+  const levelOffset = Math.max(
+    Math.abs(leftWrist.y - leftShoulder.y),
+    Math.abs(rightWrist.y - rightShoulder.y)
+  );
+  if (levelOffset > tolerance) {
+    return null;
+  }
+
+  const centerX = getMidpoint(leftShoulder, rightShoulder).x;
+  const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x);
+  const minSpread = shoulderWidth * T_POSE_MIN_SPREAD;
+  const isSpread =
+    Math.abs(leftWrist.x - centerX) > minSpread &&
+    Math.abs(rightWrist.x - centerX) > minSpread &&
+    Math.sign(leftWrist.x - centerX) !== Math.sign(rightWrist.x - centerX);
+  if (!isSpread) {
+    return null;
+  }
+
+  return Math.min(1, 1 - levelOffset / (tolerance * 2));
+}
+
+/**
+ * Confidence for a torso movement past its threshold in one direction
+ * Returns null when the movement doesn't reach the threshold
+ */
+function getTorsoConfidence(
+  amount: number | null,
+  direction: 1 | -1,
   threshold: number
-): { detected: boolean; newState: JumpTrackingState; confidence: number } {
+): number | null {
+  if (amount === null || amount * direction <= threshold) {
+    return null;
+  }
+  return Math.min(1, (amount * direction) / (threshold * 2));
+}
+
+/**
+ * Get how far the hips are below the calibration baseline
+ * (negative when above it, e.g. in a jump), or null when they aren't visible
+ */
+export function getHipDrop(landmarks: Landmark[], calibration: CalibrationData): number | null {
   const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
   const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
 
-  // Ensure we have valid hip landmarks
-  if (!leftHip || !rightHip) {
-    return { detected: false, newState: state, confidence: 0 };
+  // Ensure we have valid hip landmarks, with at least one visible
+  if (!leftHip || !rightHip || (!isVisible(leftHip) && !isVisible(rightHip))) {
+    return null;
   }
 
-  // Check visibility
-  const leftVisible = (leftHip.visibility ?? 0) > 0.5;
-  const rightVisible = (rightHip.visibility ?? 0) > 0.5;
+  // Y increases downward, so a drop is a positive delta
+  return getMidpoint(leftHip, rightHip).y - calibration.hipCenterY;
+}
 
-  if (!leftVisible && !rightVisible) {
-    return { detected: false, newState: state, confidence: 0 };
+/**
+ * Jump confidence: hips risen above the baseline by more than the threshold
+ * Returns null when not jumping
+ */
+function getJumpConfidence({ landmarks, calibration, options }: GestureFrame): number | null {
+  const drop = getHipDrop(landmarks, calibration);
+  const threshold = options.jumpThreshold;
+  if (drop === null || -drop <= threshold) {
+    return null;
   }
-
-  // Calculate current hip center Y
-  const currentHipY = (leftHip.y + rightHip.y) / 2;
-  const baselineHipY = calibration.hipCenterY;
-
-  // Calculate rise (negative delta means rising since Y increases downward)
-  const rise = baselineHipY - currentHipY;
+  const rise = -drop;
 
   // Also check ankles if available for additional confidence
   const leftAnkle = landmarks[POSE_LANDMARKS.LEFT_ANKLE];
@@ -169,49 +373,289 @@ export function detectJump(
   let ankleRise = 0;
 
   if (leftAnkle && rightAnkle && calibration.leftHip && calibration.rightHip) {
-    // Estimate baseline ankle position (typically ~0.3 units below hips)
-    const baselineAnkleY = calibration.hipCenterY + 0.3;
-    const currentAnkleY = (leftAnkle.y + rightAnkle.y) / 2;
+    // Estimate baseline ankle position from the body's proportions
+    const baselineAnkleY = calibration.hipCenterY + ANKLE_DROP * getBodyUnit(calibration);
+    const currentAnkleY = getMidpoint(leftAnkle, rightAnkle).y;
     ankleRise = baselineAnkleY - currentAnkleY;
   }
 
-  // Determine if we're in a jump
-  const isJumping = rise > threshold;
+  // Higher jump = higher confidence, max out at 2x threshold
+  const jumpConfidence = Math.min(1, rise / (threshold * 2));
+  const ankleBonus = ankleRise > threshold * 0.5 ? 0.1 : 0;
+  return Math.min(1, jumpConfidence + ankleBonus);
+}
 
-  // If we're currently jumping and weren't before, and debounce has passed
-  if (isJumping && !state.isInJump) {
-    // Calculate confidence based on how much they jumped
-    // Higher jump = higher confidence, max out at 2x threshold
-    const jumpConfidence = Math.min(1, rise / (threshold * 2));
-    const ankleBonus = ankleRise > threshold * 0.5 ? 0.1 : 0;
-    const confidence = Math.min(1, jumpConfidence + ankleBonus);
+/**
+ * Squat confidence: hips dropped below the baseline by more than the threshold
+ * Returns null when not squatting
+ */
+function getSquatConfidence({ landmarks, calibration, options }: GestureFrame): number | null {
+  const drop = getHipDrop(landmarks, calibration);
+  if (drop === null || drop <= options.squatThreshold) {
+    return null;
+  }
+  return Math.min(1, drop / (options.squatThreshold * 2));
+}
 
-    return {
-      detected: true,
-      newState: { isInJump: true, lastGestureTime: Date.now() },
-      confidence,
-    };
+/**
+ * Get how far one ankle is lifted above the other (and the same for the knees)
+ * Comparing against the other leg (rather than the baseline) keeps jumps,
+ * squats and moving toward the camera from counting as kicks.
+ * Returns null when the ankles aren't visible
+ */
+export function getKickLift(
+  landmarks: Landmark[],
+  side: BodySide
+): { ankleLift: number; kneeLift: number } | null {
+  const own = SIDE_LANDMARKS[side];
+  const other = SIDE_LANDMARKS[getOppositeSide(side)];
+  const ankle = landmarks[own.ankle];
+  const otherAnkle = landmarks[other.ankle];
+  const knee = landmarks[own.knee];
+  const otherKnee = landmarks[other.knee];
+
+  // Both ankles must be visible to compare them
+  if (!isVisible(ankle) || !isVisible(otherAnkle)) {
+    return null;
   }
 
-  // If we're not jumping anymore (returned to baseline)
-  if (!isJumping && state.isInJump) {
-    return {
-      detected: false,
-      newState: { isInJump: false, lastGestureTime: state.lastGestureTime },
-      confidence: 0,
-    };
+  // Y increases downward
+  return {
+    ankleLift: otherAnkle.y - ankle.y,
+    kneeLift: knee && otherKnee ? otherKnee.y - knee.y : 0,
+  };
+}
+
+/**
+ * Kick confidence: ankle lifted above the planted one by more than the threshold
+ * Returns null when not kicking
+ */
+function getKickConfidence(frame: GestureFrame, side: BodySide): number | null {
+  const lift = getKickLift(frame.landmarks, side);
+  const threshold = frame.options.kickThreshold;
+  if (!lift || lift.ankleLift <= threshold) {
+    return null;
   }
 
-  // No change
+  // Knee coming up with the foot adds confidence
+  const kneeBonus = lift.kneeLift > threshold * 0.5 ? 0.1 : 0;
+  return Math.min(1, lift.ankleLift / (threshold * 2) + kneeBonus);
+}
+
+// Tracking state of a one-handed wave
+interface WaveState {
+  /** Last wave detected raising the arm: when, and the wrist height it was raised from */
+  raised: { time: number; fromY: number } | null;
+  /** When the arm came back down (earlier movement doesn't count) */
+  readyAt: number;
+}
+
+/**
+ * Get the height a wrist was raised from, if the samples' stroke went up
+ * (null for a downward stroke)
+ */
+function getRaisedFrom(samples: PositionSample[]): number | null {
+  const lowest = samples.reduce((a, b) => (b.y > a.y ? b : a));
+  const highest = samples.reduce((a, b) => (b.y < a.y ? b : a));
+  return highest.timestamp > lowest.timestamp ? lowest.y : null;
+}
+
+/**
+ * Define a one-handed wave
+ * A wave only counts while the other wrist is roughly still (both arms
+ * moving together is a two-handed or whole-body movement). A wave that
+ * raises the arm lasts until the arm comes back down, so lowering it (or
+ * waving on while it is up) doesn't count as another wave.
+ */
+function createWaveGesture(side: BodySide): GestureDefinition<WaveState> {
+  const isLeft = side === 'left';
+  const { wrist: wristIndex, shoulder: shoulderIndex } = SIDE_LANDMARKS[side];
+
   return {
-    detected: false,
-    newState: state,
-    confidence: 0,
+    id: isLeft ? 'wave-left' : 'wave-right',
+    label: isLeft ? 'Left Wave' : 'Right Wave',
+    icon: '👋',
+    lane: isLeft ? LANES.LEFT : LANES.RIGHT,
+    createState: () => ({ raised: null, readyAt: 0 }),
+    detect: ({ landmarks, wrists, timestamp, options }, state, lastDetectionTime) => {
+      const samples = isLeft ? wrists.left : wrists.right;
+      const otherSamples = isLeft ? wrists.right : wrists.left;
+      const wrist = landmarks[wristIndex];
+
+      if (!isVisible(wrist)) {
+        return { detected: false, confidence: 0, state };
+      }
+
+      // A reported wave lasts until the arm is back down
+      // (one outranked by another gesture was never reported, so is dropped)
+      if (state.raised && state.raised.time === lastDetectionTime) {
+        const isDown = wrist.y >= state.raised.fromY - options.waveThreshold * WAVE_REST_SHARE;
+        return {
+          detected: false,
+          confidence: 0,
+          state: isDown ? { raised: null, readyAt: timestamp } : state,
+        };
+      }
+
+      const otherRange = getVerticalRange(otherSamples, timestamp - options.waveTimeWindow);
+      if (otherRange >= options.waveThreshold * WAVE_OTHER_HAND_SHARE) {
+        return { detected: false, confidence: 0, state };
+      }
+
+      // Only movement since the last wave ended counts toward the next one
+      const since = samples.filter(
+        (s) => s.timestamp > Math.max(lastDetectionTime, state.readyAt)
+      );
+      const result = detectWave(since, options.waveThreshold);
+      const fromY = result.detected ? getRaisedFrom(since) : null;
+      return {
+        ...result,
+        state: { ...state, raised: fromY === null ? null : { time: timestamp, fromY } },
+      };
+    },
+    // Wrist raised above its shoulder
+    isHeld: ({ landmarks }) => {
+      const wrist = landmarks[wristIndex];
+      const shoulder = landmarks[shoulderIndex];
+      return isVisible(wrist) && isVisible(shoulder) && wrist.y < shoulder.y;
+    },
   };
 }
 
+// Clap: wrists coming together
+const CLAP_GESTURE: GestureDefinition<null> = {
+  id: 'clap',
+  label: 'Clap',
+  icon: '👏',
+  lane: LANES.CENTER,
+  createState: () => null,
+  detect: ({ wrists, calibration, options }, state, lastDetectionTime) => {
+    // Only movement since the last clap counts toward the next one
+    const since = (samples: PositionSample[]) =>
+      samples.filter((s) => s.timestamp > lastDetectionTime);
+    return {
+      ...detectClap(
+        since(wrists.left),
+        since(wrists.right),
+        options.clapThreshold,
+        CLAP_CONTACT_DISTANCE * getBodyUnit(calibration)
+      ),
+      state,
+    };
+  },
+  // Wrists touching
+  isHeld: ({ landmarks, calibration }) => {
+    const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST];
+    const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST];
+    return (
+      isVisible(leftWrist) &&
+      isVisible(rightWrist) &&
+      getDistance(leftWrist, rightWrist) <= CLAP_CONTACT_DISTANCE * getBodyUnit(calibration)
+    );
+  },
+};
+
+/**
+ * Built-in gestures, in priority order
+ * Two-handed gestures come first, since the same movement also moves each
+ * wrist; gentle torso gestures come last
+ */
+export const BUILT_IN_GESTURES: GestureDefinition[] = [
+  CLAP_GESTURE,
+  createPoseGesture({
+    id: 'arms-up',
+    label: 'Arms Up',
+    icon: '🙌',
+    lane: LANES.CENTER,
+    getConfidence: ({ landmarks }) => getArmsUpConfidence(landmarks),
+  }),
+  createPoseGesture({
+    id: 't-pose',
+    label: 'T-Pose',
+    icon: '✈️',
+    lane: LANES.CENTER,
+    getConfidence: ({ landmarks, options }) =>
+      getTPoseConfidence(landmarks, options.tPoseTolerance),
+  }),
+  createWaveGesture('left'),
+  createWaveGesture('right'),
+  createPoseGesture({
+    id: 'jump',
+    label: 'Jump',
+    icon: '⬆️',
+    lane: LANES.CENTER,
+    debounceTime: (options) => options.jumpDebounceTime,
+    getConfidence: getJumpConfidence,
+  }),
+  createPoseGesture({
+    id: 'kick-left',
+    label: 'Left Kick',
+    icon: '🦵',
+    lane: LANES.LEFT,
+    getConfidence: (frame) => getKickConfidence(frame, 'left'),
+  }),
+  createPoseGesture({
+    id: 'kick-right',
+    label: 'Right Kick',
+    icon: '🦵',
+    lane: LANES.RIGHT,
+    getConfidence: (frame) => getKickConfidence(frame, 'right'),
+  }),
+  createPoseGesture({
+    id: 'squat',
+    label: 'Squat',
+    icon: '⬇️',
+    lane: LANES.CENTER,
+    getConfidence: getSquatConfidence,
+  }),
+  createPoseGesture({
+    id: 'lean-left',
+    label: 'Left Lean',
+    icon: '↖️',
+    lane: LANES.LEFT,
+    getConfidence: ({ landmarks, options }) =>
+      getTorsoConfidence(getTorsoLean(landmarks), 1, options.leanThreshold),
+  }),
+  createPoseGesture({
+    id: 'lean-right',
+    label: 'Right Lean',
+    icon: '↗️',
+    lane: LANES.RIGHT,
+    getConfidence: ({ landmarks, options }) =>
+      getTorsoConfidence(getTorsoLean(landmarks), -1, options.leanThreshold),
+  }),
+  createPoseGesture({
+    id: 'turn-left',
+    label: 'Left Turn',
+    icon: '↩️',
+    lane: LANES.LEFT,
+    getConfidence: ({ worldLandmarks, options }) =>
+      worldLandmarks
+        ? getTorsoConfidence(getTorsoTurn(worldLandmarks), 1, options.turnThreshold)
+        : null,
+  }),
+  createPoseGesture({
+    id: 'turn-right',
+    label: 'Right Turn',
+    icon: '↪️',
+    lane: LANES.RIGHT,
+    getConfidence: ({ worldLandmarks, options }) =>
+      worldLandmarks
+        ? getTorsoConfidence(getTorsoTurn(worldLandmarks), -1, options.turnThreshold)
+        : null,
+  }),
+];
+
+// Default registry, read by detection, the game and the UI
+// Register custom gestures here
+export const gestureRegistry: GestureRegistry = createGestureRegistry(BUILT_IN_GESTURES);
+
 /**
  * Process a pose frame and detect gestures
+ * Runs every registered gesture's detector; when several are detected in
+ * the same frame, the first registered one is reported (and only it is
+ * debounced, so the others can still fire on the next frames)
+ * Pass the frame's world landmarks to detect turns
  * Returns the detected gesture (if any) and updated state
  */
 export function processGestureFrame(
@@ -219,130 +663,115 @@ export function processGestureFrame(
   calibration: CalibrationData,
   state: GestureTrackingState,
   timestamp: number,
-  options: {
-    waveThreshold: number;
-    waveTimeWindow: number;
-    jumpThreshold: number;
-    debounceTime: number;
-  }
+  options: GestureFrameOptions,
+  worldLandmarks?: Landmark[],
+  registry: GestureRegistry = gestureRegistry
 ): { gesture: GestureType; newState: GestureTrackingState; confidence: number } {
-  const { waveThreshold, waveTimeWindow, jumpThreshold, debounceTime } = options;
-
-  const newState = { ...state };
-  let detectedGesture: GestureType = null;
-  let confidence = 0;
-
-  // Get wrist landmarks
+  // Track both wrists; one- and two-handed gestures share the samples
+  const wrists = { ...state.wrists };
   const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST];
   const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST];
-
-  // Process left wrist for wave detection
-  if (leftWrist && (leftWrist.visibility ?? 0) > 0.5) {
-    newState.leftWrist = addPositionSample(
-      state.leftWrist,
-      leftWrist.y,
-      timestamp,
-      waveTimeWindow
-    );
-
-    // Check debounce
-    const timeSinceLastGesture = timestamp - state.leftWrist.lastGestureTime;
-    if (timeSinceLastGesture > debounceTime) {
-      const waveResult = detectWave(newState.leftWrist.samples, waveThreshold);
-      if (waveResult.detected) {
-        detectedGesture = 'wave-left';
-        confidence = waveResult.confidence;
-        // Reset samples and update last gesture time
-        newState.leftWrist = {
-          samples: [],
-          lastGestureTime: timestamp,
-        };
-      }
-    }
+  if (isVisible(leftWrist)) {
+    wrists.left = addPositionSample(wrists.left, leftWrist, timestamp, options.waveTimeWindow);
   }
-
-  // Process right wrist for wave detection (only if no left wave detected)
-  if (!detectedGesture && rightWrist && (rightWrist.visibility ?? 0) > 0.5) {
-    newState.rightWrist = addPositionSample(
-      state.rightWrist,
-      rightWrist.y,
-      timestamp,
-      waveTimeWindow
-    );
-
-    // Check debounce
-    const timeSinceLastGesture = timestamp - state.rightWrist.lastGestureTime;
-    if (timeSinceLastGesture > debounceTime) {
-      const waveResult = detectWave(newState.rightWrist.samples, waveThreshold);
-      if (waveResult.detected) {
-        detectedGesture = 'wave-right';
-        confidence = waveResult.confidence;
-        // Reset samples and update last gesture time
-        newState.rightWrist = {
-          samples: [],
-          lastGestureTime: timestamp,
-        };
-      }
-    }
+  if (isVisible(rightWrist)) {
+    wrists.right = addPositionSample(wrists.right, rightWrist, timestamp, options.waveTimeWindow);
   }
 
-  // Process jump detection (only if no wave detected)
-  if (!detectedGesture) {
-    const timeSinceLastJump = timestamp - state.jump.lastGestureTime;
-    if (timeSinceLastJump > debounceTime) {
-      const jumpResult = detectJump(landmarks, calibration, state.jump, jumpThreshold);
-      newState.jump = jumpResult.newState;
+  const frame: GestureFrame = {
+    landmarks,
+    worldLandmarks,
+    calibration,
+    timestamp,
+    options: scaleGestureOptions(options, calibration),
+    wrists,
+  };
+  const gestures: GestureTrackingState['gestures'] = {};
+  let detectedGesture: GestureType = null;
+  let confidence = 0;
 
-      if (jumpResult.detected) {
-        detectedGesture = 'jump';
-        confidence = jumpResult.confidence;
-      }
-    } else {
-      // Still update jump state for tracking (but don't detect new jumps)
-      const jumpResult = detectJump(landmarks, calibration, state.jump, jumpThreshold);
-      newState.jump = {
-        ...jumpResult.newState,
-        lastGestureTime: state.jump.lastGestureTime, // Keep original debounce time
-      };
+  for (const definition of registry.getAll()) {
+    const previous = state.gestures[definition.id] ?? {
+      state: definition.createState(),
+      lastGestureTime: 0,
+    };
+    const result = definition.detect(frame, previous.state, previous.lastGestureTime);
+
+    // Inside the debounce time the state is still tracked, but nothing is reported
+    const debounceTime =
+      typeof definition.debounceTime === 'function'
+        ? definition.debounceTime(options)
+        : (definition.debounceTime ?? options.debounceTime);
+    const detected = result.detected && timestamp - previous.lastGestureTime > debounceTime;
+
+    // Only the reported gesture is debounced; ones it outranked stay free to fire
+    const reported = detected && !detectedGesture;
+    gestures[definition.id] = {
+      state: result.state,
+      lastGestureTime: reported ? timestamp : previous.lastGestureTime,
+    };
+
+    if (reported) {
+      detectedGesture = definition.id;
+      confidence = result.confidence;
     }
   }
 
   return {
     gesture: detectedGesture,
-    newState,
+    newState: { wrists, gestures },
     confidence,
   };
 }
 
+/**
+ * No gesture held
+ */
+export function createEmptyHeldGestures(): HeldGestures {
+  return {};
+}
+
+/**
+ * Detect which gesture poses are currently being held (for hold notes),
+ * from each registered gesture's isHeld check
+ */
+export function detectHeldGestures(
+  landmarks: Landmark[],
+  calibration: CalibrationData,
+  options: GestureFrameOptions,
+  worldLandmarks?: Landmark[],
+  registry: GestureRegistry = gestureRegistry
+): HeldGestures {
+  const frame: GestureFrame = {
+    landmarks,
+    worldLandmarks,
+    calibration,
+    timestamp: 0,
+    options: scaleGestureOptions(options, calibration),
+    wrists: { left: [], right: [] },
+  };
+
+  const held: HeldGestures = {};
+  for (const definition of registry.getAll()) {
+    if (definition.isHeld?.(frame)) {
+      held[definition.id] = true;
+    }
+  }
+  return held;
+}
+
 /**
  * Get a human-readable label for a gesture type
  */
 export function getGestureLabel(gesture: GestureType): string {
-  switch (gesture) {
-    case 'wave-left':
-      return 'Left Wave';
-    case 'wave-right':
-      return 'Right Wave';
-    case 'jump':
-      return 'Jump';
-    default:
-      return '';
-  }
+  if (!gesture) return '';
+  return gestureRegistry.get(gesture)?.label ?? '';
 }
 
 /**
- * Get the lane index for a gesture (for game matching)
- * Left = 0, Center = 1, Right = 2
+ * Get the icon for a gesture type
  */
-export function getGestureLane(gesture: GestureType): number | null {
-  switch (gesture) {
-    case 'wave-left':
-      return 0;
-    case 'jump':
-      return 1;
-    case 'wave-right':
-      return 2;
-    default:
-      return null;
-  }
+export function getGestureIcon(gesture: GestureType): string {
+  if (!gesture) return '';
+  return gestureRegistry.get(gesture)?.icon ?? '';
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { GESTURE_FIXTURE_FILES } from '@/fixtures/gestures';
+import {
+  evaluateGestureFixtures,
+  formatGestureEvaluationReport,
+  parseGestureFixture,
+} from './gestureEvaluation';
+
+// Min precision and recall each labeled gesture must reach on the fixtures
+const MIN_PRECISION = 1;
+const MIN_RECALL = 1;
+
+describe('gesture fixtures', () => {
+  const fixtures = GESTURE_FIXTURE_FILES.map(parseGestureFixture);
+  const report = evaluateGestureFixtures(fixtures);
+  const summary = formatGestureEvaluationReport(report);
+  const labeledGestures = [
+    ...new Set(fixtures.flatMap((fixture) => fixture.labels.map((label) => label.gesture))),
+  ];
+
+  it.each(labeledGestures)('detects %s with the required precision and recall', (gesture) => {
+    const score = report.totals[gesture];
+
+    expect(score?.precision ?? 0, summary).toBeGreaterThanOrEqual(MIN_PRECISION);
+    expect(score?.recall ?? 0, summary).toBeGreaterThanOrEqual(MIN_RECALL);
+  });
+
+  it('detects nothing on unlabeled movement', () => {
+    for (const fixture of report.fixtures) {
+      const labeled = new Set(
+        fixtures.find((f) => f.name === fixture.name)?.labels.map((label) => label.gesture)
+      );
+      const unexpected = fixture.detections.filter((d) => !labeled.has(d.gesture));
+
+      expect(unexpected, `${fixture.name}\n${summary}`).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Gesture detection evaluation against labeled pose fixtures
+ *
+ * A fixture is a pose recording (synthetic or recorded from a real session)
+ * plus labels saying which gestures should be detected and when:
+ *
+ * {
+ *   "version": 1,
+ *   "name": "clean-wave-left",
+ *   "description": "Left arm raised, waved twice and lowered",
+ *   "synthetic": { "motion": "wave", "side": "left" },
+ *   "labels": [{ "gesture": "wave-left", "start": 1000, "end": 2300 }]
+ * }
+ *
+ * Synthetic fixtures are generated from their spec (lib/poseSynthesis);
+ * recorded fixtures carry a "recording" in the pose recording file format
+ * instead. Detection runs frame by frame through processGestureFrame on
+ * smoothed landmarks (as in the game), after calibrating on the first frames
+ * like the calibration screen does, and detections are matched to labels to
+ * report precision and recall per gesture.
+ *
+ * `npm test` evaluates the fixtures in fixtures/gestures and fails when a
+ * labeled gesture's precision or recall drops below the minimum set in
+ * gestureEvaluation.test.ts; the gesture lab page shows the same report.
+ */
+
+import type { GestureId, GestureLabel, PoseRecording, PoseResult } from './types';
+import { validateCalibration } from './calibration';
+import { createBaselineTracker } from './baselineTracker';
+import {
+  DEFAULT_GESTURE_OPTIONS,
+  createInitialGestureState,
+  gestureRegistry,
+  processGestureFrame,
+  type GestureFrameOptions,
+} from './gestureDetection';
+import {
+  DEFAULT_LANDMARK_FILTER_OPTIONS,
+  createLandmarkFilter,
+  type LandmarkFilterOptions,
+} from './landmarkFilter';
+import { validatePoseRecording } from './poseRecording';
+import { generateSyntheticRecording, type SyntheticClipSpec } from './poseSynthesis';
+
+// Current fixture file format version
+export const GESTURE_FIXTURE_VERSION = 1;
+
+// Frames averaged for the calibration baseline (as on the calibration screen)
+export const EVALUATION_CALIBRATION_FRAMES = 15;
+
+const SYNTHETIC_MOTIONS: SyntheticClipSpec['motion'][] = [
+  'idle-sway',
+  'wave',
+  'clap',
+  'arms-up',
+  't-pose',
+  'jump',
+  'kick',
+  'squat',
+  'lean',
+  'turn',
+  'walk-toward',
+];
+
+// Labeled recording to evaluate detection against
+export interface GestureFixture {
+  name: string;
+  description: string;
+  recording: PoseRecording;
+  labels: GestureLabel[];
+}
+
+// Result of validating raw fixture data
+export type GestureFixtureValidationResult =
+  | { valid: true; fixture: GestureFixture }
+  | { valid: false; errors: string[] };
+
+// Detection thresholds being evaluated
+export type GestureEvaluationOptions = GestureFrameOptions;
+
+// A gesture detected while replaying a recording
+export interface GestureDetection {
+  gesture: GestureId;
+  time: number;  // ms of recording time
+  confidence: number;
+}
+
+// Detection counts and rates for one gesture
+export interface GestureScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;  // null when nothing was detected
+  recall: number | null;     // null when nothing was labeled
+}
+
+// Evaluation of a single fixture
+export interface FixtureEvaluation {
+  name: string;
+  description: string;
+  detections: GestureDetection[];
+  scores: Record<string, GestureScore>;  // by gesture id
+}
+
+// Evaluation of a set of fixtures, with totals per gesture
+export interface GestureEvaluationReport {
+  fixtures: FixtureEvaluation[];
+  totals: Record<string, GestureScore>;  // by gesture id
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validate a synthetic clip spec, collecting errors
+ */
+function validateSyntheticSpec(spec: unknown, errors: string[]): spec is SyntheticClipSpec {
+  const errorCount = errors.length;
+
+  if (!isRecord(spec)) {
+    errors.push('synthetic must be an object');
+    return false;
+  }
+  if (!SYNTHETIC_MOTIONS.includes(spec.motion as SyntheticClipSpec['motion'])) {
+    errors.push(`Unknown synthetic motion: ${String(spec.motion)}`);
+  }
+  if (spec.side !== undefined && spec.side !== 'left' && spec.side !== 'right') {
+    errors.push('synthetic.side must be "left" or "right"');
+  }
+  for (const field of ['amplitude', 'duration', 'frameRate', 'noise', 'seed'] as const) {
+    if (spec[field] !== undefined && !isFiniteNumber(spec[field])) {
+      errors.push(`synthetic.${field} must be a number`);
+    }
+  }
+
+  return errors.length === errorCount;
+}
+
+/**
+ * Validate raw (parsed JSON) fixture data
+ * Synthetic fixtures are generated here, so the result always has a recording
+ */
+export function validateGestureFixture(data: unknown): GestureFixtureValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['Fixture must be a JSON object'] };
+  }
+
+  if (data.version !== GESTURE_FIXTURE_VERSION) {
+    errors.push(
+      `Unsupported fixture version: ${String(data.version)} (expected ${GESTURE_FIXTURE_VERSION})`
+    );
+  }
+  if (typeof data.name !== 'string' || data.name.length === 0) {
+    errors.push('name must be a non-empty string');
+  }
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  let recording: PoseRecording | null = null;
+  if (data.synthetic !== undefined && data.recording !== undefined) {
+    errors.push('Fixture must have either synthetic or recording, not both');
+  } else if (data.synthetic !== undefined) {
+    if (validateSyntheticSpec(data.synthetic, errors)) {
+      recording = generateSyntheticRecording(data.synthetic);
+    }
+  } else if (data.recording !== undefined) {
+    const result = validatePoseRecording(data.recording);
+    if (result.valid) {
+      recording = result.recording;
+    } else {
+      errors.push(...result.errors.map((error) => `recording: ${error}`));
+    }
+  } else {
+    errors.push('Fixture must have a synthetic spec or a recording');
+  }
+
+  const labels: GestureLabel[] = [];
+  if (!Array.isArray(data.labels)) {
+    errors.push('labels must be an array');
+  } else {
+    data.labels.forEach((label: unknown, index: number) => {
+      if (
+        !isRecord(label) ||
+        typeof label.gesture !== 'string' ||
+        !gestureRegistry.get(label.gesture) ||
+        !isFiniteNumber(label.start) ||
+        !isFiniteNumber(label.end) ||
+        label.end < label.start
+      ) {
+        errors.push(`labels[${index}] must have a registered gesture and start <= end`);
+        return;
+      }
+      labels.push({
+        gesture: label.gesture as GestureLabel['gesture'],
+        start: label.start,
+        end: label.end,
+      });
+    });
+  }
+
+  if (errors.length > 0 || !recording) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    fixture: {
+      name: data.name as string,
+      description: (data.description as string | undefined) ?? '',
+      recording,
+      labels: labels.sort((a, b) => a.start - b.start),
+    },
+  };
+}
+
+/**
+ * Validate raw fixture data, throwing if it is invalid
+ */
+export function parseGestureFixture(data: unknown): GestureFixture {
+  const result = validateGestureFixture(data);
+  if (!result.valid) {
+    throw new Error(`Invalid gesture fixture: ${result.errors.join('; ')}`);
+  }
+  return result.fixture;
+}
+
+/**
+ * Smooth a recording's frames with a landmark filter, as live detection does
+ */
+function filterRecording(
+  recording: PoseRecording,
+  filterOptions: LandmarkFilterOptions
+): PoseRecording['frames'] {
+  const filter = createLandmarkFilter(filterOptions);
+  return recording.frames.map(({ time, pose }) => {
+    if (!pose) {
+      filter.reset();
+      return { time, pose };
+    }
+    return { time, pose: filter.apply(pose) };
+  });
+}
+
+/**
+ * Replay a recording through gesture detection
+ * The first frames with a pose are used as the calibration baseline, which
+ * then tracks the player's drift as in the game (nothing is detected when
+ * those frames wouldn't pass calibration, as the game wouldn't start)
+ */
+export function runGestureDetection(
+  recording: PoseRecording,
+  options: GestureEvaluationOptions = DEFAULT_GESTURE_OPTIONS,
+  filterOptions: LandmarkFilterOptions = DEFAULT_LANDMARK_FILTER_OPTIONS
+): GestureDetection[] {
+  const frames = filterRecording(recording, filterOptions);
+  const poses = frames
+    .map((frame) => frame.pose)
+    .filter((pose): pose is PoseResult => pose !== null);
+  if (poses.length < EVALUATION_CALIBRATION_FRAMES) {
+    return [];
+  }
+
+  const result = validateCalibration(poses.slice(0, EVALUATION_CALIBRATION_FRAMES));
+  if (!result.valid) {
+    return [];
+  }
+  const calibrationEnd = poses[EVALUATION_CALIBRATION_FRAMES - 1].timestamp;
+
+  const baseline = createBaselineTracker(result.calibration);
+  let state = createInitialGestureState();
+  const detections: GestureDetection[] = [];
+
+  for (const { time, pose } of frames) {
+    if (!pose || time <= calibrationEnd) continue;
+
+    const result = processGestureFrame(
+      pose.landmarks,
+      baseline.update(pose).calibration,
+      state,
+      time,
+      options,
+      pose.worldLandmarks
+    );
+    state = result.newState;
+
+    if (result.gesture) {
+      detections.push({ gesture: result.gesture, time, confidence: result.confidence });
+    }
+  }
+
+  return detections;
+}
+
+function createScore(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number
+): GestureScore {
+  const detected = truePositives + falsePositives;
+  const labeled = truePositives + falseNegatives;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: detected > 0 ? truePositives / detected : null,
+    recall: labeled > 0 ? truePositives / labeled : null,
+  };
+}
+
+/**
+ * Match detections to labels and score each gesture
+ * Each label can be matched by one detection of its gesture inside its window;
+ * unmatched detections are false positives, unmatched labels false negatives
+ */
+export function scoreGestureDetections(
+  detections: GestureDetection[],
+  labels: GestureLabel[]
+): Record<string, GestureScore> {
+  const matched = new Set<GestureLabel>();
+  const counts: Record<string, { tp: number; fp: number; fn: number }> = {};
+  const countFor = (gesture: GestureId) => (counts[gesture] ??= { tp: 0, fp: 0, fn: 0 });
+
+  for (const detection of detections) {
+    const label = labels.find(
+      (l) =>
+        !matched.has(l) &&
+        l.gesture === detection.gesture &&
+        detection.time >= l.start &&
+        detection.time <= l.end
+    );
+
+    if (label) {
+      matched.add(label);
+      countFor(detection.gesture).tp += 1;
+    } else {
+      countFor(detection.gesture).fp += 1;
+    }
+  }
+
+  for (const label of labels) {
+    if (!matched.has(label)) {
+      countFor(label.gesture).fn += 1;
+    }
+  }
+
+  const scores: Record<string, GestureScore> = {};
+  for (const [gesture, { tp, fp, fn }] of Object.entries(counts)) {
+    scores[gesture] = createScore(tp, fp, fn);
+  }
+  return scores;
+}
+
+/**
+ * Evaluate gesture detection on a set of fixtures
+ */
+export function evaluateGestureFixtures(
+  fixtures: GestureFixture[],
+  options: GestureEvaluationOptions = DEFAULT_GESTURE_OPTIONS,
+  filterOptions: LandmarkFilterOptions = DEFAULT_LANDMARK_FILTER_OPTIONS
+): GestureEvaluationReport {
+  const results = fixtures.map((fixture): FixtureEvaluation => {
+    const detections = runGestureDetection(fixture.recording, options, filterOptions);
+    return {
+      name: fixture.name,
+      description: fixture.description,
+      detections,
+      scores: scoreGestureDetections(detections, fixture.labels),
+    };
+  });
+
+  // Sum counts across fixtures
+  const sums: Record<string, [number, number, number]> = {};
+  for (const result of results) {
+    for (const [gesture, score] of Object.entries(result.scores)) {
+      const sum = (sums[gesture] ??= [0, 0, 0]);
+      sum[0] += score.truePositives;
+      sum[1] += score.falsePositives;
+      sum[2] += score.falseNegatives;
+    }
+  }
+
+  const totals: Record<string, GestureScore> = {};
+  for (const [gesture, [tp, fp, fn]] of Object.entries(sums)) {
+    totals[gesture] = createScore(tp, fp, fn);
+  }
+
+  return { fixtures: results, totals };
+}
+
+/**
+ * Format a rate (0-1) as a percentage, or a dash when undefined
+ */
+export function formatRate(rate: number | null): string {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Format an evaluation report as a plain-text table (e.g. for the console)
+ */
+export function formatGestureEvaluationReport(report: GestureEvaluationReport): string {
+  const lines = ['gesture       precision  recall  tp  fp  fn'];
+
+  for (const [gesture, score] of Object.entries(report.totals)) {
+    lines.push(
+      [
+        gesture.padEnd(13),
+        formatRate(score.precision).padStart(9),
+        formatRate(score.recall).padStart(7),
+        String(score.truePositives).padStart(3),
+        String(score.falsePositives).padStart(3),
+        String(score.falseNegatives).padStart(3),
+      ].join(' ')
+    );
+  }
+
+  for (const fixture of report.fixtures) {
+    const detected = fixture.detections.map((d) => `${d.gesture}@${d.time}`).join(', ');
+    lines.push(`${fixture.name}: ${detected || 'no detections'}`);
+  }
+
+  return lines.join('\n');
+}
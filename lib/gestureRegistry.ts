@@ -0,0 +1,190 @@
+/**
+ * Gesture registry
+ *
+ * Every gesture is defined once, as a GestureDefinition: its id, label,
+ * icon, lane, detector and tracking state. Detection, labels, lane
+ * matching, held poses and the UI all read from a registry, so adding a
+ * gesture means registering one definition:
+ *
+ *   gestureRegistry.register(
+ *     createPoseGesture({
+ *       id: 'hands-on-head',
+ *       label: 'Hands on Head',
+ *       icon: '🙆',
+ *       lane: 1,
+ *       getConfidence: ({ landmarks }) => (areHandsOnHead(landmarks) ? 1 : null),
+ *     })
+ *   );
+ *
+ * Registration order is priority order: when several gestures are detected
+ * in the same frame, the first registered one is reported.
+ * The built-in gestures and the default registry live in lib/gestureDetection.
+ */
+
+import type { CalibrationData, GestureId, Landmark } from './types';
+import type { GestureFrameOptions } from './gestureDetection';
+
+// Position sample for tracking movement over time
+export interface PositionSample {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+// Recent samples of both wrists, shared by the hand gestures
+export interface WristSamples {
+  left: PositionSample[];
+  right: PositionSample[];
+}
+
+// Everything a detector can see about the current frame
+export interface GestureFrame {
+  landmarks: Landmark[];
+  /** 3D landmarks in metres, when the pose source provides them */
+  worldLandmarks?: Landmark[];
+  calibration: CalibrationData;
+  timestamp: number;
+  /** Detection thresholds, with distances scaled to image units for the player */
+  options: GestureFrameOptions;
+  /** Wrist samples within the wave time window */
+  wrists: WristSamples;
+}
+
+// Result of running a detector on one frame
+export interface GestureDetectorResult<S> {
+  detected: boolean;
+  confidence: number;
+  state: S;
+}
+
+// Min ms between a gesture's detections
+export type GestureDebounceTime = number | ((options: GestureFrameOptions) => number);
+
+// A gesture, defined once for detection, matching and display
+// (methods, so a definition with its own state type is a GestureDefinition<unknown>)
+export interface GestureDefinition<S = unknown> {
+  id: GestureId;
+  label: string;
+  icon: string;
+  /**
+   * Lane the gesture plays in layouts that don't list their lanes' gestures
+   * (the classic layout, lanes 0-2)
+   */
+  lane: number;
+  /**
+   * Min ms between detections, fixed or read from the detection options
+   * (defaults to the debounceTime option)
+   */
+  debounceTime?: GestureDebounceTime;
+  /** Create the gesture's own tracking state */
+  createState(): S;
+  /**
+   * Detect the gesture in a frame
+   * lastDetectionTime is when it was last reported (0 if never)
+   */
+  detect(
+    frame: GestureFrame,
+    state: S,
+    lastDetectionTime: number
+  ): GestureDetectorResult<S>;
+  /** Whether the gesture's pose is being held (for hold notes) */
+  isHeld?(frame: GestureFrame): boolean;
+}
+
+// Registered gestures, in priority order
+export interface GestureRegistry {
+  /** Add a gesture (throws if the id is taken or the lane is invalid) */
+  register: <S>(definition: GestureDefinition<S>) => void;
+  /** Remove a gesture */
+  unregister: (id: GestureId) => void;
+  /** Get a gesture by id */
+  get: (id: GestureId) => GestureDefinition<unknown> | undefined;
+  /** All gestures, in priority order */
+  getAll: () => GestureDefinition<unknown>[];
+  /** Gestures playing a lane, in priority order */
+  getLaneGestures: (lane: number) => GestureDefinition<unknown>[];
+}
+
+/**
+ * Create a gesture registry
+ */
+export function createGestureRegistry(
+  definitions: GestureDefinition<unknown>[] = []
+): GestureRegistry {
+  const gestures = new Map<GestureId, GestureDefinition<unknown>>();
+
+  const register = <S>(definition: GestureDefinition<S>) => {
+    if (!definition.id) {
+      throw new Error('Gesture id must be a non-empty string');
+    }
+    if (gestures.has(definition.id)) {
+      throw new Error(`Gesture already registered: ${definition.id}`);
+    }
+    const { lane } = definition;
+    // Layouts own the lane count (lib/laneLayouts), so any lane index is allowed
+    if (!Number.isInteger(lane) || lane < 0) {
+      throw new Error(`Gesture ${definition.id} lane must be a non-negative integer`);
+    }
+    gestures.set(definition.id, definition);
+  };
+
+  for (const definition of definitions) {
+    register(definition);
+  }
+
+  return {
+    register,
+    unregister: (id) => {
+      gestures.delete(id);
+    },
+    get: (id) => gestures.get(id),
+    getAll: () => [...gestures.values()],
+    getLaneGestures: (lane) => [...gestures.values()].filter((g) => g.lane === lane),
+  };
+}
+
+// Tracking state of a pose gesture
+export interface PoseGestureState {
+  /** When the pose held now was last detected (null while it isn't held) */
+  struckAt: number | null;
+}
+
+/**
+ * Define a gesture that is a pose: detected when it is first struck, and
+ * held for as long as it is kept
+ * getConfidence returns the pose's confidence, or null when it isn't held.
+ * A strike that wasn't reported (outranked by another gesture, or inside
+ * the debounce time) is detected again on the next frame it is still held.
+ */
+export function createPoseGesture(config: {
+  id: GestureId;
+  label: string;
+  icon: string;
+  lane: number;
+  debounceTime?: GestureDebounceTime;
+  getConfidence: (frame: GestureFrame) => number | null;
+}): GestureDefinition<PoseGestureState> {
+  const { getConfidence, ...definition } = config;
+
+  return {
+    ...definition,
+    createState: () => ({ struckAt: null }),
+    detect: (frame, state, lastDetectionTime) => {
+      const confidence = getConfidence(frame);
+      if (confidence === null) {
+        return {
+          detected: false,
+          confidence: 0,
+          state: state.struckAt === null ? state : { struckAt: null },
+        };
+      }
+
+      // Already reported while held
+      if (state.struckAt !== null && state.struckAt === lastDetectionTime) {
+        return { detected: false, confidence, state };
+      }
+      return { detected: true, confidence, state: { struckAt: frame.timestamp } };
+    },
+    isHeld: (frame) => getConfidence(frame) !== null,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Landmark smoothing
+ *
+ * Pose landmarks jitter by a few pixels from frame to frame, even when the
+ * player stands still. The filters here smooth each coordinate of each
+ * landmark (image and world landmarks alike) over time:
+ * - 'exponential': a fixed-weight moving average; simple, but lags behind
+ *   fast movement as much as it smooths
+ * - 'one-euro': the One Euro filter (Casiez et al. 2012), which smooths
+ *   heavily while a landmark is slow and lets it follow quickly when it
+ *   moves fast, so stillness is steady without making gestures sluggish
+ *
+ * Filtering is visibility-aware: landmarks that aren't visible are passed
+ * through unfiltered and their history dropped, so a landmark coming back
+ * into view doesn't drift in from where it was last seen.
+ */
+
+import type { Landmark, PoseResult } from './types';
+import { isLandmarkVisible } from './poseGeometry';
+
+export type LandmarkFilterType = 'none' | 'exponential' | 'one-euro';
+
+export interface LandmarkFilterOptions {
+  type: LandmarkFilterType;
+  smoothing: number;         // exponential: weight (0-1) kept from the previous value
+  minCutoff: number;         // one-euro: cutoff frequency (Hz) at rest; lower = smoother
+  beta: number;              // one-euro: cutoff increase per unit/s of speed; higher = less lag
+  derivativeCutoff: number;  // one-euro: cutoff frequency (Hz) for the speed estimate
+}
+
+export const DEFAULT_LANDMARK_FILTER_OPTIONS: LandmarkFilterOptions = {
+  type: 'one-euro',
+  smoothing: 0.5,
+  minCutoff: 1,
+  beta: 10,
+  derivativeCutoff: 2,
+};
+
+// Filter types with labels, for settings UI
+export const LANDMARK_FILTER_TYPES: { type: LandmarkFilterType; label: string }[] = [
+  { type: 'none', label: 'Off' },
+  { type: 'exponential', label: 'Exponential' },
+  { type: 'one-euro', label: 'One Euro' },
+];
+
+export interface LandmarkFilter {
+  /** Filter a pose frame, returning the smoothed pose */
+  apply: (pose: PoseResult) => PoseResult;
+  /** Drop the filter history (e.g. when the player is lost) */
+  reset: () => void;
+}
+
+// Filter history of one landmark
+interface LandmarkHistory {
+  value: [number, number, number];
+  speed: [number, number, number];  // smoothed units/s per coordinate
+  timestamp: number;
+}
+
+/**
+ * Weight of a new sample for a low-pass filter at a cutoff frequency
+ */
+function getSmoothingFactor(cutoff: number, dt: number): number {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+}
+
+/**
+ * Create a landmark filter
+ * Keeps separate history for image and world landmarks; reset it between
+ * unrelated pose streams
+ */
+export function createLandmarkFilter(
+  options: LandmarkFilterOptions = DEFAULT_LANDMARK_FILTER_OPTIONS
+): LandmarkFilter {
+  let imageHistory: (LandmarkHistory | undefined)[] = [];
+  let worldHistory: (LandmarkHistory | undefined)[] = [];
+
+  const filterValue = (
+    previous: LandmarkHistory,
+    raw: [number, number, number],
+    timestamp: number
+  ): LandmarkHistory => {
+    // Seconds since the previous sample (repeated timestamps change nothing)
+    const dt = (timestamp - previous.timestamp) / 1000;
+    if (dt <= 0) return previous;
+
+    if (options.type === 'exponential') {
+      const weight = 1 - options.smoothing;
+      return {
+        value: previous.value.map((v, i) => v + weight * (raw[i] - v)) as LandmarkHistory['value'],
+        speed: previous.speed,
+        timestamp,
+      };
+    }
+
+    const value = [...previous.value] as LandmarkHistory['value'];
+    const speed = [...previous.speed] as LandmarkHistory['speed'];
+    const speedFactor = getSmoothingFactor(options.derivativeCutoff, dt);
+
+    for (let i = 0; i < 3; i++) {
+      const rawSpeed = (raw[i] - previous.value[i]) / dt;
+      speed[i] = previous.speed[i] + speedFactor * (rawSpeed - previous.speed[i]);
+
+      const cutoff = options.minCutoff + options.beta * Math.abs(speed[i]);
+      value[i] = previous.value[i] + getSmoothingFactor(cutoff, dt) * (raw[i] - previous.value[i]);
+    }
+
+    return { value, speed, timestamp };
+  };
+
+  const filterLandmarks = (
+    landmarks: Landmark[],
+    history: (LandmarkHistory | undefined)[],
+    timestamp: number
+  ): { landmarks: Landmark[]; history: (LandmarkHistory | undefined)[] } => {
+    const nextHistory: (LandmarkHistory | undefined)[] = [];
+
+    const filtered = landmarks.map((landmark, index) => {
+      if (!isLandmarkVisible(landmark)) {
+        return landmark;
+      }
+
+      const raw: LandmarkHistory['value'] = [landmark.x, landmark.y, landmark.z];
+      const previous = history[index];
+      const next = previous
+        ? filterValue(previous, raw, timestamp)
+        : { value: raw, speed: [0, 0, 0] as LandmarkHistory['speed'], timestamp };
+      nextHistory[index] = next;
+
+      const [x, y, z] = next.value;
+      return { ...landmark, x, y, z };
+    });
+
+    return { landmarks: filtered, history: nextHistory };
+  };
+
+  const apply = (pose: PoseResult): PoseResult => {
+    if (options.type === 'none') {
+      return pose;
+    }
+
+    const image = filterLandmarks(pose.landmarks, imageHistory, pose.timestamp);
+    imageHistory = image.history;
+
+    if (!pose.worldLandmarks) {
+      worldHistory = [];
+      return { ...pose, landmarks: image.landmarks };
+    }
+
+    const world = filterLandmarks(pose.worldLandmarks, worldHistory, pose.timestamp);
+    worldHistory = world.history;
+
+    return { ...pose, landmarks: image.landmarks, worldLandmarks: world.landmarks };
+  };
+
+  const reset = () => {
+    imageHistory = [];
+    worldHistory = [];
+  };
+
+  return { apply, reset };
+}
@@ -0,0 +1,170 @@
+/**
+ * Lane layouts
+ *
+ * A layout sets how many lanes a game has and which gestures play each
+ * lane. The classic layout has the three registered lanes (each gesture's
+ * GestureDefinition.lane); the others remap gestures onto 2, 4, 5 or 6 lanes,
+ * for example with kicks on the outer lanes:
+ *
+ *   kick-left | wave-left | jump | wave-right | kick-right
+ *
+ * Charts name the layout they were written for; freestyle sessions use the
+ * layout picked before the game.
+ */
+
+import type { GestureId, GestureType, LaneLayoutId } from './types';
+import { gestureRegistry } from './gestureDetection';
+import type { GestureDefinition, GestureRegistry } from './gestureRegistry';
+
+// Theme colour of a lane's notes
+export type LaneColor = 'cyan' | 'blue' | 'gold' | 'magenta' | 'green' | 'orange';
+
+// A lane of a layout
+export interface LaneDefinition {
+  label: string;
+  /**
+   * Gestures that play the lane, in priority order
+   * (when omitted, the registered gestures whose lane is this lane's index)
+   */
+  gestures?: GestureId[];
+  /**
+   * 'body' lanes are whole-body moves (jumps, squats): drawn as lightning
+   * bolts and given time to land in generated charts
+   */
+  kind: 'limb' | 'body';
+  color: LaneColor;
+}
+
+// Lanes of a game, left to right
+export interface LaneLayout {
+  id: LaneLayoutId;
+  label: string;
+  lanes: LaneDefinition[];
+}
+
+const LEFT_HAND: GestureId[] = ['wave-left', 'turn-left'];
+const RIGHT_HAND: GestureId[] = ['wave-right', 'turn-right'];
+const LEFT_KICK: GestureId[] = ['kick-left', 'lean-left'];
+const RIGHT_KICK: GestureId[] = ['kick-right', 'lean-right'];
+
+// Preset layouts, by id
+export const LANE_LAYOUTS: Record<LaneLayoutId, LaneLayout> = {
+  'two-lane': {
+    id: 'two-lane',
+    label: '2 Lanes',
+    lanes: [
+      { label: 'Left', gestures: [...LEFT_HAND, ...LEFT_KICK], kind: 'limb', color: 'cyan' },
+      { label: 'Right', gestures: [...RIGHT_HAND, ...RIGHT_KICK], kind: 'limb', color: 'gold' },
+    ],
+  },
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    lanes: [
+      { label: 'Left', kind: 'limb', color: 'cyan' },
+      { label: 'Center', kind: 'body', color: 'blue' },
+      { label: 'Right', kind: 'limb', color: 'gold' },
+    ],
+  },
+  'four-lane': {
+    id: 'four-lane',
+    label: '4 Lanes',
+    lanes: [
+      { label: 'Left Kick', gestures: LEFT_KICK, kind: 'limb', color: 'magenta' },
+      { label: 'Left Hand', gestures: LEFT_HAND, kind: 'limb', color: 'cyan' },
+      { label: 'Right Hand', gestures: RIGHT_HAND, kind: 'limb', color: 'gold' },
+      { label: 'Right Kick', gestures: RIGHT_KICK, kind: 'limb', color: 'orange' },
+    ],
+  },
+  'five-lane': {
+    id: 'five-lane',
+    label: '5 Lanes',
+    lanes: [
+      { label: 'Left Kick', gestures: LEFT_KICK, kind: 'limb', color: 'magenta' },
+      { label: 'Left Hand', gestures: LEFT_HAND, kind: 'limb', color: 'cyan' },
+      {
+        label: 'Center',
+        gestures: ['jump', 'squat', 'clap', 'arms-up', 't-pose'],
+        kind: 'body',
+        color: 'blue',
+      },
+      { label: 'Right Hand', gestures: RIGHT_HAND, kind: 'limb', color: 'gold' },
+      { label: 'Right Kick', gestures: RIGHT_KICK, kind: 'limb', color: 'orange' },
+    ],
+  },
+  'six-lane': {
+    id: 'six-lane',
+    label: '6 Lanes',
+    lanes: [
+      { label: 'Left Kick', gestures: LEFT_KICK, kind: 'limb', color: 'magenta' },
+      { label: 'Left Hand', gestures: LEFT_HAND, kind: 'limb', color: 'cyan' },
+      { label: 'Up', gestures: ['jump', 'arms-up'], kind: 'body', color: 'blue' },
+      { label: 'Down', gestures: ['squat', 'clap', 't-pose'], kind: 'body', color: 'green' },
+      { label: 'Right Hand', gestures: RIGHT_HAND, kind: 'limb', color: 'gold' },
+      { label: 'Right Kick', gestures: RIGHT_KICK, kind: 'limb', color: 'orange' },
+    ],
+  },
+};
+
+export const LANE_LAYOUT_IDS = Object.keys(LANE_LAYOUTS) as LaneLayoutId[];
+
+// Layout used when none is chosen (and by charts that don't name one)
+export const DEFAULT_LANE_LAYOUT = LANE_LAYOUTS.classic;
+
+/**
+ * Check whether a value is a preset layout id
+ */
+export function isLaneLayoutId(value: unknown): value is LaneLayoutId {
+  return typeof value === 'string' && Object.hasOwn(LANE_LAYOUTS, value);
+}
+
+/**
+ * Get a preset layout by id (the default layout when omitted)
+ */
+export function getLaneLayout(id?: LaneLayoutId): LaneLayout {
+  return id ? LANE_LAYOUTS[id] : DEFAULT_LANE_LAYOUT;
+}
+
+/**
+ * Get the gestures that play a lane, in priority order
+ */
+export function getLaneGestures(
+  lane: number,
+  layout: LaneLayout = DEFAULT_LANE_LAYOUT,
+  registry: GestureRegistry = gestureRegistry
+): GestureDefinition[] {
+  const definition = layout.lanes[lane];
+  if (!definition) return [];
+
+  if (!definition.gestures) {
+    return registry.getLaneGestures(lane);
+  }
+  return definition.gestures
+    .map((gesture) => registry.get(gesture))
+    .filter((gesture): gesture is GestureDefinition => gesture !== undefined);
+}
+
+/**
+ * Get the lane a gesture plays (null when it plays no lane of the layout)
+ */
+export function getGestureLane(
+  gesture: GestureType,
+  layout: LaneLayout = DEFAULT_LANE_LAYOUT,
+  registry: GestureRegistry = gestureRegistry
+): number | null {
+  if (!gesture) return null;
+
+  const lane = layout.lanes.findIndex((definition, index) =>
+    definition.gestures
+      ? definition.gestures.includes(gesture)
+      : registry.get(gesture)?.lane === index
+  );
+  return lane === -1 ? null : lane;
+}
+
+/**
+ * Get a label for a lane: the label of its first gesture
+ */
+export function getLaneLabel(lane: number, layout: LaneLayout = DEFAULT_LANE_LAYOUT): string {
+  return getLaneGestures(lane, layout)[0]?.label ?? layout.lanes[lane]?.label ?? '';
+}
@@ -0,0 +1,184 @@
+/**
+ * Player profiles
+ *
+ * Profiles are kept in IndexedDB, one record per player: a name and avatar
+ * colour, their calibration (with its personal gesture thresholds), landmark
+ * smoothing, preferred difficulty and recent plays. A returning player picks
+ * their profile and skips calibration as long as their stored baseline still
+ * fits the camera view (see calibrationFits).
+ */
+
+import type { CalibrationData, DifficultyLevel, GameMode } from './types';
+import {
+  DEFAULT_LANDMARK_FILTER_OPTIONS,
+  LANDMARK_FILTER_TYPES,
+  type LandmarkFilterOptions,
+} from './landmarkFilter';
+
+// Current profile record format version
+export const PLAYER_PROFILE_VERSION = 1;
+
+// Avatar colours offered when creating a profile
+export const PLAYER_COLORS = ['#00d9ff', '#ffd700', '#ff4fa3', '#4ade80', '#fb923c', '#a78bfa'];
+
+// Plays kept per profile (most recent first)
+const MAX_PLAY_HISTORY = 50;
+
+const PROFILE_DATABASE_NAME = 'dance-game';
+const PROFILE_DATABASE_VERSION = 1;
+const PROFILE_STORE = 'player-profiles';
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// One finished session
+export interface PlayRecord {
+  songTitle: string;
+  songId?: string;  // library songs only
+  difficulty: DifficultyLevel;
+  mode: GameMode;
+  score: number;
+  accuracy: number;  // percentage 0-100
+  maxCombo: number;
+  playedAt: number;
+}
+
+export interface PlayerProfile {
+  version: number;
+  id: string;
+  name: string;
+  color: string;
+  calibration: CalibrationData | null;  // null until the player first calibrates
+  landmarkFilter: LandmarkFilterOptions;
+  difficulty: DifficultyLevel;
+  history: PlayRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLandmarkFilterOptions(value: unknown): value is LandmarkFilterOptions {
+  return isRecord(value) && LANDMARK_FILTER_TYPES.some(({ type }) => type === value.type);
+}
+
+/**
+ * Whether a stored record is a profile this version can use (records from
+ * other versions, or damaged ones, are skipped)
+ */
+function isPlayerProfile(data: unknown): data is PlayerProfile {
+  return (
+    isRecord(data) &&
+    data.version === PLAYER_PROFILE_VERSION &&
+    typeof data.id === 'string' &&
+    typeof data.name === 'string' &&
+    typeof data.color === 'string' &&
+    (data.calibration === null ||
+      (isRecord(data.calibration) && typeof data.calibration.torsoLength === 'number')) &&
+    isLandmarkFilterOptions(data.landmarkFilter) &&
+    DIFFICULTY_LEVELS.includes(data.difficulty as DifficultyLevel) &&
+    Array.isArray(data.history) &&
+    typeof data.updatedAt === 'number'
+  );
+}
+
+/**
+ * Create a new profile (not yet saved)
+ */
+export function createPlayerProfile(name: string, color: string): PlayerProfile {
+  const now = Date.now();
+  return {
+    version: PLAYER_PROFILE_VERSION,
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    color,
+    calibration: null,
+    landmarkFilter: DEFAULT_LANDMARK_FILTER_OPTIONS,
+    difficulty: 'easy',
+    history: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Add a finished session to a profile's history
+ */
+export function addPlayRecord(profile: PlayerProfile, record: PlayRecord): PlayerProfile {
+  return { ...profile, history: [record, ...profile.history].slice(0, MAX_PLAY_HISTORY) };
+}
+
+/**
+ * Get a profile's best score across its history (0 if it never played)
+ */
+export function getProfileBestScore(profile: PlayerProfile): number {
+  return profile.history.reduce((best, play) => Math.max(best, play.score), 0);
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Open the profile database, creating the store on first use
+ */
+function openProfileDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Player profiles need IndexedDB, which is unavailable'));
+  }
+
+  const request = indexedDB.open(PROFILE_DATABASE_NAME, PROFILE_DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(PROFILE_STORE)) {
+      request.result.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Run a request against the profile store, closing the database afterwards
+ */
+async function withProfileStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openProfileDatabase();
+  try {
+    const store = db.transaction(PROFILE_STORE, mode).objectStore(PROFILE_STORE);
+    return await requestToPromise(run(store));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load all stored profiles, most recently used first
+ */
+export async function loadPlayerProfiles(): Promise<PlayerProfile[]> {
+  const records = await withProfileStore('readonly', (store) => store.getAll());
+  return records.filter(isPlayerProfile).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Save a profile (creating or replacing it), returning the saved record
+ */
+export async function savePlayerProfile(profile: PlayerProfile): Promise<PlayerProfile> {
+  const saved = { ...profile, updatedAt: Date.now() };
+  await withProfileStore('readwrite', (store) => store.put(saved));
+  return saved;
+}
+
+/**
+ * Delete a stored profile
+ */
+export async function deletePlayerProfile(id: string): Promise<void> {
+  await withProfileStore('readwrite', (store) => store.delete(id));
+}
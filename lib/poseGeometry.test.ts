@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import type { Landmark } from './types';
+import { POSE_LANDMARKS } from './types';
+import {
+  getAngle,
+  getBodyScale,
+  getDistance,
+  getHipCenter,
+  getJointAngle,
+  getLimbLength,
+  getLineTilt,
+  getMidpoint,
+  getShoulderWidth,
+  getTorsoLean,
+  getTorsoLength,
+  getTorsoTurn,
+  isLandmarkVisible,
+} from './poseGeometry';
+
+const L = POSE_LANDMARKS;
+
+// Landmarks with only the given ones tracked ([x, y, z], visibility 0.99)
+function createLandmarks(points: Partial<Record<number, [number, number, number?]>>): Landmark[] {
+  return Array.from({ length: 33 }, (_, index) => {
+    const point = points[index];
+    return point
+      ? { x: point[0], y: point[1], z: point[2] ?? 0, visibility: 0.99 }
+      : { x: 0, y: 0, z: 0, visibility: 0 };
+  });
+}
+
+// Upright torso facing the camera: shoulders 0.2 apart, 0.25 above the hips
+const TORSO = {
+  [L.LEFT_SHOULDER]: [0.6, 0.3],
+  [L.RIGHT_SHOULDER]: [0.4, 0.3],
+  [L.LEFT_HIP]: [0.55, 0.55],
+  [L.RIGHT_HIP]: [0.45, 0.55],
+} satisfies Partial<Record<number, [number, number]>>;
+
+// Left arm bent to a right angle (upper arm down, forearm out to the side)
+const BENT_ARM = createLandmarks({
+  ...TORSO,
+  [L.LEFT_ELBOW]: [0.6, 0.45],
+  [L.LEFT_WRIST]: [0.72, 0.45],
+});
+
+// Right leg straight and upright
+const STRAIGHT_LEG = createLandmarks({
+  ...TORSO,
+  [L.RIGHT_KNEE]: [0.45, 0.75],
+  [L.RIGHT_ANKLE]: [0.45, 0.95],
+});
+
+// World landmarks (meters around the hips) of a left upper arm reaching
+// toward the camera, so it looks shorter and the elbow straighter in the
+// image than they are
+const WORLD_ARM = createLandmarks({
+  [L.LEFT_SHOULDER]: [0.2, -0.5, 0],
+  [L.LEFT_ELBOW]: [0.2, -0.2, -0.4],
+  [L.LEFT_WRIST]: [0.2, 0, -0.4],
+});
+
+describe('isLandmarkVisible', () => {
+  it('needs a landmark tracked above the min visibility', () => {
+    expect(isLandmarkVisible({ x: 0, y: 0, z: 0, visibility: 0.9 })).toBe(true);
+    expect(isLandmarkVisible({ x: 0, y: 0, z: 0, visibility: 0.5 })).toBe(false);
+    expect(isLandmarkVisible({ x: 0, y: 0, z: 0 })).toBe(false);
+    expect(isLandmarkVisible(undefined)).toBe(false);
+  });
+});
+
+describe('getDistance and getMidpoint', () => {
+  const a = { x: 0, y: 0, z: 0 };
+  const b = { x: 3, y: 4, z: 12 };
+
+  it('ignores depth in the image and measures it in the world', () => {
+    expect(getDistance(a, b)).toBeCloseTo(5);
+    expect(getDistance(a, b, 'world')).toBeCloseTo(13);
+  });
+
+  it('finds the point halfway', () => {
+    expect(getMidpoint(a, b)).toEqual({ x: 1.5, y: 2, z: 6 });
+  });
+});
+
+describe('getAngle', () => {
+  it.each([
+    ['a right angle', { x: 1, y: 0 }, { x: 0, y: 1 }, 90],
+    ['a straight line', { x: 1, y: 0 }, { x: -1, y: 0 }, 180],
+    ['folded back', { x: 1, y: 0 }, { x: 2, y: 0 }, 0],
+    ['45 degrees', { x: 1, y: 0 }, { x: 1, y: 1 }, 45],
+  ])('measures %s', (_, a, c, angle) => {
+    expect(getAngle(a, { x: 0, y: 0 }, c)).toBeCloseTo(angle);
+  });
+
+  it('is 0 when a segment has no length', () => {
+    expect(getAngle({ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 1, y: 0 })).toBe(0);
+  });
+
+  it('uses depth only in the world', () => {
+    const a = { x: 1, y: 0, z: 0 };
+    const c = { x: 1, y: 0, z: 1 };
+
+    expect(getAngle(a, { x: 0, y: 0, z: 0 }, c)).toBeCloseTo(0);
+    expect(getAngle(a, { x: 0, y: 0, z: 0 }, c, 'world')).toBeCloseTo(45);
+  });
+});
+
+describe('getJointAngle', () => {
+  it('measures the joints of the given side', () => {
+    expect(getJointAngle(BENT_ARM, 'left', 'elbow')).toBeCloseTo(90);
+    expect(getJointAngle(BENT_ARM, 'left', 'shoulder')).toBeCloseTo(
+      getAngle({ x: 0.6, y: 0.45 }, { x: 0.6, y: 0.3 }, { x: 0.55, y: 0.55 })
+    );
+    expect(getJointAngle(STRAIGHT_LEG, 'right', 'knee')).toBeCloseTo(180);
+    expect(getJointAngle(STRAIGHT_LEG, 'right', 'hip')).toBeCloseTo(
+      getAngle({ x: 0.4, y: 0.3 }, { x: 0.45, y: 0.55 }, { x: 0.45, y: 0.75 })
+    );
+  });
+
+  it('measures world landmarks in 3D', () => {
+    expect(getJointAngle(WORLD_ARM, 'left', 'elbow')).toBeCloseTo(180);
+    expect(getJointAngle(WORLD_ARM, 'left', 'elbow', 'world')).toBeCloseTo(
+      (Math.acos(-0.6) * 180) / Math.PI
+    );
+  });
+
+  it('is null when a landmark of the joint is missing or barely visible', () => {
+    const lowWrist = BENT_ARM.map((lm, i) => (i === L.LEFT_WRIST ? { ...lm, visibility: 0.3 } : lm));
+
+    expect(getJointAngle(BENT_ARM, 'right', 'elbow')).toBeNull();
+    expect(getJointAngle(lowWrist, 'left', 'elbow')).toBeNull();
+    expect(getJointAngle(BENT_ARM.slice(0, L.LEFT_WRIST), 'left', 'elbow')).toBeNull();
+  });
+});
+
+describe('getLimbLength', () => {
+  it('measures limb segments in the image', () => {
+    expect(getLimbLength(BENT_ARM, 'left', 'upperArm')).toBeCloseTo(0.15);
+    expect(getLimbLength(BENT_ARM, 'left', 'forearm')).toBeCloseTo(0.12);
+    expect(getLimbLength(STRAIGHT_LEG, 'right', 'thigh')).toBeCloseTo(0.2);
+    expect(getLimbLength(STRAIGHT_LEG, 'right', 'shin')).toBeCloseTo(0.2);
+  });
+
+  it('measures foreshortened limbs at full length in the world', () => {
+    expect(getLimbLength(WORLD_ARM, 'left', 'upperArm')).toBeCloseTo(0.3);
+    expect(getLimbLength(WORLD_ARM, 'left', 'upperArm', 'world')).toBeCloseTo(0.5);
+  });
+
+  it('is null when an end of the limb is not visible', () => {
+    expect(getLimbLength(STRAIGHT_LEG, 'left', 'shin')).toBeNull();
+  });
+});
+
+describe('torso measurements', () => {
+  it('measures the shoulders, hips and torso', () => {
+    expect(getShoulderWidth(BENT_ARM)).toBeCloseTo(0.2);
+    expect(getHipCenter(BENT_ARM)).toEqual({ x: 0.5, y: 0.55, z: 0 });
+    expect(getTorsoLength(BENT_ARM)).toBeCloseTo(0.25);
+    expect(getBodyScale(BENT_ARM)).toBe(getTorsoLength(BENT_ARM));
+  });
+
+  it('measures depth only in the world', () => {
+    const turned = createLandmarks({
+      ...TORSO,
+      [L.LEFT_SHOULDER]: [0.6, 0.3, 0.15],
+      [L.RIGHT_SHOULDER]: [0.4, 0.3, -0.15],
+    });
+
+    expect(getShoulderWidth(turned)).toBeCloseTo(0.2);
+    expect(getShoulderWidth(turned, 'world')).toBeCloseTo(Math.hypot(0.2, 0.3));
+  });
+
+  it('is null without both hips or both shoulders', () => {
+    const oneHip = createLandmarks({ ...TORSO, [L.RIGHT_HIP]: undefined });
+
+    expect(getHipCenter(oneHip)).toBeNull();
+    expect(getTorsoLength(oneHip)).toBeNull();
+    expect(getShoulderWidth(createLandmarks({}))).toBeNull();
+  });
+});
+
+describe('torso orientation', () => {
+  it('measures a line\'s tilt, positive when the left end is lower', () => {
+    expect(getLineTilt({ x: 0.6, y: 0.35 }, { x: 0.4, y: 0.3 })).toBeCloseTo(
+      (Math.atan(0.25) * 180) / Math.PI
+    );
+    expect(getLineTilt({ x: 0.6, y: 0.3 }, { x: 0.4, y: 0.3 })).toBeCloseTo(0);
+  });
+
+  it('measures a lean as the shoulder tilt against the hip tilt', () => {
+    // Left shoulder dropped 0.05, hips tilted the other way by the same amount
+    const leaning = createLandmarks({
+      ...TORSO,
+      [L.LEFT_SHOULDER]: [0.6, 0.35],
+      [L.LEFT_HIP]: [0.55, 0.5],
+    });
+    const tilt = (dy: number, dx: number) => (Math.atan2(dy, dx) * 180) / Math.PI;
+
+    expect(getTorsoLean(createLandmarks(TORSO))).toBeCloseTo(0);
+    expect(getTorsoLean(leaning)).toBeCloseTo(tilt(0.05, 0.2) - tilt(-0.05, 0.1));
+  });
+
+  it('measures a turn from the shoulders\' depth in the world', () => {
+    // Shoulders 0.4 apart, turned 30 degrees to the player's left
+    const turn = (Math.PI / 180) * 30;
+    const world = createLandmarks({
+      [L.LEFT_SHOULDER]: [0.2 * Math.cos(turn), -0.5, 0.2 * Math.sin(turn)],
+      [L.RIGHT_SHOULDER]: [-0.2 * Math.cos(turn), -0.5, -0.2 * Math.sin(turn)],
+    });
+    const mirrored = world.map((lm) => ({ ...lm, z: -lm.z }));
+
+    expect(getTorsoTurn(world)).toBeCloseTo(0.5);
+    expect(getTorsoTurn(mirrored)).toBeCloseTo(-0.5);
+  });
+
+  it('cannot measure an orientation without the landmarks', () => {
+    const shouldersOnly = createLandmarks({
+      [L.LEFT_SHOULDER]: [0.6, 0.3],
+      [L.RIGHT_SHOULDER]: [0.4, 0.3],
+    });
+
+    expect(getTorsoLean(shouldersOnly)).toBeNull();
+    expect(getTorsoTurn(createLandmarks({ [L.LEFT_SHOULDER]: [0.2, -0.5, 0] }))).toBeNull();
+    const sameSpot = createLandmarks({ [L.LEFT_SHOULDER]: [0, -0.5], [L.RIGHT_SHOULDER]: [0, -0.5] });
+    expect(getTorsoTurn(sameSpot)).toBeNull();
+  });
+});
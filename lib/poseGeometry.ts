@@ -0,0 +1,255 @@
+/**
+ * Body geometry from pose landmarks
+ *
+ * Joint angles, limb lengths, torso orientation and body scale, shared by
+ * gesture detection, calibration and pose matching. Measurements take the
+ * landmarks of either space:
+ * - 'image': normalized image landmarks (x and y only; lengths shrink as the
+ *   player steps back from the camera)
+ * - 'world': worldLandmarks, in meters around the hip midpoint (x, y and z;
+ *   lengths don't depend on distance from the camera)
+ *
+ * Measurements return null when a landmark they need isn't visible.
+ */
+
+import { POSE_LANDMARKS, type Landmark } from './types';
+
+// Side of the body (the player's own left and right)
+export type BodySide = 'left' | 'right';
+
+// Coordinates a measurement uses (see above)
+export type GeometrySpace = 'image' | 'world';
+
+// A position to measure (z is only used in world space)
+export interface Point {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+// Min landmark visibility for a landmark to be measured
+export const MIN_LANDMARK_VISIBILITY = 0.5;
+
+// Landmarks of each side of the body
+export const SIDE_LANDMARKS = {
+  left: {
+    shoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+    elbow: POSE_LANDMARKS.LEFT_ELBOW,
+    wrist: POSE_LANDMARKS.LEFT_WRIST,
+    hip: POSE_LANDMARKS.LEFT_HIP,
+    knee: POSE_LANDMARKS.LEFT_KNEE,
+    ankle: POSE_LANDMARKS.LEFT_ANKLE,
+  },
+  right: {
+    shoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+    elbow: POSE_LANDMARKS.RIGHT_ELBOW,
+    wrist: POSE_LANDMARKS.RIGHT_WRIST,
+    hip: POSE_LANDMARKS.RIGHT_HIP,
+    knee: POSE_LANDMARKS.RIGHT_KNEE,
+    ankle: POSE_LANDMARKS.RIGHT_ANKLE,
+  },
+} as const;
+
+export type BodyPart = keyof typeof SIDE_LANDMARKS.left;
+
+// Joint angles: [end, vertex, end] body parts of one side
+export const JOINT_ANGLES = {
+  elbow: ['shoulder', 'elbow', 'wrist'],
+  shoulder: ['elbow', 'shoulder', 'hip'],
+  hip: ['shoulder', 'hip', 'knee'],
+  knee: ['hip', 'knee', 'ankle'],
+} as const satisfies Record<string, readonly [BodyPart, BodyPart, BodyPart]>;
+
+export type Joint = keyof typeof JOINT_ANGLES;
+
+// Limb segments: [from, to] body parts of one side
+export const LIMBS = {
+  upperArm: ['shoulder', 'elbow'],
+  forearm: ['elbow', 'wrist'],
+  thigh: ['hip', 'knee'],
+  shin: ['knee', 'ankle'],
+} as const satisfies Record<string, readonly [BodyPart, BodyPart]>;
+
+export type Limb = keyof typeof LIMBS;
+
+/**
+ * Whether a landmark was tracked confidently enough to measure
+ */
+export function isLandmarkVisible(landmark: Landmark | undefined): landmark is Landmark {
+  return landmark !== undefined && (landmark.visibility ?? 0) > MIN_LANDMARK_VISIBILITY;
+}
+
+/**
+ * The other side of the body
+ */
+export function getOppositeSide(side: BodySide): BodySide {
+  return side === 'left' ? 'right' : 'left';
+}
+
+/**
+ * Get a body part's landmark, or null when it isn't visible
+ */
+export function getBodyPart(
+  landmarks: Landmark[],
+  side: BodySide,
+  part: BodyPart
+): Landmark | null {
+  const landmark = landmarks[SIDE_LANDMARKS[side][part]];
+  return isLandmarkVisible(landmark) ? landmark : null;
+}
+
+/**
+ * Distance between two points
+ */
+export function getDistance(a: Point, b: Point, space: GeometrySpace = 'image'): number {
+  const dz = space === 'world' ? (a.z ?? 0) - (b.z ?? 0) : 0;
+  return Math.hypot(a.x - b.x, a.y - b.y, dz);
+}
+
+/**
+ * Point halfway between two points
+ */
+export function getMidpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: ((a.z ?? 0) + (b.z ?? 0)) / 2 };
+}
+
+/**
+ * Angle (degrees, 0-180) at vertex between the segments to a and c
+ * (0 when either segment has no length)
+ */
+export function getAngle(
+  a: Point,
+  vertex: Point,
+  c: Point,
+  space: GeometrySpace = 'image'
+): number {
+  const useZ = space === 'world';
+  const u = [a.x - vertex.x, a.y - vertex.y, useZ ? (a.z ?? 0) - (vertex.z ?? 0) : 0];
+  const w = [c.x - vertex.x, c.y - vertex.y, useZ ? (c.z ?? 0) - (vertex.z ?? 0) : 0];
+  const lengths = Math.hypot(...u) * Math.hypot(...w);
+  if (lengths === 0) return 0;
+
+  const cos = (u[0] * w[0] + u[1] * w[1] + u[2] * w[2]) / lengths;
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
+
+/**
+ * Tilt (degrees) of the line from a right-side point to its left-side
+ * counterpart, in the image plane
+ * Positive when the left point is lower (Y increases downward)
+ */
+export function getLineTilt(left: Point, right: Point): number {
+  return (Math.atan2(left.y - right.y, Math.abs(left.x - right.x)) * 180) / Math.PI;
+}
+
+/**
+ * Angle (degrees, 0-180) of a joint, e.g. 180 for a straight elbow
+ */
+export function getJointAngle(
+  landmarks: Landmark[],
+  side: BodySide,
+  joint: Joint,
+  space: GeometrySpace = 'image'
+): number | null {
+  const [a, vertex, c] = JOINT_ANGLES[joint].map((part) => getBodyPart(landmarks, side, part));
+  if (!a || !vertex || !c) return null;
+  return getAngle(a, vertex, c, space);
+}
+
+/**
+ * Length of a limb segment
+ */
+export function getLimbLength(
+  landmarks: Landmark[],
+  side: BodySide,
+  limb: Limb,
+  space: GeometrySpace = 'image'
+): number | null {
+  const [from, to] = LIMBS[limb].map((part) => getBodyPart(landmarks, side, part));
+  if (!from || !to) return null;
+  return getDistance(from, to, space);
+}
+
+/**
+ * Midpoint of the shoulders
+ */
+export function getShoulderCenter(landmarks: Landmark[]): Point | null {
+  const left = getBodyPart(landmarks, 'left', 'shoulder');
+  const right = getBodyPart(landmarks, 'right', 'shoulder');
+  return left && right ? getMidpoint(left, right) : null;
+}
+
+/**
+ * Midpoint of the hips
+ */
+export function getHipCenter(landmarks: Landmark[]): Point | null {
+  const left = getBodyPart(landmarks, 'left', 'hip');
+  const right = getBodyPart(landmarks, 'right', 'hip');
+  return left && right ? getMidpoint(left, right) : null;
+}
+
+/**
+ * Distance between the shoulders
+ */
+export function getShoulderWidth(
+  landmarks: Landmark[],
+  space: GeometrySpace = 'image'
+): number | null {
+  const left = getBodyPart(landmarks, 'left', 'shoulder');
+  const right = getBodyPart(landmarks, 'right', 'shoulder');
+  return left && right ? getDistance(left, right, space) : null;
+}
+
+/**
+ * Distance from the shoulder midpoint to the hip midpoint
+ */
+export function getTorsoLength(
+  landmarks: Landmark[],
+  space: GeometrySpace = 'image'
+): number | null {
+  const shoulders = getShoulderCenter(landmarks);
+  const hips = getHipCenter(landmarks);
+  return shoulders && hips ? getDistance(shoulders, hips, space) : null;
+}
+
+/**
+ * Size of the body, to express distances in body units rather than image
+ * units: the torso length, which (unlike shoulder width) holds steady as
+ * the player turns
+ */
+export function getBodyScale(
+  landmarks: Landmark[],
+  space: GeometrySpace = 'image'
+): number | null {
+  return getTorsoLength(landmarks, space);
+}
+
+/**
+ * Sideways lean: tilt (degrees) of the shoulder line against the hip line
+ * Positive when leaning to the player's left (left shoulder dropping)
+ */
+export function getTorsoLean(landmarks: Landmark[]): number | null {
+  const leftShoulder = getBodyPart(landmarks, 'left', 'shoulder');
+  const rightShoulder = getBodyPart(landmarks, 'right', 'shoulder');
+  const leftHip = getBodyPart(landmarks, 'left', 'hip');
+  const rightHip = getBodyPart(landmarks, 'right', 'hip');
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) return null;
+
+  return getLineTilt(leftShoulder, rightShoulder) - getLineTilt(leftHip, rightHip);
+}
+
+/**
+ * How far the shoulders are turned, from their depth difference in world
+ * landmarks (sine of the turn angle: 0 = facing the camera, 1 = side on)
+ * Positive when turned to the player's left (left shoulder further away)
+ */
+export function getTorsoTurn(worldLandmarks: Landmark[]): number | null {
+  const left = getBodyPart(worldLandmarks, 'left', 'shoulder');
+  const right = getBodyPart(worldLandmarks, 'right', 'shoulder');
+  if (!left || !right) return null;
+
+  // Width in the floor plane, so shoulder tilt doesn't count
+  const depth = left.z - right.z;
+  const width = Math.hypot(left.x - right.x, depth);
+  return width > 0 ? depth / width : null;
+}
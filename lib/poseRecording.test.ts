@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PoseRecording, PoseResult } from './types';
+import { POSE_RECORDING_VERSION, createPosePlayback } from './poseRecording';
+
+// Recording of four frames, 100ms apart (the frame's x marks its index)
+function createRecording(): PoseRecording {
+  return {
+    version: POSE_RECORDING_VERSION,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    frames: [0, 1, 2, 3].map((index) => ({
+      time: index * 100,
+      pose: { landmarks: [{ x: index, y: 0, z: 0 }], timestamp: index * 100 },
+    })),
+  };
+}
+
+const frameIndex = (pose: PoseResult | null) => pose?.landmarks[0].x;
+
+describe('createPosePlayback', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the first subscriber before playing', () => {
+    const playback = createPosePlayback(createRecording());
+    playback.start();
+    vi.advanceTimersByTime(1000);
+
+    const played: PoseResult[] = [];
+    playback.subscribe((pose) => pose && played.push(pose));
+    vi.advanceTimersByTime(0);
+
+    expect(played.map(frameIndex)).toEqual([0]);
+    vi.advanceTimersByTime(300);
+    expect(played.map(frameIndex)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('plays from the first frame when started while subscribed', () => {
+    const playback = createPosePlayback(createRecording());
+    const played: PoseResult[] = [];
+    playback.subscribe((pose) => pose && played.push(pose));
+
+    playback.start();
+    vi.advanceTimersByTime(150);
+
+    expect(played.map(frameIndex)).toEqual([0, 1]);
+  });
+
+  it('pauses while nobody is subscribed and resumes where it left off', () => {
+    const onEnd = vi.fn();
+    const playback = createPosePlayback(createRecording(), { onEnd });
+    const played: PoseResult[] = [];
+    const unsubscribe = playback.subscribe((pose) => pose && played.push(pose));
+    playback.start();
+    vi.advanceTimersByTime(150);
+    unsubscribe();
+
+    vi.advanceTimersByTime(5000);
+    expect(played.map(frameIndex)).toEqual([0, 1]);
+    expect(playback.isPlaying()).toBe(true);
+
+    playback.subscribe((pose) => pose && played.push(pose));
+    vi.advanceTimersByTime(200);
+
+    expect(played.map(frameIndex)).toEqual([0, 1, 2, 3]);
+    expect(onEnd).toHaveBeenCalledOnce();
+    expect(playback.isPlaying()).toBe(false);
+  });
+
+  it('keeps frame timestamps as far apart as they were recorded', () => {
+    const playback = createPosePlayback(createRecording());
+    const played: PoseResult[] = [];
+    playback.subscribe((pose) => pose && played.push(pose));
+    playback.start();
+    vi.advanceTimersByTime(300);
+
+    const gaps = played.slice(1).map((pose, i) => pose.timestamp - played[i].timestamp);
+    expect(gaps).toEqual([100, 100, 100]);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Pose session recording and playback
+ *
+ * Records the stream of PoseResult frames from pose detection so a real
+ * session can be replayed later without a camera (e.g. to reproduce a
+ * gesture or gameplay bug). Recordings are saved as compact, versioned JSON:
+ *
+ * {
+ *   "version": 1,
+ *   "recordedAt": "2026-01-01T12:00:00.000Z",
+ *   "frames": [
+ *     [0, [x, y, z, visibility, ...], [x, y, z, visibility, ...]],
+ *     [33, null]
+ *   ]
+ * }
+ *
+ * Each frame is [time, landmarks, worldLandmarks?] with time in ms since the
+ * first frame and landmarks flattened to 4 numbers each (visibility -1 when
+ * unknown). A null landmarks entry is a frame where nobody was detected.
+ * Coordinates are rounded to well below detection noise to keep files small.
+ */
+
+import type { Landmark, PoseRecording, PoseRecordingFrame, PoseResult } from './types';
+
+// Current recording file format version
+export const POSE_RECORDING_VERSION = 1;
+
+// Decimal places kept when saving (normalized and world coordinates)
+const LANDMARK_PRECISION = 5;
+const VISIBILITY_PRECISION = 3;
+
+// Numbers per landmark in a flattened frame
+const LANDMARK_STRIDE = 4;
+
+// Result of validating raw recording data
+export type PoseRecordingValidationResult =
+  | { valid: true; recording: PoseRecording }
+  | { valid: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function flattenLandmarks(landmarks: Landmark[]): number[] {
+  return landmarks.flatMap((lm) => [
+    round(lm.x, LANDMARK_PRECISION),
+    round(lm.y, LANDMARK_PRECISION),
+    round(lm.z, LANDMARK_PRECISION),
+    lm.visibility === undefined ? -1 : round(lm.visibility, VISIBILITY_PRECISION),
+  ]);
+}
+
+/**
+ * Unflatten landmarks, or return null if the data is malformed
+ */
+function unflattenLandmarks(data: unknown): Landmark[] | null {
+  if (!Array.isArray(data) || data.length % LANDMARK_STRIDE !== 0 || !data.every(isFiniteNumber)) {
+    return null;
+  }
+
+  const landmarks: Landmark[] = [];
+  for (let i = 0; i < data.length; i += LANDMARK_STRIDE) {
+    const visibility = data[i + 3] as number;
+    landmarks.push({
+      x: data[i] as number,
+      y: data[i + 1] as number,
+      z: data[i + 2] as number,
+      ...(visibility >= 0 && { visibility }),
+    });
+  }
+  return landmarks;
+}
+
+/**
+ * Serialize a recording to the compact JSON file format
+ */
+export function serializePoseRecording(recording: PoseRecording): string {
+  return JSON.stringify({
+    version: POSE_RECORDING_VERSION,
+    recordedAt: recording.recordedAt,
+    frames: recording.frames.map(({ time, pose }) => {
+      if (!pose) {
+        return [Math.round(time), null];
+      }
+      return pose.worldLandmarks
+        ? [Math.round(time), flattenLandmarks(pose.landmarks), flattenLandmarks(pose.worldLandmarks)]
+        : [Math.round(time), flattenLandmarks(pose.landmarks)];
+    }),
+  });
+}
+
+/**
+ * Validate raw (parsed JSON) recording data
+ * Returns the recording with frames sorted by time, or a list of errors
+ */
+export function validatePoseRecording(data: unknown): PoseRecordingValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['Recording must be a JSON object'] };
+  }
+
+  if (data.version !== POSE_RECORDING_VERSION) {
+    errors.push(
+      `Unsupported recording version: ${String(data.version)} (expected ${POSE_RECORDING_VERSION})`
+    );
+  }
+
+  if (typeof data.recordedAt !== 'string') {
+    errors.push('recordedAt must be a string');
+  }
+
+  const frames: PoseRecordingFrame[] = [];
+  if (!Array.isArray(data.frames)) {
+    errors.push('frames must be an array');
+  } else {
+    data.frames.forEach((frame: unknown, index: number) => {
+      if (!Array.isArray(frame) || frame.length < 2 || frame.length > 3) {
+        errors.push(`frames[${index}] must be [time, landmarks, worldLandmarks?]`);
+        return;
+      }
+
+      const [time, rawLandmarks, rawWorldLandmarks] = frame;
+      if (!isFiniteNumber(time) || time < 0) {
+        errors.push(`frames[${index}] time must be a non-negative number`);
+        return;
+      }
+      if (rawLandmarks === null) {
+        frames.push({ time, pose: null });
+        return;
+      }
+
+      const landmarks = unflattenLandmarks(rawLandmarks);
+      const worldLandmarks =
+        rawWorldLandmarks === undefined ? undefined : unflattenLandmarks(rawWorldLandmarks);
+      if (!landmarks || worldLandmarks === null) {
+        errors.push(`frames[${index}] landmarks must be arrays of ${LANDMARK_STRIDE} numbers each`);
+        return;
+      }
+
+      frames.push({
+        time,
+        pose: { landmarks, ...(worldLandmarks && { worldLandmarks }), timestamp: time },
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    recording: {
+      version: POSE_RECORDING_VERSION,
+      recordedAt: data.recordedAt as string,
+      frames: frames.sort((a, b) => a.time - b.time),
+    },
+  };
+}
+
+/**
+ * Validate raw recording data, throwing if it is invalid
+ */
+export function parsePoseRecording(data: unknown): PoseRecording {
+  const result = validatePoseRecording(data);
+  if (!result.valid) {
+    throw new Error(`Invalid pose recording: ${result.errors.join('; ')}`);
+  }
+  return result.recording;
+}
+
+/**
+ * Fetch and validate a recording file
+ */
+export async function loadPoseRecording(src: string): Promise<PoseRecording> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Failed to load recording ${src}: ${response.status} ${response.statusText}`);
+  }
+  return parsePoseRecording(await response.json());
+}
+
+/**
+ * Get the length of a recording in ms
+ */
+export function getPoseRecordingDuration(recording: PoseRecording): number {
+  return recording.frames[recording.frames.length - 1]?.time ?? 0;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+export interface PoseRecorder {
+  /** Start a new recording (discarding any frames recorded so far) */
+  start: () => void;
+  /** Stop recording and get the recording */
+  stop: () => PoseRecording;
+  /** Add a pose frame (ignored unless recording) */
+  addFrame: (pose: PoseResult | null) => void;
+  /** Whether frames are being recorded */
+  isRecording: () => boolean;
+  /** Number of frames recorded so far */
+  getFrameCount: () => number;
+}
+
+/**
+ * Create a pose recorder
+ *
+ * Frames are timed by their pose timestamps (performance.now() time), or by
+ * the time they were added when no pose was detected.
+ */
+export function createPoseRecorder(): PoseRecorder {
+  let recording = false;
+  let recordedAt = new Date().toISOString();
+  let startTime: number | null = null;
+  let frames: PoseRecordingFrame[] = [];
+
+  const start = () => {
+    recording = true;
+    recordedAt = new Date().toISOString();
+    startTime = null;
+    frames = [];
+  };
+
+  const stop = (): PoseRecording => {
+    recording = false;
+    return { version: POSE_RECORDING_VERSION, recordedAt, frames };
+  };
+
+  const addFrame = (pose: PoseResult | null) => {
+    if (!recording) return;
+
+    const now = pose?.timestamp ?? performance.now();
+    if (startTime === null) {
+      startTime = now;
+    }
+
+    // Keep times monotonic if a null frame's clock reading lands before a pose timestamp
+    const previousTime = frames[frames.length - 1]?.time ?? 0;
+    const time = Math.max(previousTime, now - startTime);
+    frames.push({ time, pose: pose && { ...pose, timestamp: time } });
+  };
+
+  return {
+    start,
+    stop,
+    addFrame,
+    isRecording: () => recording,
+    getFrameCount: () => frames.length,
+  };
+}
+
+// ============================================
+// Playback
+// ============================================
+
+export interface PosePlaybackOptions {
+  /** Start again from the first frame when the recording ends */
+  loop?: boolean;
+  /** Callback when the recording has finished playing (not called when looping) */
+  onEnd?: () => void;
+}
+
+export interface PosePlayback {
+  /** The recording being played */
+  recording: PoseRecording;
+  /** Start playing from the first frame (once something is subscribed) */
+  start: () => void;
+  /** Stop playing */
+  stop: () => void;
+  /** Whether the recording is playing (started, and not yet ended or stopped) */
+  isPlaying: () => boolean;
+  /** Receive played frames; returns an unsubscribe function */
+  subscribe: (listener: (pose: PoseResult | null) => void) => () => void;
+}
+
+/**
+ * Create a playback source that feeds a recording's frames to its
+ * subscribers at their original timing
+ *
+ * Pose timestamps are rewritten to performance.now() time as each frame is
+ * played, so consumers see the same timing as during the live session.
+ * The timeline only runs while something is subscribed: after start() it
+ * waits for the first subscriber, and it pauses while nobody is listening
+ * (e.g. between screens), so every frame reaches a consumer.
+ */
+export function createPosePlayback(
+  recording: PoseRecording,
+  { loop = false, onEnd }: PosePlaybackOptions = {}
+): PosePlayback {
+  const listeners = new Set<(pose: PoseResult | null) => void>();
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let playing = false;
+  let startTime = 0;
+  let frameIndex = 0;
+  // When the timeline was paused for lack of subscribers (null while running)
+  let pausedAt: number | null = null;
+
+  const clearTimer = () => {
+    if (timeout !== null) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+  };
+
+  // Emit every frame that is due, then wait for the next one
+  const playDueFrames = () => {
+    timeout = null;
+    const { frames } = recording;
+
+    while (playing && frameIndex < frames.length) {
+      const frame = frames[frameIndex];
+      const dueAt = startTime + frame.time;
+      if (dueAt > performance.now()) {
+        timeout = setTimeout(playDueFrames, dueAt - performance.now());
+        return;
+      }
+
+      frameIndex += 1;
+      const pose = frame.pose && { ...frame.pose, timestamp: dueAt };
+      listeners.forEach((listener) => listener(pose));
+    }
+
+    if (!playing) return;
+
+    if (loop && frames.length > 0) {
+      // Restart one frame interval after the last frame
+      startTime += getPoseRecordingDuration(recording) + (frames[1]?.time ?? 0);
+      frameIndex = 0;
+      timeout = setTimeout(playDueFrames, Math.max(0, startTime - performance.now()));
+      return;
+    }
+
+    playing = false;
+    onEnd?.();
+  };
+
+  // Run the timeline again, shifted by the time it was paused
+  const resume = () => {
+    if (!playing || pausedAt === null) return;
+    startTime += performance.now() - pausedAt;
+    pausedAt = null;
+    clearTimer();
+    timeout = setTimeout(playDueFrames, 0);
+  };
+
+  const pause = () => {
+    if (!playing || pausedAt !== null) return;
+    clearTimer();
+    pausedAt = performance.now();
+  };
+
+  const start = () => {
+    clearTimer();
+    playing = true;
+    startTime = performance.now();
+    pausedAt = startTime;
+    frameIndex = 0;
+    if (listeners.size > 0) {
+      resume();
+    }
+  };
+
+  const stop = () => {
+    clearTimer();
+    playing = false;
+    pausedAt = null;
+  };
+
+  const subscribe = (listener: (pose: PoseResult | null) => void) => {
+    listeners.add(listener);
+    resume();
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        pause();
+      }
+    };
+  };
+
+  return {
+    recording,
+    start,
+    stop,
+    isPlaying: () => playing,
+    subscribe,
+  };
+}
@@ -0,0 +1,467 @@
+/**
+ * Synthetic pose generation
+ *
+ * Builds pose recordings of scripted movements (waves, claps, arm poses,
+ * jumps, kicks, squats, leans, turns, idle sway, walking toward the camera) from a neutral standing pose, so gesture
+ * detection can be exercised and tuned without a camera. Recordings use the
+ * same format as recorded sessions (lib/poseRecording) and can be played
+ * back through PoseDetector.
+ *
+ * Landmarks are in camera view: the player's left side is on the right of
+ * the image (higher x). Every movement starts after a one second lead-in of
+ * standing still, which is what calibration averages over.
+ */
+
+import type { Landmark, PoseRecording, PoseRecordingFrame } from './types';
+import { POSE_LANDMARKS } from './types';
+import { POSE_RECORDING_VERSION } from './poseRecording';
+import { createSeededRandom } from './random';
+
+// Scripted movements that can be synthesized
+export type SyntheticMotion =
+  | 'idle-sway'
+  | 'wave'
+  | 'clap'
+  | 'arms-up'
+  | 't-pose'
+  | 'jump'
+  | 'kick'
+  | 'squat'
+  | 'lean'
+  | 'turn'
+  | 'walk-toward';
+
+// Description of a synthetic clip (as stored in gesture fixtures)
+export interface SyntheticClipSpec {
+  motion: SyntheticMotion;
+  /** Which arm waves, leg kicks or way the body leans or turns */
+  side?: 'left' | 'right';
+  /** Size of the movement, 1 = a full clean movement */
+  amplitude?: number;
+  /** Clip length in ms */
+  duration?: number;
+  /** Frames per second */
+  frameRate?: number;
+  /** Landmark jitter (normalized units) */
+  noise?: number;
+  /** Seed for the jitter */
+  seed?: number;
+}
+
+// Standing still before the movement starts (ms)
+export const SYNTHETIC_LEAD_IN = 1000;
+
+const DEFAULT_DURATION = 3000;
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_NOISE = 0.002;
+
+// Approximate metres per normalized unit, for world landmarks
+const WORLD_SCALE = 2.3;
+
+// Neutral standing pose, indexed by POSE_LANDMARKS
+const STANDING_POSE: [number, number][] = [
+  [0.5, 0.22], // nose
+  [0.51, 0.205], [0.515, 0.2], [0.52, 0.2], // left eye inner, eye, outer
+  [0.49, 0.205], [0.485, 0.2], [0.48, 0.2], // right eye inner, eye, outer
+  [0.53, 0.21], [0.47, 0.21], // ears
+  [0.51, 0.24], [0.49, 0.24], // mouth
+  [0.58, 0.33], [0.42, 0.33], // shoulders
+  [0.61, 0.45], [0.39, 0.45], // elbows
+  [0.62, 0.56], [0.38, 0.56], // wrists
+  [0.625, 0.59], [0.375, 0.59], // pinkies
+  [0.62, 0.6], [0.38, 0.6], // index fingers
+  [0.61, 0.58], [0.39, 0.58], // thumbs
+  [0.545, 0.58], [0.455, 0.58], // hips
+  [0.55, 0.74], [0.45, 0.74], // knees
+  [0.55, 0.89], [0.45, 0.89], // ankles
+  [0.545, 0.91], [0.455, 0.91], // heels
+  [0.565, 0.92], [0.435, 0.92], // foot index
+];
+
+// Landmarks moved by each arm
+const ARM_LANDMARKS = {
+  left: [
+    POSE_LANDMARKS.LEFT_ELBOW,
+    POSE_LANDMARKS.LEFT_WRIST,
+    POSE_LANDMARKS.LEFT_PINKY,
+    POSE_LANDMARKS.LEFT_INDEX,
+    POSE_LANDMARKS.LEFT_THUMB,
+  ],
+  right: [
+    POSE_LANDMARKS.RIGHT_ELBOW,
+    POSE_LANDMARKS.RIGHT_WRIST,
+    POSE_LANDMARKS.RIGHT_PINKY,
+    POSE_LANDMARKS.RIGHT_INDEX,
+    POSE_LANDMARKS.RIGHT_THUMB,
+  ],
+} as const;
+
+// Landmarks moved by each leg below the knee joint
+const LEG_LANDMARKS = {
+  left: [POSE_LANDMARKS.LEFT_ANKLE, POSE_LANDMARKS.LEFT_HEEL, POSE_LANDMARKS.LEFT_FOOT_INDEX],
+  right: [POSE_LANDMARKS.RIGHT_ANKLE, POSE_LANDMARKS.RIGHT_HEEL, POSE_LANDMARKS.RIGHT_FOOT_INDEX],
+} as const;
+
+const HAND_LANDMARKS: number[] = [
+  POSE_LANDMARKS.LEFT_PINKY,
+  POSE_LANDMARKS.LEFT_INDEX,
+  POSE_LANDMARKS.LEFT_THUMB,
+  POSE_LANDMARKS.RIGHT_PINKY,
+  POSE_LANDMARKS.RIGHT_INDEX,
+  POSE_LANDMARKS.RIGHT_THUMB,
+];
+
+const LOWER_BODY_LANDMARKS: number[] = [
+  POSE_LANDMARKS.LEFT_KNEE,
+  POSE_LANDMARKS.RIGHT_KNEE,
+  POSE_LANDMARKS.LEFT_ANKLE,
+  POSE_LANDMARKS.RIGHT_ANKLE,
+  POSE_LANDMARKS.LEFT_HEEL,
+  POSE_LANDMARKS.RIGHT_HEEL,
+  POSE_LANDMARKS.LEFT_FOOT_INDEX,
+  POSE_LANDMARKS.RIGHT_FOOT_INDEX,
+];
+
+/**
+ * Create a neutral standing pose, facing the camera with arms down
+ */
+export function createStandingPose(): Landmark[] {
+  return STANDING_POSE.map(([x, y]) => ({ x, y, z: 0, visibility: 0.99 }));
+}
+
+/**
+ * 0 -> 1 -> 0 over [start, start + duration], smoothly
+ */
+function pulse(t: number, start: number, duration: number): number {
+  const p = (t - start) / duration;
+  return p <= 0 || p >= 1 ? 0 : Math.sin(Math.PI * p);
+}
+
+/**
+ * 0 -> 1, hold, 1 -> 0 over [start, start + duration], with eased ramps
+ */
+function envelope(t: number, start: number, duration: number, ramp: number): number {
+  const p = t - start;
+  if (p <= 0 || p >= duration) return 0;
+  const ease = (x: number) => 0.5 - 0.5 * Math.cos(Math.PI * Math.min(1, x));
+  return Math.min(ease(p / ramp), ease((duration - p) / ramp));
+}
+
+function translate(pose: Landmark[], dx: number, dy: number, indices?: number[]): Landmark[] {
+  const moved = new Set(indices ?? pose.map((_, i) => i));
+  return pose.map((lm, i) => (moved.has(i) ? { ...lm, x: lm.x + dx, y: lm.y + dy } : lm));
+}
+
+// Elbow and wrist placement relative to the shoulder
+// (`out` is away from the body, `dy` down the frame)
+interface ArmTarget {
+  elbow: { out: number; dy: number };
+  wrist: { out: number; dy: number };
+}
+
+/**
+ * Move an arm toward a target placement by `amount` (0 = unchanged, 1 = at target)
+ */
+function moveArm(
+  pose: Landmark[],
+  side: 'left' | 'right',
+  target: ArmTarget,
+  amount: number
+): Landmark[] {
+  const outward = side === 'left' ? 1 : -1;
+  const shoulderIndex =
+    side === 'left' ? POSE_LANDMARKS.LEFT_SHOULDER : POSE_LANDMARKS.RIGHT_SHOULDER;
+  const shoulder = pose[shoulderIndex];
+  const elbowIndex = side === 'left' ? POSE_LANDMARKS.LEFT_ELBOW : POSE_LANDMARKS.RIGHT_ELBOW;
+  const wristIndex = side === 'left' ? POSE_LANDMARKS.LEFT_WRIST : POSE_LANDMARKS.RIGHT_WRIST;
+
+  const elbow = pose[elbowIndex];
+  const wrist = pose[wristIndex];
+  const targetElbow = {
+    x: shoulder.x + outward * target.elbow.out,
+    y: shoulder.y + target.elbow.dy,
+  };
+  const targetWrist = {
+    x: shoulder.x + outward * target.wrist.out,
+    y: shoulder.y + target.wrist.dy,
+  };
+
+  const lerp = (a: number, b: number) => a + (b - a) * amount;
+  const newElbow = { x: lerp(elbow.x, targetElbow.x), y: lerp(elbow.y, targetElbow.y) };
+  const newWrist = { x: lerp(wrist.x, targetWrist.x), y: lerp(wrist.y, targetWrist.y) };
+
+  return pose.map((lm, i) => {
+    if (i === elbowIndex) return { ...lm, ...newElbow };
+    if (i === wristIndex) return { ...lm, ...newWrist };
+    if ((ARM_LANDMARKS[side] as readonly number[]).includes(i)) {
+      // Hand points keep their offset from the wrist
+      return { ...lm, x: newWrist.x + (lm.x - wrist.x), y: newWrist.y + (lm.y - wrist.y) };
+    }
+    return lm;
+  });
+}
+
+/**
+ * Raise an arm by `lift` (0 = down, 1 = hand well above the head),
+ * swinging the hand side to side by `swing`
+ */
+function raiseArm(
+  pose: Landmark[],
+  side: 'left' | 'right',
+  lift: number,
+  swing: number
+): Landmark[] {
+  const outward = side === 'left' ? 1 : -1;
+  return moveArm(
+    pose,
+    side,
+    {
+      elbow: { out: 0.1, dy: -0.05 },
+      wrist: { out: 0.12 + outward * swing, dy: -0.17 },
+    },
+    lift
+  );
+}
+
+/**
+ * Kick a leg forward and out by `lift` (0 = planted, 1 = foot at knee height)
+ */
+function raiseLeg(pose: Landmark[], side: 'left' | 'right', lift: number): Landmark[] {
+  const outward = side === 'left' ? 1 : -1;
+  const kneeIndex = side === 'left' ? POSE_LANDMARKS.LEFT_KNEE : POSE_LANDMARKS.RIGHT_KNEE;
+  const ankleIndex = side === 'left' ? POSE_LANDMARKS.LEFT_ANKLE : POSE_LANDMARKS.RIGHT_ANKLE;
+
+  const knee = pose[kneeIndex];
+  const ankle = pose[ankleIndex];
+  const newKnee = { x: knee.x + outward * 0.02 * lift, y: knee.y - 0.08 * lift };
+  const newAnkle = { x: ankle.x + outward * 0.06 * lift, y: ankle.y - 0.17 * lift };
+
+  return pose.map((lm, i) => {
+    if (i === kneeIndex) return { ...lm, ...newKnee };
+    if ((LEG_LANDMARKS[side] as readonly number[]).includes(i)) {
+      // Foot points keep their offset from the ankle
+      return { ...lm, x: newAnkle.x + (lm.x - ankle.x), y: newAnkle.y + (lm.y - ankle.y) };
+    }
+    return lm;
+  });
+}
+
+/**
+ * Rotate the upper body (everything above the hips) about the hip centre
+ * - in the image plane by `tilt` radians (positive leans to the player's left)
+ * - about the vertical axis by `turn` radians (positive turns to the player's left)
+ */
+function rotateUpperBody(pose: Landmark[], tilt: number, turn: number): Landmark[] {
+  const leftHip = pose[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = pose[POSE_LANDMARKS.RIGHT_HIP];
+  const cx = (leftHip.x + rightHip.x) / 2;
+  const cy = (leftHip.y + rightHip.y) / 2;
+  const cz = (leftHip.z + rightHip.z) / 2;
+  const fixed = new Set([
+    ...LOWER_BODY_LANDMARKS,
+    POSE_LANDMARKS.LEFT_HIP,
+    POSE_LANDMARKS.RIGHT_HIP,
+  ]);
+
+  return pose.map((lm, i) => {
+    if (fixed.has(i)) return lm;
+    // Turn: the player's left side (higher x) moves away from the camera
+    const dx = lm.x - cx;
+    const dz = lm.z - cz;
+    const turnedX = dx * Math.cos(turn) - dz * Math.sin(turn);
+    const turnedZ = dz * Math.cos(turn) + dx * Math.sin(turn);
+    // Tilt: the head moves toward the player's left as the left shoulder drops
+    const dy = lm.y - cy;
+    return {
+      ...lm,
+      x: cx + turnedX * Math.cos(tilt) - dy * Math.sin(tilt),
+      y: cy + turnedX * Math.sin(tilt) + dy * Math.cos(tilt),
+      z: cz + turnedZ,
+    };
+  });
+}
+
+/**
+ * Pose at time t (ms) for a movement
+ */
+function getPoseAt(spec: SyntheticClipSpec, base: Landmark[], t: number): Landmark[] {
+  const amplitude = spec.amplitude ?? 1;
+  const start = SYNTHETIC_LEAD_IN;
+
+  switch (spec.motion) {
+    case 'idle-sway': {
+      const swayX = 0.012 * amplitude * Math.sin((2 * Math.PI * t) / 2000);
+      const swayY = 0.004 * amplitude * Math.sin((2 * Math.PI * t) / 1000);
+      const swayed = translate(base, swayX, swayY);
+      // Relaxed arms drift a little
+      const drift = 0.012 * amplitude * Math.sin((2 * Math.PI * t) / 1800);
+      return translate(
+        translate(swayed, 0, drift, [...ARM_LANDMARKS.left]),
+        0,
+        -drift,
+        [...ARM_LANDMARKS.right]
+      );
+    }
+
+    case 'wave': {
+      // Raise the arm, wave the hand twice, lower it (1s)
+      const side = spec.side ?? 'left';
+      const lift = amplitude * envelope(t, start, 1000, 250);
+      const swing = lift * 0.04 * Math.sin((2 * Math.PI * (t - start)) / 250);
+      return raiseArm(base, side, lift, swing);
+    }
+
+    case 'clap': {
+      // Bring the hands up in front of the chest, clap once, lower them (1s)
+      const lift = envelope(t, start, 1000, 250);
+      const close = amplitude * pulse(t, start + 300, 400);
+      // Each wrist ends 0.02 from the body's centre line when the hands meet
+      const gap = 0.14 * (1 - close) + 0.02;
+      const clapped = (side: 'left' | 'right', pose: Landmark[]) => {
+        const shoulder =
+          pose[side === 'left' ? POSE_LANDMARKS.LEFT_SHOULDER : POSE_LANDMARKS.RIGHT_SHOULDER];
+        const centreOffset = Math.abs(shoulder.x - 0.5);
+        return moveArm(
+          pose,
+          side,
+          { elbow: { out: 0.04, dy: 0.1 }, wrist: { out: gap - centreOffset, dy: 0.09 } },
+          lift
+        );
+      };
+      return clapped('right', clapped('left', base));
+    }
+
+    case 'arms-up': {
+      // Both arms raised overhead, held and lowered (1.2s)
+      const lift = amplitude * envelope(t, start, 1200, 300);
+      return raiseArm(raiseArm(base, 'left', lift, 0), 'right', lift, 0);
+    }
+
+    case 't-pose': {
+      // Both arms held straight out to the sides, then lowered (1.2s)
+      const spread = amplitude * envelope(t, start, 1200, 300);
+      const target: ArmTarget = { elbow: { out: 0.1, dy: 0 }, wrist: { out: 0.21, dy: 0 } };
+      return moveArm(moveArm(base, 'left', target, spread), 'right', target, spread);
+    }
+
+    case 'jump': {
+      // Crouch slightly, then leave the ground for ~450ms
+      const crouch = 0.03 * pulse(t, start, 250);
+      const rise = 0.12 * amplitude * pulse(t, start + 200, 450);
+      return translate(base, 0, crouch - rise);
+    }
+
+    case 'kick': {
+      // Kick out and back down (600ms)
+      const side = spec.side ?? 'left';
+      return raiseLeg(base, side, amplitude * envelope(t, start, 600, 200));
+    }
+
+    case 'squat': {
+      // Down, hold and up over 1.2s; feet stay planted
+      const depth = 0.1 * amplitude * envelope(t, start, 1200, 400);
+      const upper = base.map((_, i) => i).filter((i) => !LOWER_BODY_LANDMARKS.includes(i));
+      const squatted = translate(base, 0, depth, upper);
+      return squatted.map((lm, i) => {
+        if (i === POSE_LANDMARKS.LEFT_KNEE || i === POSE_LANDMARKS.RIGHT_KNEE) {
+          const outward = i === POSE_LANDMARKS.LEFT_KNEE ? 1 : -1;
+          return { ...lm, x: lm.x + outward * depth * 0.4, y: lm.y + depth * 0.5 };
+        }
+        return lm;
+      });
+    }
+
+    case 'lean': {
+      // Lean ~20° to the side, hold and straighten (1.2s)
+      const direction = (spec.side ?? 'left') === 'left' ? 1 : -1;
+      const tilt = direction * amplitude * 0.35 * envelope(t, start, 1200, 300);
+      return rotateUpperBody(base, tilt, 0);
+    }
+
+    case 'turn': {
+      // Turn the shoulders ~45° to the side, hold and turn back (1.2s)
+      const direction = (spec.side ?? 'left') === 'left' ? 1 : -1;
+      const turn = direction * amplitude * 0.8 * envelope(t, start, 1200, 300);
+      return rotateUpperBody(base, 0, turn);
+    }
+
+    case 'walk-toward': {
+      // Grow from 85% to 125% of the standing size (perspective centred at chest height)
+      const duration = spec.duration ?? DEFAULT_DURATION;
+      const progress = Math.max(0, Math.min(1, (t - start) / (duration - start)));
+      const scale = 0.85 + 0.4 * progress * amplitude;
+      const isWalking = progress > 0 && progress < 1;
+      const step = isWalking ? Math.sin((2 * Math.PI * (t - start)) / 1100) : 0;
+
+      const scaled = base.map((lm) => ({
+        ...lm,
+        x: 0.5 + (lm.x - 0.5) * scale,
+        y: 0.45 + (lm.y - 0.45) * scale + 0.006 * Math.abs(step),
+      }));
+      // Arms swing in opposition with the steps
+      return translate(
+        translate(scaled, 0, 0.02 * step, [...ARM_LANDMARKS.left]),
+        0,
+        -0.02 * step,
+        [...ARM_LANDMARKS.right]
+      );
+    }
+  }
+}
+
+/**
+ * World landmarks (approximate metres, origin at the hip centre)
+ */
+function toWorldLandmarks(landmarks: Landmark[]): Landmark[] {
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  const hipX = (leftHip.x + rightHip.x) / 2;
+  const hipY = (leftHip.y + rightHip.y) / 2;
+
+  return landmarks.map((lm) => ({
+    x: (lm.x - hipX) * WORLD_SCALE,
+    y: (lm.y - hipY) * WORLD_SCALE,
+    z: lm.z * WORLD_SCALE,
+    visibility: lm.visibility,
+  }));
+}
+
+/**
+ * Generate a pose recording of a scripted movement
+ */
+export function generateSyntheticRecording(spec: SyntheticClipSpec): PoseRecording {
+  const duration = spec.duration ?? DEFAULT_DURATION;
+  const frameInterval = 1000 / (spec.frameRate ?? DEFAULT_FRAME_RATE);
+  const noise = spec.noise ?? DEFAULT_NOISE;
+  const random = createSeededRandom(spec.seed ?? 1);
+  const base = createStandingPose();
+
+  // Roughly normal jitter in [-noise, noise]
+  const jitter = () => (random() + random() - 1) * noise;
+
+  const frames: PoseRecordingFrame[] = [];
+  for (let time = 0; time <= duration; time += frameInterval) {
+    const landmarks = getPoseAt(spec, base, time).map((lm, i) => ({
+      x: lm.x + jitter(),
+      y: lm.y + jitter(),
+      z: lm.z + jitter(),
+      // Hands are tracked less reliably than the body
+      visibility: Math.min(
+        1,
+        (lm.visibility ?? 1) - (HAND_LANDMARKS.includes(i) ? 0.2 : 0) + jitter()
+      ),
+    }));
+
+    const roundedTime = Math.round(time);
+    frames.push({
+      time: roundedTime,
+      pose: { landmarks, worldLandmarks: toWorldLandmarks(landmarks), timestamp: roundedTime },
+    });
+  }
+
+  return {
+    version: POSE_RECORDING_VERSION,
+    recordedAt: new Date(0).toISOString(),
+    frames,
+  };
+}
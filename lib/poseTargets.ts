@@ -0,0 +1,280 @@
+/**
+ * Target poses for "Strike a Pose" mode, and matching the player against them
+ *
+ * A pose target is a versioned JSON object giving the 2D position of each
+ * body joint, in the same normalized image coordinates as pose landmarks
+ * (the player's left side at higher x):
+ *
+ * {
+ *   "version": 1,
+ *   "id": "t-pose",
+ *   "label": "T-Pose",
+ *   "joints": { "nose": [0.5, 0.22], "leftShoulder": [0.58, 0.35], ... }
+ * }
+ *
+ * Every joint of POSE_JOINTS is required. Poses are compared by joint angles
+ * (elbows, shoulders, hips, knees), so a match doesn't depend on where the
+ * player stands or how big they are.
+ */
+
+import { POSE_LANDMARKS, type Landmark } from './types';
+import { getAngle, isLandmarkVisible, type Point } from './poseGeometry';
+
+// Current pose target format version
+export const POSE_TARGET_VERSION = 1;
+
+// Joints of a pose target, with the landmark each one is matched against
+export const POSE_JOINTS = {
+  nose: POSE_LANDMARKS.NOSE,
+  leftShoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+  rightShoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+  leftElbow: POSE_LANDMARKS.LEFT_ELBOW,
+  rightElbow: POSE_LANDMARKS.RIGHT_ELBOW,
+  leftWrist: POSE_LANDMARKS.LEFT_WRIST,
+  rightWrist: POSE_LANDMARKS.RIGHT_WRIST,
+  leftHip: POSE_LANDMARKS.LEFT_HIP,
+  rightHip: POSE_LANDMARKS.RIGHT_HIP,
+  leftKnee: POSE_LANDMARKS.LEFT_KNEE,
+  rightKnee: POSE_LANDMARKS.RIGHT_KNEE,
+  leftAnkle: POSE_LANDMARKS.LEFT_ANKLE,
+  rightAnkle: POSE_LANDMARKS.RIGHT_ANKLE,
+} as const;
+
+export type PoseJoint = keyof typeof POSE_JOINTS;
+
+const JOINT_NAMES = Object.keys(POSE_JOINTS) as PoseJoint[];
+
+// Angles compared when matching: [end, vertex, end] joints
+export const POSE_JOINT_ANGLES = {
+  leftElbow: ['leftShoulder', 'leftElbow', 'leftWrist'],
+  rightElbow: ['rightShoulder', 'rightElbow', 'rightWrist'],
+  leftShoulder: ['leftElbow', 'leftShoulder', 'leftHip'],
+  rightShoulder: ['rightElbow', 'rightShoulder', 'rightHip'],
+  leftHip: ['leftShoulder', 'leftHip', 'leftKnee'],
+  rightHip: ['rightShoulder', 'rightHip', 'rightKnee'],
+  leftKnee: ['leftHip', 'leftKnee', 'leftAnkle'],
+  rightKnee: ['rightHip', 'rightKnee', 'rightAnkle'],
+} as const satisfies Record<string, readonly [PoseJoint, PoseJoint, PoseJoint]>;
+
+export type PoseJointAngle = keyof typeof POSE_JOINT_ANGLES;
+
+// Angle difference (degrees) at which a joint no longer counts as matching
+export const POSE_ANGLE_TOLERANCE = 60;
+
+// Min fraction of joint angles that must be visible to judge a pose
+const MIN_VISIBLE_ANGLES = 0.5;
+
+// Target body pose, joints as [x, y] in normalized image coordinates
+export interface PoseTarget {
+  id: string;
+  label: string;
+  joints: Record<PoseJoint, [number, number]>;
+}
+
+// How well the player matches a target
+export interface PoseMatch {
+  similarity: number;  // 0-1, from the mean and worst of the joint scores
+  joints: Partial<Record<PoseJointAngle, number>>;  // 0-1 per compared joint angle
+}
+
+// Result of validating raw pose target data
+export type PoseTargetValidationResult =
+  | { valid: true; target: PoseTarget }
+  | { valid: false; errors: string[] };
+
+// Standing with arms down, the base of the preset poses
+const STANDING: PoseTarget['joints'] = {
+  nose: [0.5, 0.22],
+  leftShoulder: [0.58, 0.35],
+  rightShoulder: [0.42, 0.35],
+  leftElbow: [0.6, 0.47],
+  rightElbow: [0.4, 0.47],
+  leftWrist: [0.61, 0.58],
+  rightWrist: [0.39, 0.58],
+  leftHip: [0.55, 0.6],
+  rightHip: [0.45, 0.6],
+  leftKnee: [0.55, 0.75],
+  rightKnee: [0.45, 0.75],
+  leftAnkle: [0.55, 0.9],
+  rightAnkle: [0.45, 0.9],
+};
+
+// Preset poses, by id
+export const POSE_TARGETS: Record<string, PoseTarget> = {
+  't-pose': {
+    id: 't-pose',
+    label: 'T-Pose',
+    joints: {
+      ...STANDING,
+      leftElbow: [0.7, 0.35],
+      rightElbow: [0.3, 0.35],
+      leftWrist: [0.82, 0.35],
+      rightWrist: [0.18, 0.35],
+    },
+  },
+  'arms-up': {
+    id: 'arms-up',
+    label: 'Arms Up',
+    joints: {
+      ...STANDING,
+      leftElbow: [0.6, 0.23],
+      rightElbow: [0.4, 0.23],
+      leftWrist: [0.61, 0.11],
+      rightWrist: [0.39, 0.11],
+    },
+  },
+  star: {
+    id: 'star',
+    label: 'Star',
+    joints: {
+      ...STANDING,
+      leftElbow: [0.67, 0.26],
+      rightElbow: [0.33, 0.26],
+      leftWrist: [0.76, 0.17],
+      rightWrist: [0.24, 0.17],
+      leftKnee: [0.61, 0.74],
+      rightKnee: [0.39, 0.74],
+      leftAnkle: [0.67, 0.88],
+      rightAnkle: [0.33, 0.88],
+    },
+  },
+  'point-left': {
+    id: 'point-left',
+    label: 'Point Up Left',
+    joints: {
+      ...STANDING,
+      leftElbow: [0.65, 0.25],
+      leftWrist: [0.72, 0.14],
+    },
+  },
+  'point-right': {
+    id: 'point-right',
+    label: 'Point Up Right',
+    joints: {
+      ...STANDING,
+      rightElbow: [0.35, 0.25],
+      rightWrist: [0.28, 0.14],
+    },
+  },
+  'hands-on-hips': {
+    id: 'hands-on-hips',
+    label: 'Hands on Hips',
+    joints: {
+      ...STANDING,
+      leftElbow: [0.68, 0.47],
+      rightElbow: [0.32, 0.47],
+      leftWrist: [0.57, 0.58],
+      rightWrist: [0.43, 0.58],
+    },
+  },
+};
+
+export const POSE_TARGET_IDS = Object.keys(POSE_TARGETS);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validate raw (parsed JSON) pose target data
+ */
+export function validatePoseTarget(data: unknown): PoseTargetValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['Pose target must be a JSON object'] };
+  }
+
+  if (data.version !== POSE_TARGET_VERSION) {
+    errors.push(
+      `Unsupported pose target version: ${String(data.version)} (expected ${POSE_TARGET_VERSION})`
+    );
+  }
+  if (typeof data.id !== 'string' || data.id.length === 0) {
+    errors.push('id must be a non-empty string');
+  }
+  if (typeof data.label !== 'string') {
+    errors.push('label must be a string');
+  }
+
+  const joints = {} as PoseTarget['joints'];
+  if (!isRecord(data.joints)) {
+    errors.push('joints must be an object');
+  } else {
+    for (const joint of JOINT_NAMES) {
+      const point = data.joints[joint];
+      if (!Array.isArray(point) || point.length !== 2 || !point.every(isFiniteNumber)) {
+        errors.push(`joints.${joint} must be an [x, y] pair of numbers`);
+        continue;
+      }
+      joints[joint] = [point[0], point[1]];
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    target: { id: data.id as string, label: data.label as string, joints },
+  };
+}
+
+/**
+ * Validate raw pose target data, throwing if it is invalid
+ */
+export function parsePoseTarget(data: unknown): PoseTarget {
+  const result = validatePoseTarget(data);
+  if (!result.valid) {
+    throw new Error(`Invalid pose target: ${result.errors.join('; ')}`);
+  }
+  return result.target;
+}
+
+/**
+ * Get a preset pose target by id
+ */
+export function getPoseTarget(id: string): PoseTarget | undefined {
+  return POSE_TARGETS[id];
+}
+
+/**
+ * Score how closely live landmarks match a target pose by joint angles
+ * Returns null when too little of the body is visible to judge
+ */
+export function scorePoseMatch(landmarks: Landmark[], target: PoseTarget): PoseMatch | null {
+  const joints: PoseMatch['joints'] = {};
+  let total = 0;
+  let compared = 0;
+
+  for (const [name, angleJoints] of Object.entries(POSE_JOINT_ANGLES)) {
+    const [a, b, c] = angleJoints.map((joint) => landmarks[POSE_JOINTS[joint]]);
+    if (!isLandmarkVisible(a) || !isLandmarkVisible(b) || !isLandmarkVisible(c)) {
+      continue;
+    }
+
+    const [ta, tb, tc] = angleJoints.map((joint): Point => {
+      const [x, y] = target.joints[joint];
+      return { x, y };
+    });
+    const difference = Math.abs(getAngle(a, b, c) - getAngle(ta, tb, tc));
+    const score = Math.max(0, 1 - difference / POSE_ANGLE_TOLERANCE);
+
+    joints[name as PoseJointAngle] = score;
+    total += score;
+    compared += 1;
+  }
+
+  if (compared < Object.keys(POSE_JOINT_ANGLES).length * MIN_VISIBLE_ANGLES) {
+    return null;
+  }
+
+  // Blend in the worst joint so one limb far off spoils an otherwise close pose
+  const worst = Math.min(...Object.values(joints));
+  return { similarity: (total / compared + worst) / 2, joints };
+}
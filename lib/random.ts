@@ -0,0 +1,51 @@
+/**
+ * Seeded pseudo-random numbers for reproducible sessions
+ *
+ * A session's arrow sequence depends only on its seed, so a run can be
+ * replayed or shared by entering the same seed. Seeds are unsigned 32-bit
+ * integers, shown to players as 8 hex digits.
+ */
+
+// Source of random numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded random source (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a new random seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Format a seed for display (8 uppercase hex digits)
+ */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
+
+/**
+ * Parse a seed entered by the player (hex, as shown by formatSeed)
+ * Returns null if the text is not a valid seed
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) {
+    return null;
+  }
+  return parseInt(trimmed, 16) >>> 0;
+}
@@ -0,0 +1,226 @@
+/**
+ * Song library: manifest loading and per-song best scores
+ *
+ * The manifest lives at /songs/manifest.json:
+ *
+ * {
+ *   "version": 1,
+ *   "songs": [{
+ *     "id": "warm-up",
+ *     "title": "Warm-Up",
+ *     "artist": "Ian Games",
+ *     "bpm": 100,
+ *     "duration": 60000,
+ *     "audio": "/songs/warm-up/song.mp3",
+ *     "preview": { "start": 15000, "duration": 10000 },
+ *     "charts": { "easy": "/songs/warm-up/easy.json" }
+ *   }]
+ * }
+ *
+ * Best scores are kept in localStorage, keyed by song and difficulty.
+ */
+
+import type { Chart, DifficultyLevel, SongInfo, SongManifest } from './types';
+import { loadChart } from './chart';
+
+// Where the song manifest is served from
+export const SONG_MANIFEST_URL = '/songs/manifest.json';
+
+// Current manifest format version
+export const SONG_MANIFEST_VERSION = 1;
+
+// localStorage key for best scores
+const BEST_SCORES_STORAGE_KEY = 'dance-game:best-scores';
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// Best scores keyed by `${songId}:${difficulty}`
+export type BestScores = Record<string, number>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Validate a single song entry, collecting errors with the given prefix
+ */
+function validateSong(song: unknown, prefix: string, errors: string[]): song is SongInfo {
+  const errorCount = errors.length;
+
+  if (!isRecord(song)) {
+    errors.push(`${prefix} must be an object`);
+    return false;
+  }
+
+  for (const field of ['id', 'title', 'artist'] as const) {
+    if (typeof song[field] !== 'string' || song[field].length === 0) {
+      errors.push(`${prefix}.${field} must be a non-empty string`);
+    }
+  }
+  if (!isPositiveNumber(song.bpm)) {
+    errors.push(`${prefix}.bpm must be a positive number`);
+  }
+  if (!isPositiveNumber(song.duration)) {
+    errors.push(`${prefix}.duration must be a positive number`);
+  }
+  if (song.audio !== undefined && typeof song.audio !== 'string') {
+    errors.push(`${prefix}.audio must be a string`);
+  }
+
+  if (song.preview !== undefined) {
+    const preview = song.preview;
+    if (
+      !isRecord(preview) ||
+      typeof preview.start !== 'number' ||
+      !isPositiveNumber(preview.duration) ||
+      (preview.src !== undefined && typeof preview.src !== 'string')
+    ) {
+      errors.push(`${prefix}.preview must have a start, a positive duration and an optional src`);
+    }
+  }
+
+  if (!isRecord(song.charts)) {
+    errors.push(`${prefix}.charts must be an object`);
+  } else {
+    for (const [difficulty, src] of Object.entries(song.charts)) {
+      if (!DIFFICULTY_LEVELS.includes(difficulty as DifficultyLevel)) {
+        errors.push(`${prefix}.charts has unknown difficulty: ${difficulty}`);
+      } else if (typeof src !== 'string') {
+        errors.push(`${prefix}.charts.${difficulty} must be a string`);
+      }
+    }
+  }
+
+  return errors.length === errorCount;
+}
+
+/**
+ * Validate raw (parsed JSON) manifest data, throwing if it is invalid
+ */
+export function parseSongManifest(data: unknown): SongManifest {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    throw new Error('Invalid song manifest: must be a JSON object');
+  }
+
+  if (data.version !== SONG_MANIFEST_VERSION) {
+    errors.push(
+      `Unsupported manifest version: ${String(data.version)} (expected ${SONG_MANIFEST_VERSION})`
+    );
+  }
+
+  const songs: SongInfo[] = [];
+  if (!Array.isArray(data.songs)) {
+    errors.push('songs must be an array');
+  } else {
+    data.songs.forEach((song: unknown, index: number) => {
+      if (validateSong(song, `songs[${index}]`, errors)) {
+        songs.push(song);
+      }
+    });
+  }
+
+  const ids = new Set<string>();
+  for (const song of songs) {
+    if (ids.has(song.id)) {
+      errors.push(`Duplicate song id: ${song.id}`);
+    }
+    ids.add(song.id);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid song manifest: ${errors.join('; ')}`);
+  }
+
+  return { version: SONG_MANIFEST_VERSION, songs };
+}
+
+/**
+ * Fetch and validate the song manifest
+ */
+export async function loadSongManifest(src: string = SONG_MANIFEST_URL): Promise<SongManifest> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Failed to load song manifest: ${response.status} ${response.statusText}`);
+  }
+  return parseSongManifest(await response.json());
+}
+
+/**
+ * Load a song's chart for a difficulty, using the manifest's audio
+ */
+export async function loadSongChart(song: SongInfo, difficulty: DifficultyLevel): Promise<Chart> {
+  const src = song.charts[difficulty];
+  if (!src) {
+    throw new Error(`${song.title} has no ${difficulty} chart`);
+  }
+
+  const chart = await loadChart(src);
+  return {
+    ...chart,
+    song: {
+      ...chart.song,
+      audio: song.audio,
+    },
+  };
+}
+
+/**
+ * Get the best-score key for a song and difficulty
+ */
+export function getBestScoreKey(songId: string, difficulty: DifficultyLevel): string {
+  return `${songId}:${difficulty}`;
+}
+
+/**
+ * Read all best scores from localStorage
+ */
+export function loadBestScores(): BestScores {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const stored = window.localStorage.getItem(BEST_SCORES_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return isRecord(parsed)
+      ? Object.fromEntries(
+          Object.entries(parsed).filter(
+            (entry): entry is [string, number] => typeof entry[1] === 'number'
+          )
+        )
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record a score, returning the updated best scores and whether it was a new best
+ */
+export function saveBestScore(
+  songId: string,
+  difficulty: DifficultyLevel,
+  score: number
+): { bestScores: BestScores; isNewBest: boolean } {
+  const bestScores = loadBestScores();
+  const key = getBestScoreKey(songId, difficulty);
+
+  if (score <= (bestScores[key] ?? 0)) {
+    return { bestScores, isNewBest: false };
+  }
+
+  const updated = { ...bestScores, [key]: score };
+  try {
+    window.localStorage.setItem(BEST_SCORES_STORAGE_KEY, JSON.stringify(updated));
+  } catch (err) {
+    console.error('Failed to save best score:', err);
+  }
+
+  return { bestScores: updated, isNewBest: true };
+}
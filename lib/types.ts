@@ -50,6 +50,19 @@ export interface PoseResult {
   timestamp: number;
 }
 
+// One frame of a recorded pose session (pose is null when nobody was detected)
+export interface PoseRecordingFrame {
+  time: number;  // ms since the first frame
+  pose: PoseResult | null;
+}
+
+// Recorded stream of pose frames, for replaying a session without a camera
+export interface PoseRecording {
+  version: number;
+  recordedAt: string;  // ISO date the recording started
+  frames: PoseRecordingFrame[];  // sorted by time ascending
+}
+
 // Baseline positions stored during calibration
 export interface CalibrationData {
   leftHip: Landmark;
@@ -61,6 +74,9 @@ export interface CalibrationData {
   rightWrist: Landmark;
   hipCenterY: number; // Average Y of both hips for jump detection
   shoulderCenterY: number; // Average Y of both shoulders
+  shoulderWidth: number; // Distance between the shoulders (image units)
+  torsoLength: number; // Shoulder midpoint to hip midpoint (image units); the unit of distance thresholds
+  gestureOptions?: GestureDetectionOptions; // Personal thresholds from the calibration moves
   timestamp: number;
 }
 
@@ -85,41 +101,101 @@ export type OnPoseCallback = (pose: PoseResult | null) => void;
 export type OnCalibrationComplete = (data: CalibrationData) => void;
 
 // Gesture detection types
-export type GestureType = 'wave-left' | 'wave-right' | 'jump' | null;
+// Built-in gesture ids (see lib/gestureDetection)
+export type BuiltInGestureId =
+  | 'wave-left'
+  | 'wave-right'
+  | 'clap'
+  | 'arms-up'
+  | 't-pose'
+  | 'jump'
+  | 'kick-left'
+  | 'kick-right'
+  | 'squat'
+  | 'lean-left'
+  | 'lean-right'
+  | 'turn-left'
+  | 'turn-right';
+
+// Any registered gesture id: built-in or custom (see lib/gestureRegistry)
+export type GestureId = BuiltInGestureId | (string & {});
+
+export type GestureType = GestureId | null;
 
 export interface GestureEvent {
-  type: Exclude<GestureType, null>;
+  type: GestureId;
   timestamp: number;
   confidence: number;
 }
 
+// Distances are in torso lengths (see CalibrationData.torsoLength)
 export interface GestureDetectionOptions {
-  waveThreshold?: number;      // min Y movement for wave (default 0.05)
-  waveTimeWindow?: number;     // ms window to detect wave (default 500)
-  jumpThreshold?: number;      // min Y rise for jump (default 0.08)
+  waveThreshold?: number;      // min Y movement for wave (default 0.24)
+  waveTimeWindow?: number;     // ms window to detect wave or clap (default 500)
+  clapThreshold?: number;      // min closing of the wrist gap for clap (default 0.6)
+  tPoseTolerance?: number;     // max wrist-to-shoulder Y difference for T-pose (default 0.24)
+  jumpThreshold?: number;      // min Y rise for jump (default 0.32)
+  kickThreshold?: number;      // min ankle lift over the other ankle for kick (default 0.4)
+  squatThreshold?: number;     // min hip drop for squat (default 0.28)
+  leanThreshold?: number;      // min shoulder tilt against the hips for lean, degrees (default 12)
+  turnThreshold?: number;      // min shoulder depth difference for turn, shoulder widths (default 0.5)
   debounceTime?: number;       // ms between same gesture (default 500)
+  jumpDebounceTime?: number;   // ms between jumps (default 500)
 }
 
 // Callback type for gesture events
 export type OnGestureCallback = (gesture: GestureEvent) => void;
 
+// Ground truth for gesture evaluation: the gesture should be detected
+// once between start and end (ms of recording time)
+export interface GestureLabel {
+  gesture: GestureId;
+  start: number;
+  end: number;
+}
+
+// Gestures whose pose is currently being held (for hold notes);
+// missing means not held
+export type HeldGestures = Partial<Record<GestureId, boolean>>;
+
 // ============================================
 // Game Engine Types
 // ============================================
 
+// Hold note progress after its head is hit
+export type HoldState = 'holding' | 'completed' | 'released';
+
 // Arrow in the game
 export interface Arrow {
   id: string;
-  lane: 0 | 1 | 2;
+  lane: number;  // lane index, 0 = leftmost lane of the layout
   spawnTime: number;
   position: number;  // 0 = top of screen, 1 = bottom
   hit: boolean;
   missed: boolean;
-  hitRating?: 'perfect' | 'good' | 'miss';
+  hitRating?: HitRating;
+  hitOffset?: number;     // ms from the target time when hit (negative = early)
+  duration?: number;      // hold note length in ms (absent for tap notes)
+  tailPosition?: number;  // position of the hold note's tail end
+  holdState?: HoldState;
+  holdProgress?: number;  // fraction of the hold completed (0-1)
+  pose?: string;          // pose target id (pose notes, judged by matching the pose)
+  poseMatch?: number;     // best pose similarity (0-1) reached in the hit window
 }
 
 // Hit rating type
-export type HitRating = 'perfect' | 'good' | 'miss';
+export type HitRating = 'perfect' | 'great' | 'good' | 'miss';
+
+// Whether a hit came before or after the note's target time
+export type HitTiming = 'early' | 'late';
+
+// Judgement windows in ms either side of a note's target time
+export interface JudgementWindows {
+  perfect: number;
+  great: number;
+  good: number;
+  miss: number;  // early gestures within this window count as a miss for the note
+}
 
 // Game status
 export type GameStatus = 'idle' | 'countdown' | 'playing' | 'paused' | 'ended';
@@ -127,6 +203,10 @@ export type GameStatus = 'idle' | 'countdown' | 'playing' | 'paused' | 'ended';
 // Difficulty level
 export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
+// Game mode: 'dance' notes are hit with gestures in their lane,
+// 'pose' notes are target poses matched by the player's body shape
+export type GameMode = 'dance' | 'pose';
+
 // Full game state
 export interface GameState {
   status: GameStatus;
@@ -134,6 +214,7 @@ export interface GameState {
   combo: number;
   maxCombo: number;
   perfectHits: number;
+  greatHits: number;
   goodHits: number;
   misses: number;
   arrows: Arrow[];
@@ -145,11 +226,13 @@ export interface GameStats {
   score: number;
   maxCombo: number;
   perfectHits: number;
+  greatHits: number;
   goodHits: number;
   misses: number;
   totalArrows: number;
   accuracy: number;  // percentage 0-100
   duration: number;  // game duration in ms
+  seed: number;      // random seed of the session (replays the same arrow sequence)
 }
 
 // Hit result from processing a gesture
@@ -158,6 +241,75 @@ export interface HitResult {
   arrow?: Arrow;
   rating?: HitRating;
   score?: number;
+  offset?: number;      // ms from the target time (negative = early)
+  timing?: HitTiming;   // early/late sign of the offset
+}
+
+// ============================================
+// Chart (Beatmap) Types
+// ============================================
+
+// Lane index used by arrows and chart notes
+export type LaneIndex = Arrow['lane'];
+
+// Preset lane layouts (see lib/laneLayouts)
+export type LaneLayoutId = 'two-lane' | 'classic' | 'four-lane' | 'five-lane' | 'six-lane';
+
+// Single timestamped note in a chart
+export interface ChartNote {
+  time: number;  // ms of chart time (from the first beat) when the note should be hit
+  lane: LaneIndex;
+  duration?: number;  // hold length in ms (hold notes only)
+}
+
+// Song metadata stored alongside a chart
+export interface ChartSongInfo {
+  title: string;
+  artist: string;
+  audio?: string;  // path to the song audio file
+}
+
+// Versioned chart file contents
+export interface Chart {
+  version: number;
+  song: ChartSongInfo;
+  bpm: number;
+  offset: number;  // ms into the audio where chart time 0 (the first beat) falls
+  difficulty?: DifficultyLevel;
+  layout?: LaneLayoutId;  // lane layout the notes are written for (classic when omitted)
+  notes: ChartNote[];  // sorted by time ascending
+}
+
+// How the engine decides when and where to spawn arrows
+export type SpawnMode = 'chart' | 'freestyle';
+
+// ============================================
+// Song Library Types
+// ============================================
+
+// Short clip played on the song-select screen
+export interface SongPreview {
+  src?: string;      // separate clip file (defaults to the song audio)
+  start: number;     // ms into the clip/audio where playback starts
+  duration: number;  // ms of audio to play
+}
+
+// Song entry in the library manifest
+export interface SongInfo {
+  id: string;
+  title: string;
+  artist: string;
+  bpm: number;
+  duration: number;  // song length in ms
+  audio?: string;    // path to the song audio (silent practice songs omit it)
+  preview?: SongPreview;
+  charts: Partial<Record<DifficultyLevel, string>>;  // chart file path per difficulty
+}
+
+// Song library manifest file contents
+export interface SongManifest {
+  version: number;
+  songs: SongInfo[];
 }
 
 // Game engine control functions